@@ -7,6 +7,7 @@ import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import HomePage from "@/pages/home-page";
 import RosterPage from "@/pages/roster-page";
+import MySchedulePage from "@/pages/my-schedule-page";
 import AdminPage from "@/pages/admin-page";
 import AccountPage from "@/pages/account-page";
 import { ProtectedRoute } from "./lib/protected-route";
@@ -19,6 +20,7 @@ function Router() {
       <Route path="/auth" component={AuthPage} />
       <ProtectedRoute path="/" component={HomePage} />
       <ProtectedRoute path="/roster" component={RosterPage} />
+      <ProtectedRoute path="/my-schedule" component={MySchedulePage} />
       <ProtectedRoute path="/admin" component={AdminPage} />
       <ProtectedRoute path="/account" component={AccountPage} />
       <Route component={NotFound} />
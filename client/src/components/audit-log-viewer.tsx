@@ -0,0 +1,208 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AuditEntityType, AuditLog, SafeUser } from "@shared/schema";
+import { History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const entityTypeLabels: Record<AuditEntityType, string> = {
+  roster_assignment: "Roster assignment",
+  finalized_roster: "Roster month",
+  settings: "Settings",
+  member: "Member",
+  verse: "Verse",
+  special_day: "Special day",
+  service: "Service",
+  service_schedule: "Service schedule",
+  member_qualification: "Qualification",
+  swap_request: "Swap request",
+  email: "Email",
+  availability_deadline: "Availability deadline",
+  time_away: "Time away",
+  service_role: "Service role",
+};
+
+type AuditFilters = {
+  actorId: string;
+  entityType: string;
+  from: string;
+  to: string;
+};
+
+// Field names whose values differ between the before and after snapshots
+function changedFields(log: AuditLog): string[] {
+  if (!log.before || !log.after || Array.isArray(log.before) || Array.isArray(log.after)) return [];
+  const before = log.before as Record<string, unknown>;
+  const after = log.after as Record<string, unknown>;
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+}
+
+export function AuditLogViewer({ members }: { members: SafeUser[] }) {
+  const [filters, setFilters] = useState<AuditFilters>({ actorId: "all", entityType: "all", from: "", to: "" });
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data: logs = [], isLoading } = useQuery<AuditLog[]>({
+    queryKey: ["/api/admin/audit-logs", filters],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (filters.actorId !== "all") params.set("actorId", filters.actorId);
+      if (filters.entityType !== "all") params.set("entityType", filters.entityType);
+      if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+      if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+      const response = await fetch(`/api/admin/audit-logs?${params}`, {
+        credentials: "include"
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch audit log");
+      }
+      return response.json();
+    },
+  });
+
+  const memberName = (userId: number | null) => {
+    const member = members.find(m => m.id === userId);
+    return member ? `${member.firstName} ${member.lastName}` : "—";
+  };
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Audit Log
+        </CardTitle>
+        <CardDescription>
+          Every change to rosters, members, settings, verses, special days, services and service roles.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Changed By</label>
+            <Select value={filters.actorId} onValueChange={(value) => updateFilter("actorId", value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Anyone" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Anyone</SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.id} value={member.id.toString()}>
+                    {member.firstName} {member.lastName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Type</label>
+            <Select value={filters.entityType} onValueChange={(value) => updateFilter("entityType", value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Everything" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everything</SelectItem>
+                {Object.entries(entityTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">From</label>
+            <Input type="date" value={filters.from} onChange={(e) => updateFilter("from", e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">To</label>
+            <Input type="date" value={filters.to} onChange={(e) => updateFilter("to", e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading audit log...</p>
+        ) : logs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes match these filters.</p>
+        ) : (
+          <div className="rounded-md border">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="p-2 text-left">When</th>
+                  <th className="p-2 text-left">Who</th>
+                  <th className="p-2 text-left">Action</th>
+                  <th className="p-2 text-left">Entity</th>
+                  <th className="p-2 text-left">Changed Fields</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {logs.map((log) => (
+                  <Fragment key={log.id}>
+                    <tr className="border-b">
+                      <td className="p-2 whitespace-nowrap">{format(new Date(log.createdAt), "d MMM yyyy HH:mm")}</td>
+                      <td className="p-2">{memberName(log.actorId)}</td>
+                      <td className="p-2">
+                        <Badge variant="outline">{log.action.replace(/_/g, " ")}</Badge>
+                      </td>
+                      <td className="p-2">
+                        {entityTypeLabels[log.entityType as AuditEntityType] ?? log.entityType}
+                        {log.entityId && <span className="text-muted-foreground"> #{log.entityId}</span>}
+                      </td>
+                      <td className="p-2 text-muted-foreground">{changedFields(log).join(", ") || "—"}</td>
+                      <td className="p-2 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                        >
+                          {expandedId === log.id ? "Hide" : "Details"}
+                        </Button>
+                      </td>
+                    </tr>
+                    {expandedId === log.id && (
+                      <tr className="border-b bg-muted/30">
+                        <td colSpan={6} className="p-2">
+                          <div className="grid gap-2 md:grid-cols-2">
+                            <div>
+                              <p className="text-xs font-medium mb-1">Before</p>
+                              <pre className="text-xs whitespace-pre-wrap break-all">{JSON.stringify(log.before, null, 2) ?? "—"}</pre>
+                            </div>
+                            <div>
+                              <p className="text-xs font-medium mb-1">After</p>
+                              <pre className="text-xs whitespace-pre-wrap break-all">{JSON.stringify(log.after, null, 2) ?? "—"}</pre>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
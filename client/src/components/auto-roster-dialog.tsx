@@ -0,0 +1,196 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { MemberSummary, RosterAssignment, RosterProposal, Service, ServiceRole } from "@shared/schema";
+import { formatServiceLabel } from "@shared/services";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import AlertTriangle from "lucide-react/dist/esm/icons/alert-triangle";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ChurchLoader } from "./church-loader";
+
+type AutoRosterSlot = {
+  service: Service;
+  availablePeople: (MemberSummary & { formattedName: string })[];
+  roles: ServiceRole[];
+};
+
+type AcceptProposalResponse = {
+  created: RosterAssignment[];
+  skipped: { serviceId: number; roleId: number; userId: number; reason: string }[];
+};
+
+// Previews the generator's suggestions for the month's open places and saves them on accept
+export function AutoRosterDialog({
+  open,
+  onOpenChange,
+  year,
+  month,
+  slots,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  year: number;
+  month: number;
+  slots: AutoRosterSlot[];
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: proposal, isLoading, error } = useQuery<RosterProposal>({
+    queryKey: ["/api/roster-builder/proposal", year, month],
+    queryFn: async () => {
+      const response = await fetch(`/api/roster-builder/proposal/${year}/${month}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to generate roster proposal");
+      }
+      return response.json();
+    },
+    enabled: open,
+    // Always propose from the latest assignments and availability
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (): Promise<AcceptProposalResponse> => {
+      return await apiRequest({
+        method: "POST",
+        data: { assignments: proposal?.assignments ?? [] },
+      }, `/api/roster-builder/proposal/${year}/${month}/accept`);
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roster-builder/services", year, month] });
+      queryClient.invalidateQueries({ queryKey: ["/api/roster-assignments/month", year, month] });
+      toast({
+        title: "Success",
+        description: result.skipped.length > 0
+          ? `${result.created.length} assignments added, ${result.skipped.length} skipped because the place was no longer open`
+          : `${result.created.length} assignments added`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save proposed assignments",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const memberNames = new Map<number, string>();
+  const roleNames = new Map<number, string>();
+  for (const slot of slots) {
+    slot.availablePeople.forEach(person => memberNames.set(person.id, person.formattedName));
+    slot.roles.forEach(role => roleNames.set(role.id, role.name));
+  }
+  const memberName = (userId: number) => memberNames.get(userId) ?? `Member #${userId}`;
+  const roleName = (roleId: number) => roleNames.get(roleId) ?? "Unknown role";
+
+  const servicesWithChanges = slots.filter(slot =>
+    proposal?.assignments.some(a => a.serviceId === slot.service.id) ||
+    proposal?.unfilled.some(u => u.serviceId === slot.service.id)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Auto-fill Roster</DialogTitle>
+          <DialogDescription>
+            Suggested assignments for open places, favouring members who have served least.
+            Existing assignments are kept. Nothing is saved until you accept.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <ChurchLoader type="calendar" size="md" text="Working out a fair roster..." />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{(error as Error).message}</AlertDescription>
+          </Alert>
+        ) : proposal && servicesWithChanges.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            Every place you can roster this month is already filled.
+          </p>
+        ) : proposal && (
+          <div className="space-y-4">
+            {servicesWithChanges.map(slot => {
+              const proposed = proposal.assignments.filter(a => a.serviceId === slot.service.id);
+              const unfilled = proposal.unfilled.filter(u => u.serviceId === slot.service.id);
+              return (
+                <div key={slot.service.id} className="rounded-md border p-3">
+                  <h4 className="font-medium mb-2">{formatServiceLabel(slot.service)}</h4>
+                  <ul className="text-sm space-y-1">
+                    {proposed.map(a => (
+                      <li key={`${a.roleId}-${a.userId}`} className="flex justify-between gap-2">
+                        <span className="text-muted-foreground">{roleName(a.roleId)}</span>
+                        <span>{memberName(a.userId)}</span>
+                      </li>
+                    ))}
+                    {unfilled.map(u => (
+                      <li key={`unfilled-${u.roleId}`} className="flex items-center gap-1 text-amber-600">
+                        <AlertTriangle className="h-3 w-3" />
+                        {roleName(u.roleId)}: {u.missing} {u.missing === 1 ? "place" : "places"} could not be filled
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+
+            {proposal.load.length > 0 && (
+              <div>
+                <h4 className="font-medium mb-2">Load per member</h4>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="font-normal">Member</th>
+                      <th className="font-normal text-right">Before this month</th>
+                      <th className="font-normal text-right">Already this month</th>
+                      <th className="font-normal text-right">Proposed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {proposal.load.map(entry => (
+                      <tr key={entry.userId}>
+                        <td>{memberName(entry.userId)}</td>
+                        <td className="text-right">{entry.previous}</td>
+                        <td className="text-right">{entry.current}</td>
+                        <td className="text-right">{entry.proposed}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => acceptMutation.mutate()}
+            disabled={!proposal || proposal.assignments.length === 0 || acceptMutation.isPending}
+          >
+            {acceptMutation.isPending ? "Saving..." : `Accept ${proposal?.assignments.length ?? 0} Assignments`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
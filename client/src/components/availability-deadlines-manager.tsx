@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addMonths, format, parseISO, startOfMonth, subMonths } from "date-fns";
+import { DirectoryEntry, LockState, MonthDeadlineSettings, UpdateMonthDeadline } from "@shared/schema";
+import { getDefaultMonth } from "@/lib/date-utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, ChevronRight, Lock } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChurchLoader } from "./church-loader";
+
+const LOCK_STATE_LABELS: Record<LockState, string> = {
+  auto: "Lock after the deadline",
+  locked: "Locked now",
+  open: "Reopened",
+};
+
+// Per-month deadline override, manual lock or reopen, and the members who may
+// still change their availability once the month is locked
+export function AvailabilityDeadlinesManager() {
+  const { toast } = useToast();
+  const [selectedMonth, setSelectedMonth] = useState(getDefaultMonth());
+  const year = selectedMonth.getFullYear();
+  const month = selectedMonth.getMonth() + 1;
+  const queryUrl = `/api/admin/availability-deadlines/${year}/${month}`;
+
+  const [deadline, setDeadline] = useState("");
+  const [lockState, setLockState] = useState<LockState>("auto");
+  const [exceptionUserIds, setExceptionUserIds] = useState<number[]>([]);
+
+  const { data: settings, isLoading } = useQuery<MonthDeadlineSettings>({
+    queryKey: [queryUrl],
+  });
+
+  const { data: members = [] } = useQuery<DirectoryEntry[]>({
+    queryKey: ["/api/users"],
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setDeadline(settings.status.isOverridden ? settings.status.deadline : "");
+    setLockState(settings.status.lockState);
+    setExceptionUserIds(settings.exceptionUserIds);
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: UpdateMonthDeadline): Promise<MonthDeadlineSettings> => {
+      return await apiRequest({
+        method: "PUT",
+        data
+      }, queryUrl);
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData([queryUrl], saved);
+      queryClient.invalidateQueries({ queryKey: [`/api/availability-deadline/${year}/${month}`] });
+      toast({
+        title: "Success",
+        description: `Availability deadline for ${format(selectedMonth, "MMMM yyyy")} saved`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleException = (userId: number, checked: boolean) => {
+    setExceptionUserIds(prev => checked ? [...prev, userId] : prev.filter(id => id !== userId));
+  };
+
+  const status = settings?.status;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle>Availability Deadlines</CardTitle>
+            <CardDescription>
+              Move a month's deadline, lock it early or reopen it, and let individual members keep making changes.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-4 bg-muted px-3 py-1.5 rounded-lg">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => setSelectedMonth(prev => startOfMonth(subMonths(prev, 1)))}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <div className="min-w-[120px] text-center font-medium">
+              {format(selectedMonth, "MMMM yyyy")}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => setSelectedMonth(prev => startOfMonth(addMonths(prev, 1)))}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !status ? (
+          <div className="flex justify-center py-6">
+            <ChurchLoader type="calendar" size="md" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center gap-2 text-sm">
+              {status.isLocked ? (
+                <Badge variant="destructive" className="gap-1">
+                  <Lock className="h-3 w-3" />
+                  Locked
+                </Badge>
+              ) : (
+                <Badge variant="secondary">Open</Badge>
+              )}
+              <span className="text-muted-foreground">
+                Deadline {format(parseISO(status.deadline), "EEEE d MMMM")}
+                {status.isOverridden && ` (usually ${format(parseISO(status.defaultDeadline), "d MMMM")})`}
+              </span>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="deadline-override">Deadline</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="deadline-override"
+                    type="date"
+                    value={deadline}
+                    placeholder={status.defaultDeadline}
+                    onChange={(e) => setDeadline(e.target.value)}
+                  />
+                  {deadline && (
+                    <Button variant="outline" onClick={() => setDeadline("")}>
+                      Default
+                    </Button>
+                  )}
+                </div>
+                {!deadline && (
+                  <p className="text-xs text-muted-foreground">
+                    Using the default, {format(parseISO(status.defaultDeadline), "d MMMM")}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Lock</Label>
+                <Select value={lockState} onValueChange={(value) => setLockState(value as LockState)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(LOCK_STATE_LABELS) as LockState[]).map(state => (
+                      <SelectItem key={state} value={state}>{LOCK_STATE_LABELS[state]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Members who can still change their availability once locked</Label>
+              <div className="grid gap-2 sm:grid-cols-2 md:grid-cols-3 max-h-60 overflow-y-auto rounded-md border p-3">
+                {members.map(member => (
+                  <label key={member.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={exceptionUserIds.includes(member.id)}
+                      onCheckedChange={(checked) => toggleException(member.id, checked === true)}
+                    />
+                    {member.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate({ deadline: deadline || null, lockState, exceptionUserIds })}
+                disabled={saveMutation.isPending}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addMonths, format, parseISO, startOfMonth, subMonths } from "date-fns";
+import { AvailabilityResponses, ReminderDeliverySummary, ResponseState, SendAvailabilityReminders } from "@shared/schema";
+import { formatServiceLabel } from "@shared/services";
+import { getDefaultMonth } from "@/lib/date-utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { BellRing, ChevronLeft, ChevronRight, Lock } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChurchLoader } from "./church-loader";
+
+const RESPONSE_STATE_LABELS: Record<ResponseState, string> = {
+  none: "Not responded",
+  partial: "Partial",
+  complete: "Complete",
+};
+
+const RESPONSE_STATE_VARIANTS: Record<ResponseState, "destructive" | "secondary" | "default"> = {
+  none: "destructive",
+  partial: "secondary",
+  complete: "default",
+};
+
+const formatTimestamp = (value: Date | string | null) =>
+  value ? format(new Date(value), "d MMM, h:mm a") : "—";
+
+// Who has answered for a month's services, totals per service, and reminders
+// for members who haven't answered
+export function AvailabilityResponsesDashboard() {
+  const { toast } = useToast();
+  const [selectedMonth, setSelectedMonth] = useState(getDefaultMonth());
+  const [filter, setFilter] = useState<ResponseState | "all">("all");
+  const year = selectedMonth.getFullYear();
+  const month = selectedMonth.getMonth() + 1;
+  const queryUrl = `/api/admin/availability-responses/${year}/${month}`;
+
+  const { data: responses, isLoading } = useQuery<AvailabilityResponses>({
+    queryKey: [queryUrl],
+    // Members answer all the time; don't show a stale picture for long
+    staleTime: 60 * 1000,
+  });
+
+  const remindMutation = useMutation({
+    mutationFn: async (data: SendAvailabilityReminders): Promise<ReminderDeliverySummary> => {
+      return await apiRequest({
+        method: "POST",
+        data
+      }, `${queryUrl}/remind`);
+    },
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries({ queryKey: [queryUrl] });
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0]).startsWith("/api/admin/outbox"),
+      });
+      const skipped = summary.skipped.map(entry => `${entry.name} (${entry.reason.toLowerCase()})`).join(", ");
+      toast({
+        title: "Success",
+        description: `Queued ${summary.queued} reminder${summary.queued === 1 ? "" : "s"}` +
+          (skipped ? `. Skipped ${skipped}.` : ""),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const members = responses?.members ?? [];
+  const counts = (state: ResponseState) => members.filter(row => row.state === state).length;
+  const nonResponders = members.filter(row => row.state === "none" && row.canEmail);
+  const visible = filter === "all" ? members : members.filter(row => row.state === filter);
+  const isLocked = !!responses?.deadline.isLocked;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle>Availability Responses</CardTitle>
+            <CardDescription>
+              See who has answered for a month's services and remind those who haven't.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-4 bg-muted px-3 py-1.5 rounded-lg">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => setSelectedMonth(prev => startOfMonth(subMonths(prev, 1)))}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <div className="min-w-[120px] text-center font-medium">
+              {format(selectedMonth, "MMMM yyyy")}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => setSelectedMonth(prev => startOfMonth(addMonths(prev, 1)))}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !responses ? (
+          <div className="flex justify-center py-6">
+            <ChurchLoader type="calendar" size="md" />
+          </div>
+        ) : responses.serviceCount === 0 ? (
+          <p className="text-sm text-muted-foreground">No services are scheduled for this month.</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {isLocked && (
+                  <Badge variant="destructive" className="gap-1">
+                    <Lock className="h-3 w-3" />
+                    Locked
+                  </Badge>
+                )}
+                <span className="text-muted-foreground">
+                  {isLocked ? "Closed" : "Closes"} {format(parseISO(responses.deadline.deadline), "EEEE d MMMM")}
+                  {" · "}
+                  {counts("complete")} complete, {counts("partial")} partial, {counts("none")} not responded
+                </span>
+              </div>
+              <Button
+                onClick={() => remindMutation.mutate({ userIds: nonResponders.map(row => row.member.id) })}
+                disabled={remindMutation.isPending || isLocked || nonResponders.length === 0}
+                title={isLocked ? "Reopen the month to send reminders" : undefined}
+              >
+                <BellRing className="h-4 w-4 mr-2" />
+                Remind {nonResponders.length} Non-Responder{nonResponders.length === 1 ? "" : "s"}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <h4 className="font-medium">Members</h4>
+                <Select value={filter} onValueChange={(value) => setFilter(value as ResponseState | "all")}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Everyone</SelectItem>
+                    {(Object.keys(RESPONSE_STATE_LABELS) as ResponseState[]).map(state => (
+                      <SelectItem key={state} value={state}>{RESPONSE_STATE_LABELS[state]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="rounded-md border max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Last Updated</TableHead>
+                      <TableHead>Last Reminded</TableHead>
+                      <TableHead className="w-24" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visible.map(row => (
+                      <TableRow key={row.member.id}>
+                        <TableCell>{row.member.firstName} {row.member.lastName}</TableCell>
+                        <TableCell>
+                          <Badge variant={RESPONSE_STATE_VARIANTS[row.state]}>
+                            {RESPONSE_STATE_LABELS[row.state]}
+                          </Badge>
+                          {row.state === "partial" && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              {row.answered} of {responses.serviceCount}
+                            </span>
+                          )}
+                          {row.filled > 0 && (
+                            <span
+                              className="ml-2 text-xs text-muted-foreground"
+                              title="Answered from their availability rules or time away"
+                            >
+                              {row.filled} filled in
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{formatTimestamp(row.lastUpdated)}</TableCell>
+                        <TableCell className="text-muted-foreground">{formatTimestamp(row.lastReminder)}</TableCell>
+                        <TableCell>
+                          {row.state !== "complete" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => remindMutation.mutate({ userIds: [row.member.id] })}
+                              disabled={remindMutation.isPending || isLocked || !row.canEmail}
+                              title={row.canEmail ? undefined : "No email address, or opted out of reminders"}
+                            >
+                              Remind
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {visible.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-muted-foreground">
+                          No members
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-medium">Services</h4>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Service</TableHead>
+                      <TableHead className="text-right">Yes</TableHead>
+                      <TableHead className="text-right">Maybe</TableHead>
+                      <TableHead className="text-right">No</TableHead>
+                      <TableHead className="text-right">No Response</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {responses.services.map(total => (
+                      <TableRow key={total.service.id}>
+                        <TableCell>
+                          {format(parseISO(total.service.serviceDate), "EEE d MMM")}, {formatServiceLabel(total.service)}
+                        </TableCell>
+                        <TableCell className="text-right">{total.yes}</TableCell>
+                        <TableCell className="text-right">{total.maybe}</TableCell>
+                        <TableCell className="text-right">{total.no}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">{total.noResponse}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
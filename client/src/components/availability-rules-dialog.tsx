@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AvailabilityRule, AvailabilityRuleKind, SaveAvailabilityRule } from "@shared/schema";
+import { WEEKDAY_NAMES, describeSchedule } from "@shared/services";
+import { fromDateKey } from "@shared/dates";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const WEEK_OPTIONS = [
+  { value: 1, label: "1st" },
+  { value: 2, label: "2nd" },
+  { value: 3, label: "3rd" },
+  { value: 4, label: "4th" },
+  { value: 5, label: "5th" },
+];
+
+// e.g. "1st and 3rd Sunday", "Away 1 Jan 2026 - 31 Jan 2026"
+export function describeAvailabilityRule(rule: AvailabilityRule): string {
+  if (rule.kind === "dates" && rule.startDate && rule.endDate) {
+    const from = format(fromDateKey(rule.startDate), "d MMM yyyy");
+    const to = format(fromDateKey(rule.endDate), "d MMM yyyy");
+    return from === to ? `Away ${from}` : `Away ${from} - ${to}`;
+  }
+  return describeSchedule({ dayOfWeek: rule.dayOfWeek ?? 0, weeksOfMonth: rule.weeksOfMonth });
+}
+
+// The signed-in member's standing availability. Rules answer for services when a
+// month opens; answers changed by hand on the home page are kept.
+export function AvailabilityRulesDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<AvailabilityRuleKind>("weekday");
+  const [dayOfWeek, setDayOfWeek] = useState(0);
+  const [weeksOfMonth, setWeeksOfMonth] = useState<number[]>([]);
+  const [isAvailable, setIsAvailable] = useState(true);
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+
+  const { data: rules = [] } = useQuery<AvailabilityRule[]>({
+    queryKey: ["/api/availability-rules"],
+    enabled: open,
+  });
+
+  const onRulesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/availability-rules"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/availability"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/my-schedule"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: SaveAvailabilityRule): Promise<AvailabilityRule> => {
+      return await apiRequest({
+        method: "POST",
+        data
+      }, "/api/availability-rules");
+    },
+    onSuccess: () => {
+      onRulesChanged();
+      setWeeksOfMonth([]);
+      setStartDate("");
+      setEndDate("");
+      toast({
+        title: "Success",
+        description: "Rule saved and applied to open months",
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest({
+        method: "DELETE"
+      }, `/api/availability-rules/${id}`);
+    },
+    onSuccess: () => {
+      onRulesChanged();
+      toast({
+        title: "Success",
+        description: "Rule removed",
+      });
+    },
+    onError,
+  });
+
+  const handleAdd = () => {
+    createMutation.mutate(kind === "weekday"
+      ? { kind, dayOfWeek, weeksOfMonth, isAvailable }
+      : { kind, startDate, endDate });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Standing Availability</DialogTitle>
+          <DialogDescription>
+            Rules fill in your availability when a new month opens. You can still change any date by hand.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You have no rules yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {rules.map(rule => (
+                <div key={rule.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span>{describeAvailabilityRule(rule)}</span>
+                    {rule.kind === "weekday" && (
+                      <Badge variant={rule.isAvailable ? "default" : "secondary"}>
+                        {rule.isAvailable ? "Available" : "Unavailable"}
+                      </Badge>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => deleteMutation.mutate(rule.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-4 rounded-md border p-4">
+            <div className="space-y-2">
+              <Label>New rule</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as AvailabilityRuleKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weekday">A day of the week</SelectItem>
+                  <SelectItem value="dates">Dates I'm away</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {kind === "weekday" ? (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Day</Label>
+                    <Select value={dayOfWeek.toString()} onValueChange={(value) => setDayOfWeek(parseInt(value))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEEKDAY_NAMES.map((weekday, index) => (
+                          <SelectItem key={weekday} value={index.toString()}>{weekday}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Answer</Label>
+                    <Select value={isAvailable ? "yes" : "no"} onValueChange={(value) => setIsAvailable(value === "yes")}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="yes">Available</SelectItem>
+                        <SelectItem value="no">Unavailable</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Weeks of the month</Label>
+                  <div className="flex flex-wrap gap-4">
+                    {WEEK_OPTIONS.map((week) => (
+                      <div key={week.value} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`rule-week-${week.value}`}
+                          checked={weeksOfMonth.includes(week.value)}
+                          onCheckedChange={(checked) => setWeeksOfMonth(prev =>
+                            checked === true
+                              ? [...prev, week.value].sort((a, b) => a - b)
+                              : prev.filter(value => value !== week.value)
+                          )}
+                        />
+                        <Label htmlFor={`rule-week-${week.value}`} className="font-normal">{week.label}</Label>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Leave all unticked for every week.</p>
+                </div>
+              </>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rule-start">From</Label>
+                  <Input id="rule-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-end">To</Label>
+                  <Input id="rule-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button
+                onClick={handleAdd}
+                disabled={createMutation.isPending || (kind === "dates" && (!startDate || !endDate))}
+              >
+                Add Rule
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
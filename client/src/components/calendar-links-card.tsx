@@ -0,0 +1,123 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CalendarLinks } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+function FeedLink({ id, label, description, url }: { id: string; label: string; description: string; url: string }) {
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Success",
+        description: "Link copied",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Could not copy the link. Select it and copy it instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <p className="text-sm text-muted-foreground">{description}</p>
+      <div className="flex gap-2">
+        <Input id={id} value={url} readOnly onFocus={(e) => e.target.select()} />
+        <Button type="button" variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+      <a
+        href={url.replace(/^https?:/, "webcal:")}
+        className="text-sm text-primary underline-offset-4 hover:underline"
+      >
+        Open in calendar app
+      </a>
+    </div>
+  );
+}
+
+// Private subscription links for the member's roster and the church's services
+export function CalendarLinksCard() {
+  const { toast } = useToast();
+
+  const { data: links } = useQuery<CalendarLinks>({
+    queryKey: ["/api/calendar/links"],
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (): Promise<CalendarLinks> => {
+      return await apiRequest({
+        method: "POST"
+      }, "/api/calendar/links/reset");
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/calendar/links"], data);
+      toast({
+        title: "Success",
+        description: "New links created. Subscribe again with the new links.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar</CardTitle>
+        <CardDescription>
+          Subscribe to these links in Google Calendar, Apple Calendar or Outlook. Changes to the
+          roster show up automatically. Keep the links private: anyone with them can see the feed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {links && (
+          <>
+            <FeedLink
+              id="member-feed"
+              label="My roster"
+              description="The services you are rostered on, once each month's roster is finalized."
+              url={links.memberFeedUrl}
+            />
+            <FeedLink
+              id="church-feed"
+              label="All services"
+              description="Every service and special day."
+              url={links.churchFeedUrl}
+            />
+          </>
+        )}
+        <Button
+          variant="outline"
+          onClick={() => resetMutation.mutate()}
+          disabled={resetMutation.isPending}
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Create New Links
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
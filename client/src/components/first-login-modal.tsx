@@ -5,13 +5,16 @@ import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { updatePinSchema } from "@shared/schema";
+import { ZodError } from "zod";
 
 export function FirstLoginModal() {
   const { user, changePin } = useAuth();
   const { toast } = useToast();
+  const [temporaryPin, setTemporaryPin] = useState("");
   const [newPin, setNewPin] = useState("");
   const [confirmPin, setConfirmPin] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const wasReset = !!user?.pinResetAt;
 
   const handlePinChange = async () => {
     if (newPin !== confirmPin) {
@@ -26,7 +29,8 @@ export function FirstLoginModal() {
     try {
       setIsSubmitting(true);
       const pinData = updatePinSchema.parse({
-        currentPin: "000000", // Default PIN
+        // Members whose PIN was reset by an admin log in with a temporary PIN instead of the default
+        currentPin: wasReset ? temporaryPin : "000000",
         newPin: newPin,
       });
       await changePin(pinData);
@@ -35,11 +39,14 @@ export function FirstLoginModal() {
         description: "Your PIN has been changed successfully",
       });
     } catch (error) {
-      toast({
-        title: "Error",
-        description: "PIN must be 4-6 digits",
-        variant: "destructive",
-      });
+      // Refusals from the server are already reported by changePin
+      if (error instanceof ZodError) {
+        toast({
+          title: "Error",
+          description: "PIN must be 4-6 digits",
+          variant: "destructive",
+        });
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -51,13 +58,28 @@ export function FirstLoginModal() {
     <Dialog open={true} onOpenChange={() => {}}>
       <DialogContent>
         <DialogHeader>
-          <DialogTitle>Welcome! Please Change Your PIN</DialogTitle>
+          <DialogTitle>
+            {wasReset ? "Your PIN Was Reset" : "Welcome! Please Change Your PIN"}
+          </DialogTitle>
           <DialogDescription>
-            For security reasons, you must change your PIN before continuing.
-            Choose a new 4-6 digit PIN that you'll remember.
+            {wasReset
+              ? "The coordinator issued you a temporary PIN. Enter it again below, then choose a new 4-6 digit PIN that you'll remember."
+              : "For security reasons, you must change your PIN before continuing. Choose a new 4-6 digit PIN that you'll remember."}
           </DialogDescription>
         </DialogHeader>
         <div className="space-y-4 py-4">
+          {wasReset && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Temporary PIN</label>
+              <Input
+                type="password"
+                maxLength={6}
+                value={temporaryPin}
+                onChange={(e) => setTemporaryPin(e.target.value.replace(/\D/g, ""))}
+                placeholder="Enter the temporary PIN"
+              />
+            </div>
+          )}
           <div className="space-y-2">
             <label className="text-sm font-medium">New PIN</label>
             <Input
@@ -0,0 +1,144 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow, format } from "date-fns";
+import { LoginAttempt, SafeUser } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Lock, Unlock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+const outcomeLabels: Record<string, string> = {
+  success: "Signed in",
+  invalid_pin: "Wrong PIN",
+  unknown_user: "Unknown member",
+  locked: "Refused (locked)",
+  throttled: "Refused (too fast)",
+};
+
+export function LockedAccountsCard({ members }: { members: SafeUser[] }) {
+  const { toast } = useToast();
+
+  const { data: lockedUsers = [] } = useQuery<SafeUser[]>({
+    queryKey: ["/api/admin/lockouts"],
+    refetchInterval: 60000,
+  });
+
+  const { data: attempts = [] } = useQuery<LoginAttempt[]>({
+    queryKey: ["/api/admin/login-attempts"],
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      return await apiRequest({
+        method: "POST"
+      }, `/api/admin/members/${userId}/unlock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/lockouts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/members"] });
+      toast({
+        title: "Success",
+        description: "Member account unlocked",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const memberName = (userId: number | null) => {
+    const member = members.find(m => m.id === userId);
+    return member ? `${member.firstName} ${member.lastName}` : "—";
+  };
+
+  const failedAttempts = attempts.filter(attempt => attempt.outcome !== "success").slice(0, 10);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Locked Accounts
+        </CardTitle>
+        <CardDescription>
+          Members are locked out for a short time after too many wrong PINs.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {lockedUsers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No accounts are currently locked.</p>
+        ) : (
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="p-4 text-left">Name</th>
+                  <th className="p-4 text-left">Failed Attempts</th>
+                  <th className="p-4 text-left">Unlocks</th>
+                  <th className="p-4 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lockedUsers.map((member) => (
+                  <tr key={member.id} className="border-b">
+                    <td className="p-4">{member.firstName} {member.lastName}</td>
+                    <td className="p-4">{member.failedPinAttempts}</td>
+                    <td className="p-4">
+                      {member.lockedUntil
+                        ? formatDistanceToNow(new Date(member.lockedUntil), { addSuffix: true })
+                        : "—"}
+                    </td>
+                    <td className="p-4">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => unlockMutation.mutate(member.id)}
+                        disabled={unlockMutation.isPending}
+                      >
+                        <Unlock className="h-4 w-4 mr-2" />
+                        Unlock
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {failedAttempts.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Recent Failed Logins</h4>
+            <div className="rounded-md border">
+              <table className="w-full text-sm">
+                <tbody>
+                  {failedAttempts.map((attempt) => (
+                    <tr key={attempt.id} className="border-b last:border-0">
+                      <td className="p-2">{format(new Date(attempt.attemptedAt), "d MMM yyyy HH:mm")}</td>
+                      <td className="p-2">{memberName(attempt.userId)}</td>
+                      <td className="p-2 text-muted-foreground">{attempt.ipAddress}</td>
+                      <td className="p-2">
+                        <Badge variant="outline">{outcomeLabels[attempt.outcome] ?? attempt.outcome}</Badge>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
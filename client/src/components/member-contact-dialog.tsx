@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { SafeUser, UpdateContact } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// Edits a member's email, phone and email preferences
+export function MemberContactDialog({
+  member,
+  onClose,
+}: {
+  member: SafeUser | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [notifyRosterEmails, setNotifyRosterEmails] = useState(true);
+  const [notifyAvailabilityReminders, setNotifyAvailabilityReminders] = useState(true);
+
+  useEffect(() => {
+    if (!member) return;
+    setEmail(member.email ?? "");
+    setPhone(member.phone ?? "");
+    setNotifyRosterEmails(member.notifyRosterEmails);
+    setNotifyAvailabilityReminders(member.notifyAvailabilityReminders);
+  }, [member]);
+
+  const saveContactMutation = useMutation({
+    mutationFn: async (data: UpdateContact) => {
+      return await apiRequest({
+        method: "PATCH",
+        data
+      }, `/api/admin/members/${member!.id}/contact`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/members"] });
+      toast({
+        title: "Success",
+        description: "Contact details updated",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update contact details",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!member} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Contact Details
+          </DialogTitle>
+          <DialogDescription>
+            How to reach {member?.firstName} {member?.lastName}. Leave a field blank to clear it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="member-email">Email</Label>
+            <Input
+              id="member-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="member-phone">Phone</Label>
+            <Input
+              id="member-phone"
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="member-notify" className="font-normal">
+              Receives roster emails sent to members
+            </Label>
+            <Switch
+              id="member-notify"
+              checked={notifyRosterEmails}
+              onCheckedChange={setNotifyRosterEmails}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="member-reminders" className="font-normal">
+              Receives availability reminders
+            </Label>
+            <Switch
+              id="member-reminders"
+              checked={notifyAvailabilityReminders}
+              onCheckedChange={setNotifyAvailabilityReminders}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveContactMutation.mutate({ email, phone, notifyRosterEmails, notifyAvailabilityReminders })}
+            disabled={saveContactMutation.isPending}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { MemberRole, SafeUser, ServiceRole, UpdateMemberRoles } from "@shared/schema";
+import { MEMBER_ROLE_LABELS } from "@shared/permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const roleDescriptions = {
+  coordinator: "Builds and finalizes rosters, manages special days and can update anyone's availability.",
+  viewer: "Can look at the roster builder but cannot change it.",
+};
+
+// Grants coordinator, team lead and viewer roles to a member
+export function MemberRolesDialog({
+  member,
+  memberRoles,
+  onClose,
+}: {
+  member: SafeUser | null;
+  memberRoles: MemberRole[];
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [isCoordinator, setIsCoordinator] = useState(false);
+  const [isViewer, setIsViewer] = useState(false);
+  const [ledRoleIds, setLedRoleIds] = useState<number[]>([]);
+
+  const { data: serviceRoles = [] } = useQuery<ServiceRole[]>({
+    queryKey: ["/api/service-roles"],
+    enabled: !!member,
+  });
+
+  useEffect(() => {
+    if (!member) return;
+    const grants = memberRoles.filter(grant => grant.userId === member.id);
+    setIsCoordinator(grants.some(grant => grant.role === "coordinator"));
+    setIsViewer(grants.some(grant => grant.role === "viewer"));
+    setLedRoleIds(
+      grants
+        .filter(grant => grant.role === "team_lead" && grant.serviceRoleId !== null)
+        .map(grant => grant.serviceRoleId as number)
+    );
+  }, [member, memberRoles]);
+
+  const saveRolesMutation = useMutation({
+    mutationFn: async (data: UpdateMemberRoles) => {
+      return await apiRequest({
+        method: "PUT",
+        data
+      }, `/api/admin/members/${member!.id}/roles`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/member-roles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/access"] });
+      toast({
+        title: "Success",
+        description: "Member roles updated",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update member roles",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleLedRole = (roleId: number, checked: boolean) => {
+    setLedRoleIds(prev => checked ? [...prev, roleId] : prev.filter(id => id !== roleId));
+  };
+
+  const handleSave = () => {
+    const roles: UpdateMemberRoles["roles"] = [
+      ...(isCoordinator ? [{ role: "coordinator" as const }] : []),
+      ...(isViewer ? [{ role: "viewer" as const }] : []),
+      ...ledRoleIds.map(serviceRoleId => ({ role: "team_lead" as const, serviceRoleId })),
+    ];
+    saveRolesMutation.mutate({ roles });
+  };
+
+  return (
+    <Dialog open={!!member} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Roles for {member?.firstName} {member?.lastName}
+          </DialogTitle>
+          <DialogDescription>
+            {member?.isAdmin
+              ? "This member is an admin and already has full access."
+              : "Give this member access to parts of the admin panel."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-start gap-3">
+            <Checkbox
+              id="role-coordinator"
+              checked={isCoordinator}
+              onCheckedChange={(checked) => setIsCoordinator(checked === true)}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="role-coordinator">{MEMBER_ROLE_LABELS.coordinator}</Label>
+              <p className="text-xs text-muted-foreground">{roleDescriptions.coordinator}</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{MEMBER_ROLE_LABELS.team_lead}</Label>
+            <p className="text-xs text-muted-foreground">
+              Can roster people only into the service roles ticked below.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {serviceRoles.map((role) => (
+                <div key={role.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`lead-${role.id}`}
+                    checked={ledRoleIds.includes(role.id)}
+                    onCheckedChange={(checked) => toggleLedRole(role.id, checked === true)}
+                  />
+                  <Label htmlFor={`lead-${role.id}`} className="font-normal">{role.name}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-start gap-3">
+            <Checkbox
+              id="role-viewer"
+              checked={isViewer}
+              onCheckedChange={(checked) => setIsViewer(checked === true)}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="role-viewer">{MEMBER_ROLE_LABELS.viewer}</Label>
+              <p className="text-xs text-muted-foreground">{roleDescriptions.viewer}</p>
+            </div>
+          </div>
+
+          {isCoordinator && ledRoleIds.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Coordinators can already roster every service role, so the team lead roles have no extra effect.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saveRolesMutation.isPending}>
+            Save Roles
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 import React from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useAccess } from "@/hooks/use-access";
 import { Logo } from "./logo";
 import { Button } from "./ui/button";
 // Import individual icons instead of entire library
@@ -16,7 +17,8 @@ import {
 
 export function NavBar() {
   const [location] = useLocation();
-  const { user, logout } = useAuth();
+  const { logout } = useAuth();
+  const { canOpenAdmin } = useAccess();
 
   // Define the type for navigation items
   type NavItem = {
@@ -27,9 +29,10 @@ export function NavBar() {
 
   const navItems: NavItem[] = [
     { href: "/", label: "My Availability" },
+    { href: "/my-schedule", label: "My Schedule" },
     { href: "/roster", label: "View Availability/Roster" },
     { href: "/account", label: "Account" },
-    ...(user?.isAdmin ? [{ href: "/admin", label: "Admin" }] : []),
+    ...(canOpenAdmin ? [{ href: "/admin", label: "Admin" }] : []),
   ];
 
   return (
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { OutboxEntry, OutboxStatus } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { RefreshCw, Send } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChurchLoader } from "./church-loader";
+
+const OUTBOX_STATUS_LABELS: Record<OutboxStatus, string> = {
+  pending: "Queued",
+  sending: "Sending",
+  sent: "Sent",
+  failed: "Failed",
+};
+
+function OutboxStatusBadge({ email }: { email: OutboxEntry }) {
+  const label = OUTBOX_STATUS_LABELS[email.status as OutboxStatus] ?? email.status;
+  const variant = email.status === "sent" ? "default"
+    : email.status === "failed" ? "destructive"
+    : "secondary";
+  return <Badge variant={variant}>{label}</Badge>;
+}
+
+// Emails queued by the app and their delivery status, with resend for anything that failed
+export function OutboxPanel() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<OutboxStatus | "all">("all");
+
+  const queryUrl = status === "all" ? "/api/admin/outbox" : `/api/admin/outbox?status=${status}`;
+  const { data: emails = [], isLoading, isFetching, refetch } = useQuery<OutboxEntry[]>({
+    queryKey: [queryUrl],
+    // Keep statuses current while the worker is still working through the queue
+    refetchInterval: (query) =>
+      query.state.data?.some(email => email.status === "pending" || email.status === "sending") ? 10000 : false,
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: number): Promise<OutboxEntry> => {
+      return await apiRequest({
+        method: "POST"
+      }, `/api/admin/outbox/${id}/resend`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0]).startsWith("/api/admin/outbox"),
+      });
+      toast({
+        title: "Success",
+        description: "Email queued to send again",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <CardTitle>Outbox</CardTitle>
+            <CardDescription>
+              Emails are sent in the background and retried several times if the mail server is unavailable.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={status} onValueChange={(value) => setStatus(value as OutboxStatus | "all")}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {Object.entries(OUTBOX_STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={() => refetch()} disabled={isFetching} title="Refresh">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <ChurchLoader type="mail" size="md" />
+          </div>
+        ) : emails.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No emails.</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Queued</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[1%]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {emails.map(email => (
+                  <TableRow key={email.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(email.createdAt), "d MMM HH:mm")}
+                    </TableCell>
+                    <TableCell>
+                      {email.toName && <span className="block">{email.toName}</span>}
+                      <span className="text-sm text-muted-foreground">{email.toAddress}</span>
+                    </TableCell>
+                    <TableCell>{email.subject}</TableCell>
+                    <TableCell>
+                      <OutboxStatusBadge email={email} />
+                      <span className="block text-xs text-muted-foreground mt-1">
+                        {email.status === "sent" && email.sentAt
+                          ? format(new Date(email.sentAt), "d MMM HH:mm")
+                          : email.status === "pending" && email.attempts > 0
+                            ? `Retry ${format(new Date(email.nextAttemptAt), "HH:mm")}`
+                            : email.attempts > 0 && `${email.attempts} ${email.attempts === 1 ? "attempt" : "attempts"}`}
+                      </span>
+                      {email.lastError && email.status !== "sent" && (
+                        <span className="block text-xs text-destructive" title={email.lastError}>
+                          {email.lastError.length > 80 ? `${email.lastError.slice(0, 80)}…` : email.lastError}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {(email.status === "failed" || email.status === "sent") && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => resendMutation.mutate(email.id)}
+                          disabled={resendMutation.isPending}
+                          title="Resend"
+                        >
+                          <Send className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
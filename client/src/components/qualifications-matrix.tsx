@@ -0,0 +1,138 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { MemberQualification, QualificationLevel, SafeUser, ServiceRole, SetMemberQualification } from "@shared/schema";
+import { QUALIFICATION_LEVEL_LABELS } from "@shared/qualifications";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChurchLoader } from "./church-loader";
+
+const NOT_QUALIFIED = "none";
+
+// Members down the side, service roles across the top; each cell sets one member's level for one role
+export function QualificationsMatrix() {
+  const { toast } = useToast();
+
+  const { data: members = [], isLoading: isLoadingMembers } = useQuery<SafeUser[]>({
+    queryKey: ["/api/admin/members"],
+  });
+
+  const { data: roles = [], isLoading: isLoadingRoles } = useQuery<ServiceRole[]>({
+    queryKey: ["/api/service-roles"],
+  });
+
+  const { data: qualifications = [], isLoading: isLoadingQualifications } = useQuery<MemberQualification[]>({
+    queryKey: ["/api/qualifications"],
+  });
+
+  const setQualificationMutation = useMutation({
+    mutationFn: async (data: SetMemberQualification) => {
+      return await apiRequest({
+        method: "PUT",
+        data
+      }, "/api/admin/qualifications");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/qualifications"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save qualification",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const activeRoles = roles.filter(role => role.isActive);
+  const sortedMembers = [...members].sort((a, b) =>
+    a.firstName.localeCompare(b.firstName) || a.lastName.localeCompare(b.lastName)
+  );
+  const levelFor = (userId: number, roleId: number) =>
+    qualifications.find(q => q.userId === userId && q.roleId === roleId)?.level ?? NOT_QUALIFIED;
+  const hasQualifications = (roleId: number) => qualifications.some(q => q.roleId === roleId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Qualifications</CardTitle>
+        <CardDescription>
+          Who can serve in each role. A role with nobody marked is open to everyone; once anyone
+          is marked, the roster builder warns about other members and auto-fill skips them.
+          Members in training are only rostered by hand.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoadingMembers || isLoadingRoles || isLoadingQualifications ? (
+          <div className="flex justify-center py-6">
+            <ChurchLoader type="church" size="md" />
+          </div>
+        ) : activeRoles.length === 0 || sortedMembers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Add members and service roles to set qualifications.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left font-medium p-2 sticky left-0 bg-background">Member</th>
+                  {activeRoles.map(role => (
+                    <th key={role.id} className="text-left font-medium p-2 min-w-[140px]">
+                      {role.name}
+                      {!hasQualifications(role.id) && (
+                        <span className="block text-xs font-normal text-muted-foreground">Open to everyone</span>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sortedMembers.map(member => (
+                  <tr key={member.id} className="border-t">
+                    <td className="p-2 whitespace-nowrap sticky left-0 bg-background">
+                      {member.firstName} {member.lastName}
+                    </td>
+                    {activeRoles.map(role => (
+                      <td key={role.id} className="p-2">
+                        <Select
+                          value={levelFor(member.id, role.id)}
+                          onValueChange={(value) =>
+                            setQualificationMutation.mutate({
+                              userId: member.id,
+                              roleId: role.id,
+                              level: value === NOT_QUALIFIED ? null : value as QualificationLevel,
+                            })
+                          }
+                          disabled={setQualificationMutation.isPending}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_QUALIFIED}>—</SelectItem>
+                            {(Object.keys(QUALIFICATION_LEVEL_LABELS) as QualificationLevel[]).map(level => (
+                              <SelectItem key={level} value={level}>
+                                {QUALIFICATION_LEVEL_LABELS[level]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { SafeUser } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+type ResetPinResponse = {
+  user: SafeUser;
+  temporaryPin: string;
+  expiresAt: string;
+};
+
+// Confirms a PIN reset, then shows the one-time temporary PIN to pass on to the member
+export function ResetPinDialog({
+  member,
+  onClose,
+}: {
+  member: SafeUser | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [result, setResult] = useState<ResetPinResponse | null>(null);
+
+  const resetPinMutation = useMutation({
+    mutationFn: async (userId: number): Promise<ResetPinResponse> => {
+      return await apiRequest({
+        method: "POST"
+      }, `/api/admin/members/${userId}/reset-pin`);
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/members"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/lockouts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset PIN",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setResult(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!member} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Reset PIN
+          </DialogTitle>
+          <DialogDescription>
+            {result
+              ? `Give this temporary PIN to ${member?.firstName}. It will not be shown again.`
+              : `Issue a temporary PIN for ${member?.firstName} ${member?.lastName}? Their current PIN will stop working and they will be asked to choose a new one when they next log in.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {result && (
+          <div className="space-y-2 text-center py-4">
+            <div className="text-3xl font-mono font-bold tracking-widest">
+              {result.temporaryPin}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Expires {format(new Date(result.expiresAt), "d MMMM yyyy 'at' HH:mm")}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <Button onClick={handleClose}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={handleClose}>Cancel</Button>
+              <Button
+                onClick={() => member && resetPinMutation.mutate(member.id)}
+                disabled={resetPinMutation.isPending}
+              >
+                Reset PIN
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
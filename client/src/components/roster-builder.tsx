@@ -1,8 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
+import { useAccess } from '@/hooks/use-access';
 import { format, addMonths, subMonths } from 'date-fns';
-import { User, ServiceRole, InsertFinalizedRoster } from '@shared/schema';
+import { MemberSummary, MemberQualification, Service, ServiceRole, InsertFinalizedRoster } from '@shared/schema';
+import { formatServiceLabel } from '@shared/services';
+import { createEligibilityLookup, QUALIFICATION_LEVEL_LABELS } from '@shared/qualifications';
 import { apiRequest } from '@/lib/queryClient';
 // Import individual icons instead of the entire library
 import ChevronLeft from 'lucide-react/dist/esm/icons/chevron-left';
@@ -16,6 +19,11 @@ import Check from 'lucide-react/dist/esm/icons/check';
 import Lock from 'lucide-react/dist/esm/icons/lock';
 import CalendarIcon from 'lucide-react/dist/esm/icons/calendar';
 import Pencil from 'lucide-react/dist/esm/icons/pencil';
+import Sparkles from 'lucide-react/dist/esm/icons/sparkles';
+import History from 'lucide-react/dist/esm/icons/history';
+import Palmtree from 'lucide-react/dist/esm/icons/palmtree';
+import CircleHelp from 'lucide-react/dist/esm/icons/circle-help';
+import MessageSquare from 'lucide-react/dist/esm/icons/message-square';
 
 // We'll now use the maxLimit field from the ServiceRole model
 // instead of hardcoded limits
@@ -47,12 +55,17 @@ import { Badge } from '@/components/ui/badge';
 import { LoaderOverlay } from './loader-overlay';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { ChurchLoader } from './church-loader';
+import { AutoRosterDialog } from './auto-roster-dialog';
+import { RosterHistoryDialog } from './roster-history-dialog';
+import { fromDateKey } from '@shared/dates';
 
-type SundayData = {
-  date: Date;
-  dateStr: string;
+type ServiceSlot = {
+  service: Service;
+  dateStr: string; // "yyyy-MM-dd"
   formattedDate: string;
-  availablePeople: (User & { formattedName: string })[];
+  availablePeople: (MemberSummary & { formattedName: string; isMaybe: boolean; availabilityNote: string | null; roleIds: number[] | null })[];
+  availableByRole: Record<number, number[]>; // Who offered each role for the date
+  awayPeople: (MemberSummary & { formattedName: string; awayReason: string | null })[];
   assignments: any[];
   specialDay?: any;
   roles: ServiceRole[];
@@ -63,35 +76,44 @@ import { getDefaultMonth } from "@/lib/date-utils";
 export function RosterBuilder() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { access, can, canRosterRole } = useAccess();
   const [currentMonth, setCurrentMonth] = useState<Date>(getDefaultMonth());
-  const [selectedSunday, setSelectedSunday] = useState<SundayData | null>(null);
+  const [selectedService, setSelectedService] = useState<ServiceSlot | null>(null);
   const [isConfirmDialogOpen, setIsConfirmDialogOpen] = useState(false);
   const [isFinalizeDialogOpen, setIsFinalizeDialogOpen] = useState(false);
+  const [isAutoRosterOpen, setIsAutoRosterOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [selectedAssignments, setSelectedAssignments] = useState<Record<number, number[]>>({}); // Changed to array of user IDs // Changed to array of user IDs
 
-  // Get available Sundays with people
+  // Get the month's services with the people available for each
   const {
-    data: sundaysData,
-    isLoading: isSundaysLoading,
-    error: sundaysError
+    data: servicesData,
+    isLoading: isServicesLoading,
+    error: servicesError
   } = useQuery({
-    queryKey: ['/api/roster-builder/available-sundays', currentMonth.getFullYear(), currentMonth.getMonth() + 1],
+    queryKey: ['/api/roster-builder/services', currentMonth.getFullYear(), currentMonth.getMonth() + 1],
     queryFn: async () => {
-      const response = await fetch(`/api/roster-builder/available-sundays/${currentMonth.getFullYear()}/${currentMonth.getMonth() + 1}`, {
+      const response = await fetch(`/api/roster-builder/services/${currentMonth.getFullYear()}/${currentMonth.getMonth() + 1}`, {
         credentials: 'include'
       });
       
       if (!response.ok) {
-        throw new Error('Failed to fetch available Sundays');
+        throw new Error('Failed to fetch services');
       }
       
       return response.json();
     }
   });
 
+  // Who is qualified for which role; used to order people and flag unqualified picks
+  const { data: qualifications = [] } = useQuery<MemberQualification[]>({
+    queryKey: ['/api/qualifications'],
+  });
+  const eligibility = useMemo(() => createEligibilityLookup(qualifications), [qualifications]);
+
   // Mutation for creating roster assignments
   const createAssignmentMutation = useMutation({
-    mutationFn: async (data: { roleId: number; userId: number; serviceDate: string }) => {
+    mutationFn: async (data: { roleId: number; userId: number; serviceId: number }) => {
       const response = await fetch('/api/admin/roster-assignments', {
         method: 'POST',
         headers: {
@@ -110,7 +132,7 @@ export function RosterBuilder() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ 
-        queryKey: ['/api/roster-builder/available-sundays', currentMonth.getFullYear(), currentMonth.getMonth() + 1] 
+        queryKey: ['/api/roster-builder/services', currentMonth.getFullYear(), currentMonth.getMonth() + 1] 
       });
       queryClient.invalidateQueries({ 
         queryKey: ['/api/roster-assignments/month', currentMonth.getFullYear(), currentMonth.getMonth() + 1] 
@@ -170,12 +192,12 @@ export function RosterBuilder() {
       // Save the assignment ID being deleted
       setLastDeletedAssignmentId(assignmentId);
 
-      // If we have a selected Sunday, update its assignments immediately (optimistic update)
-      if (selectedSunday) {
-        // Create a copy of the selectedSunday with the assignment being deleted removed
-        setSelectedSunday({
-          ...selectedSunday,
-          assignments: selectedSunday.assignments.filter(a => a.id !== assignmentId)
+      // If we have a selected service, update its assignments immediately (optimistic update)
+      if (selectedService) {
+        // Create a copy of the selectedService with the assignment being deleted removed
+        setSelectedService({
+          ...selectedService,
+          assignments: selectedService.assignments.filter(a => a.id !== assignmentId)
         });
       }
 
@@ -186,12 +208,12 @@ export function RosterBuilder() {
       const { moveToRoleId, userId } = params;
       
       // If we need to move to another role, do that now
-      if (moveToRoleId !== undefined && userId !== undefined && selectedSunday) {
+      if (moveToRoleId !== undefined && userId !== undefined && selectedService) {
         // Automatically assign to new role after successful deletion
         createAssignmentMutation.mutate({
           roleId: moveToRoleId,
           userId,
-          serviceDate: selectedSunday.dateStr
+          serviceId: selectedService.service.id
         });
       } else {
         // Only show toast for pure deletion (not role change)
@@ -203,7 +225,7 @@ export function RosterBuilder() {
       
       // Refetch the current month's data
       queryClient.invalidateQueries({ 
-        queryKey: ['/api/roster-builder/available-sundays', currentMonth.getFullYear(), currentMonth.getMonth() + 1] 
+        queryKey: ['/api/roster-builder/services', currentMonth.getFullYear(), currentMonth.getMonth() + 1] 
       });
       queryClient.invalidateQueries({ 
         queryKey: ['/api/roster-assignments/month', currentMonth.getFullYear(), currentMonth.getMonth() + 1] 
@@ -219,16 +241,12 @@ export function RosterBuilder() {
     }
   });
 
-  // Mutation for deleting all assignments for a date
-  const clearDateAssignmentsMutation = useMutation({
-    mutationFn: async (date: Date) => {
-      const year = date.getFullYear();
-      const month = date.getMonth() + 1; // Adjusting for 0-indexed months
-      const day = date.getDate();
-      
-      console.log(`Clearing assignments for date: ${year}-${month}-${day}`);
+  // Mutation for deleting all assignments for a service
+  const clearServiceAssignmentsMutation = useMutation({
+    mutationFn: async (serviceId: number) => {
+      console.log(`Clearing assignments for service: ${serviceId}`);
       
-      const response = await fetch(`/api/admin/roster-assignments/date/${year}/${month}/${day}`, {
+      const response = await fetch(`/api/admin/roster-assignments/service/${serviceId}`, {
         method: 'DELETE',
         credentials: 'include'
       });
@@ -253,7 +271,7 @@ export function RosterBuilder() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ 
-        queryKey: ['/api/roster-builder/available-sundays', currentMonth.getFullYear(), currentMonth.getMonth() + 1] 
+        queryKey: ['/api/roster-builder/services', currentMonth.getFullYear(), currentMonth.getMonth() + 1] 
       });
       queryClient.invalidateQueries({ 
         queryKey: ['/api/roster-assignments/month', currentMonth.getFullYear(), currentMonth.getMonth() + 1] 
@@ -261,7 +279,7 @@ export function RosterBuilder() {
       setSelectedAssignments({});
       toast({
         title: "Assignments cleared",
-        description: "All assignments for this date have been removed.",
+        description: "All assignments for this service have been removed.",
       });
       setIsConfirmDialogOpen(false);
     },
@@ -269,21 +287,21 @@ export function RosterBuilder() {
       console.error("Error clearing assignments:", error);
       toast({
         title: "Error clearing assignments",
-        description: "Failed to clear the assignments for this date.",
+        description: "Failed to clear the assignments for this service.",
         variant: "destructive",
       });
       setIsConfirmDialogOpen(false);
     }
   });
 
-  // Reset selections when changing selected Sunday
+  // Reset selections when changing selected service
   useEffect(() => {
-    if (selectedSunday) {
+    if (selectedService) {
       // Initialize selections based on existing assignments
       const initialSelections: Record<number, number[]> = {};
       
       // Group existing assignments by roleId
-      selectedSunday.assignments.forEach(assignment => {
+      selectedService.assignments.forEach(assignment => {
         if (!initialSelections[assignment.roleId]) {
           initialSelections[assignment.roleId] = [];
         }
@@ -294,41 +312,41 @@ export function RosterBuilder() {
     } else {
       setSelectedAssignments({});
     }
-  }, [selectedSunday]);
+  }, [selectedService]);
   
-  // Keep selectedSunday in sync with sundaysData changes
+  // Keep selectedService in sync with servicesData changes
   // This ensures we have the latest data after API calls
   useEffect(() => {
-    if (sundaysData && selectedSunday) {
-      // Find the currently selected Sunday in the updated data
-      const updatedSunday = sundaysData.find((sunday: SundayData) => 
-        sunday.dateStr === selectedSunday.dateStr
+    if (servicesData && selectedService) {
+      // Find the currently selected service in the updated data
+      const updatedService = servicesData.find((slot: ServiceSlot) => 
+        slot.service.id === selectedService.service.id
       );
       
-      if (updatedSunday) {
+      if (updatedService) {
         // Update with latest data from the API
-        setSelectedSunday(updatedSunday);
+        setSelectedService(updatedService);
       }
     }
-  }, [sundaysData, selectedSunday?.dateStr]);
+  }, [servicesData, selectedService?.service.id]);
 
   // Navigate between months
   const handlePreviousMonth = () => {
     setCurrentMonth(prevMonth => subMonths(prevMonth, 1));
-    setSelectedSunday(null);
+    setSelectedService(null);
   };
 
   const handleNextMonth = () => {
     setCurrentMonth(prevMonth => addMonths(prevMonth, 1));
-    setSelectedSunday(null);
+    setSelectedService(null);
   };
 
   // Helper function to check if role has reached its maximum limit
   const isRoleFull = (roleId: number, roleName: string) => {
-    if (!selectedSunday) return false;
+    if (!selectedService) return false;
     
     // Find the role in the roles array to get its maxLimit
-    const role = selectedSunday.roles.find(r => r.id === roleId);
+    const role = selectedService.roles.find(r => r.id === roleId);
     if (!role) return false;
     
     // Get the maximum allowed for this role (default to 1 if not specified)
@@ -338,7 +356,7 @@ export function RosterBuilder() {
     let assignedCount = 0;
     
     // Count from database assignments
-    selectedSunday.assignments.forEach(assignment => {
+    selectedService.assignments.forEach(assignment => {
       if (assignment.roleId === roleId) {
         assignedCount++;
       }
@@ -355,6 +373,17 @@ export function RosterBuilder() {
     return assignedCount >= maxAllowed;
   };
 
+  // Whether to list a person under a role: they offered it for the date, or are
+  // already saved in it from before they narrowed their roles
+  const offersRole = (slot: ServiceSlot, userId: number, roleId: number) =>
+    (slot.availableByRole[roleId] ?? []).includes(userId) ||
+    slot.assignments.some(a => a.roleId === roleId && a.userId === userId);
+
+  const eligibilityRank = (userId: number, roleId: number) => {
+    const level = eligibility(userId, roleId);
+    return level === "unqualified" ? 2 : level === "training" ? 1 : 0;
+  };
+
   // Handle role assignment
   const handleAssignRole = (roleId: number, userId: number, roleName: string) => {
     // Don't allow assignment if roster is finalized (defensive programming)
@@ -383,7 +412,7 @@ export function RosterBuilder() {
     }
     
     // Check if this person is already assigned to this role in the database
-    const existingAssignment = selectedSunday?.assignments.find(
+    const existingAssignment = selectedService?.assignments.find(
       a => a.roleId === roleId && a.userId === userId
     );
     
@@ -392,12 +421,12 @@ export function RosterBuilder() {
       // so we can update our local state immediately with the optimistic UI update
       setLastDeletedAssignmentId(existingAssignment.id);
       
-      // Create a copy of the selectedSunday with the assignment being deleted removed
-      if (selectedSunday) {
+      // Create a copy of the selectedService with the assignment being deleted removed
+      if (selectedService) {
         // Optimistic update - remove from UI immediately
-        setSelectedSunday({
-          ...selectedSunday,
-          assignments: selectedSunday.assignments.filter(a => a.id !== existingAssignment.id)
+        setSelectedService({
+          ...selectedService,
+          assignments: selectedService.assignments.filter(a => a.id !== existingAssignment.id)
         });
       }
       
@@ -406,6 +435,14 @@ export function RosterBuilder() {
       return;
     }
     
+    // Unqualified picks are allowed, e.g. to cover at short notice, but flagged
+    if (eligibility(userId, roleId) === "unqualified") {
+      toast({
+        title: "Not Qualified",
+        description: `This person is not marked as qualified for ${roleName}.`,
+      });
+    }
+    
     // Find if user is already assigned to a different role in memory
     let memoryRoleAssignment: { roleId: string; userIds: number[] } | undefined;
     
@@ -444,7 +481,7 @@ export function RosterBuilder() {
     }
     
     // Check if this person is already assigned to another role in the database
-    const existingDifferentRoleAssignment = selectedSunday?.assignments.find(
+    const existingDifferentRoleAssignment = selectedService?.assignments.find(
       assignment => 
         assignment.userId === userId && 
         assignment.roleId !== roleId &&
@@ -454,9 +491,9 @@ export function RosterBuilder() {
     // If assigned in database to different role, handle database reassignment in one step
     if (existingDifferentRoleAssignment) {
       // 1. Optimistic update - remove from previous role in UI immediately
-      if (selectedSunday) {
+      if (selectedService) {
         // Remove from current view
-        setSelectedSunday(prev => {
+        setSelectedService(prev => {
           if (!prev) return prev; // Handle null case
           return {
             ...prev,
@@ -485,7 +522,7 @@ export function RosterBuilder() {
         createAssignmentMutation.mutate({
           roleId,
           userId,
-          serviceDate: selectedSunday?.dateStr || ''
+          serviceId: selectedService!.service.id
         });
       }, 100);
       
@@ -494,11 +531,11 @@ export function RosterBuilder() {
     
     // Get the current count and max limit for this role
     const currentAssignedCount = selectedAssignments[roleId]?.length || 0;
-    const existingDatabaseCount = selectedSunday?.assignments.filter(a => a.roleId === roleId).length || 0;
+    const existingDatabaseCount = selectedService?.assignments.filter(a => a.roleId === roleId).length || 0;
     const totalCurrentCount = currentAssignedCount + existingDatabaseCount;
     
     // Find the role object to get its maxLimit
-    const role = selectedSunday?.roles.find(r => r.id === roleId);
+    const role = selectedService?.roles.find(r => r.id === roleId);
     const maxLimit = role?.maxLimit || 1;
     
     // Show warning when trying to exceed the limit
@@ -523,9 +560,9 @@ export function RosterBuilder() {
     });
   };
 
-  // Save all assignments for the selected Sunday
+  // Save all assignments for the selected service
   const handleSaveAssignments = async () => {
-    if (!selectedSunday) return;
+    if (!selectedService) return;
 
     // Create an array of all assignments to be made
     const allAssignmentPromises: Promise<any>[] = [];
@@ -535,7 +572,7 @@ export function RosterBuilder() {
       // For each user ID in the array, create an assignment
       userIds.forEach(userId => {
         // Check if this user is already assigned to this role
-        const isExistingAssignment = selectedSunday.assignments.some(
+        const isExistingAssignment = selectedService.assignments.some(
           a => a.roleId === parseInt(roleId) && a.userId === userId
         );
         
@@ -548,7 +585,7 @@ export function RosterBuilder() {
         const promise = createAssignmentMutation.mutateAsync({
           roleId: parseInt(roleId),
           userId,
-          serviceDate: selectedSunday.dateStr
+          serviceId: selectedService.service.id
         });
         
         allAssignmentPromises.push(promise);
@@ -578,43 +615,35 @@ export function RosterBuilder() {
   };
 
   const confirmClearAssignments = async () => {
-    if (selectedSunday) {
+    if (selectedService) {
       try {
         // Let's do a comprehensive check to understand what's happening
         setIsConfirmDialogOpen(false); // Close dialog first
         
-        // Ensure we're working with a Date object
-        const sundayDate = new Date(selectedSunday.date);
-        console.log("Sunday date type:", typeof selectedSunday.date);
-        console.log("Sunday date value:", selectedSunday.date);
-        console.log("Converted date:", sundayDate);
-        
-        const year = sundayDate.getFullYear();
-        const month = sundayDate.getMonth() + 1; // Adjusting for 0-indexed months
-        const day = sundayDate.getDate();
+        const serviceId = selectedService.service.id;
         
-        console.log(`=== DEBUG: Clearing assignments for date: ${year}-${month}-${day} ===`);
-        console.log("Sunday Data:", selectedSunday);
-        console.log("Existing assignments:", selectedSunday.assignments);
+        console.log(`=== DEBUG: Clearing assignments for service: ${serviceId} ===`);
+        console.log("Service Data:", selectedService);
+        console.log("Existing assignments:", selectedService.assignments);
         
-        // First, check if there are any existing assignments in the database for this date
+        // First, check if there are any existing assignments in the database for this service
         // If not, we can just show success without calling the API
-        if (selectedSunday.assignments.length === 0 && Object.keys(selectedAssignments).length === 0) {
+        if (selectedService.assignments.length === 0 && Object.keys(selectedAssignments).length === 0) {
           console.log("No assignments to clear - skipping API call");
           
           toast({
             title: "No assignments to clear",
-            description: "There were no saved assignments for this date.",
+            description: "There were no saved assignments for this service.",
           });
           return;
         }
         
         // Now try the deletion API call
         try {
-          console.log(`Making DELETE request to: /api/admin/roster-assignments/date/${year}/${month}/${day}`);
+          console.log(`Making DELETE request to: /api/admin/roster-assignments/service/${serviceId}`);
           
           // Use fetch directly since apiRequest is giving type errors
-          const response = await fetch(`/api/admin/roster-assignments/date/${year}/${month}/${day}`, {
+          const response = await fetch(`/api/admin/roster-assignments/service/${serviceId}`, {
             method: 'DELETE',
             credentials: 'include'
           });
@@ -630,7 +659,7 @@ export function RosterBuilder() {
           
           // Update the UI and invalidate caches
           queryClient.invalidateQueries({ 
-            queryKey: ['/api/roster-builder/available-sundays', currentMonth.getFullYear(), currentMonth.getMonth() + 1] 
+            queryKey: ['/api/roster-builder/services', currentMonth.getFullYear(), currentMonth.getMonth() + 1] 
           });
           queryClient.invalidateQueries({ 
             queryKey: ['/api/roster-assignments/month', currentMonth.getFullYear(), currentMonth.getMonth() + 1] 
@@ -642,7 +671,7 @@ export function RosterBuilder() {
           // Show success toast
           toast({
             title: "Assignments cleared",
-            description: "All assignments for this date have been removed.",
+            description: "All assignments for this service have been removed.",
           });
         } catch (apiError: any) {
           console.error("API Error in clear assignments:", apiError);
@@ -692,7 +721,7 @@ export function RosterBuilder() {
       
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { notified?: number }) => {
       setIsFinalizeDialogOpen(false);
       
       // Invalidate finalized rosters queries to refresh
@@ -700,10 +729,14 @@ export function RosterBuilder() {
       queryClient.invalidateQueries({ 
         queryKey: ['/api/finalized-roster', currentMonth.getFullYear(), currentMonth.getMonth() + 1] 
       });
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0]).startsWith('/api/roster-versions'),
+      });
       
       toast({
         title: "Roster Finalized",
-        description: `The roster for ${format(currentMonth, 'MMMM yyyy')} has been finalized and is now available to all members.`,
+        description: `The roster for ${format(currentMonth, 'MMMM yyyy')} has been finalized and is now available to all members.` +
+          (data.notified ? ` ${data.notified} ${data.notified === 1 ? "member has" : "members have"} been emailed their assignments.` : ""),
       });
     },
     onError: (error) => {
@@ -833,11 +866,15 @@ export function RosterBuilder() {
   const showReviseButton = isRosterFinalized;
   const showRefinalize = isRosterDraft;
 
-  if (isSundaysLoading) {
+  // Team leads may only roster the service roles they lead; viewers cannot edit at all
+  const canEditRole = (roleId: number) => !isRosterFinalized && canRosterRole(roleId);
+  const canClearService = can("roster.edit") && access?.serviceRoleIds === null;
+
+  if (isServicesLoading) {
     return <LoaderOverlay isLoading={true} type="calendar" loadingText="Loading roster data..." />;
   }
 
-  if (sundaysError) {
+  if (servicesError) {
     return (
       <Alert variant="destructive" className="my-4">
         <AlertTriangle className="h-4 w-4" />
@@ -922,7 +959,7 @@ export function RosterBuilder() {
 
       {/* Month selector header with Finalize button - Top row */}
       <div className="flex flex-wrap justify-between items-center mb-4 gap-2">
-        <h3 className="font-medium text-lg">Available Sundays</h3>
+        <h3 className="font-medium text-lg">Services</h3>
         <div className="flex items-center space-x-2">
           <Button 
             variant="outline" 
@@ -946,8 +983,33 @@ export function RosterBuilder() {
             <ChevronRight className="h-4 w-4" />
           </Button>
           
+          {can("roster.edit") && !isRosterFinalized && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setIsAutoRosterOpen(true)}
+              disabled={!servicesData || servicesData.length === 0}
+              className="ml-2"
+            >
+              <Sparkles className="h-4 w-4 mr-1" />
+              Auto-fill
+            </Button>
+          )}
+          
+          {rosterExists && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setIsHistoryOpen(true)}
+              className="ml-2"
+            >
+              <History className="h-4 w-4 mr-1" />
+              History
+            </Button>
+          )}
+          
           {/* Action button - changes based on roster state */}
-          {isRosterFinalized ? (
+          {!can("roster.finalize") ? null : isRosterFinalized ? (
             /* When finalized - show Revise button */
             <Button
               size="sm"
@@ -974,7 +1036,7 @@ export function RosterBuilder() {
               size="sm"
               variant="default"
               onClick={handleFinalizeRoster}
-              disabled={sundaysData?.length === 0}
+              disabled={servicesData?.length === 0}
               className="ml-2"
             >
               <Lock className="h-4 w-4 mr-1" />
@@ -987,42 +1049,59 @@ export function RosterBuilder() {
       
       {/* Finalize Roster Dialog */}
       <FinalizeRosterDialog />
+      
+      <AutoRosterDialog
+        open={isAutoRosterOpen}
+        onOpenChange={setIsAutoRosterOpen}
+        year={currentMonth.getFullYear()}
+        month={currentMonth.getMonth() + 1}
+        slots={servicesData ?? []}
+      />
+
+      <RosterHistoryDialog
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+        year={currentMonth.getFullYear()}
+        month={currentMonth.getMonth() + 1}
+      />
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        {/* Left panel - Available Sundays */}
+        {/* Left panel - Services */}
         <div className="md:col-span-1">
           
-          {sundaysData && sundaysData.length > 0 ? (
+          {servicesData && servicesData.length > 0 ? (
             <div className="space-y-2">
-              {Array.isArray(sundaysData) && sundaysData.map((sunday: SundayData) => (
+              {Array.isArray(servicesData) && servicesData.map((slot: ServiceSlot) => (
                 <Card 
-                  key={sunday.dateStr}
+                  key={slot.service.id}
                   className={`cursor-pointer hover:bg-muted/50 transition-colors ${
-                    selectedSunday?.dateStr === sunday.dateStr ? 'border-primary' : ''
+                    selectedService?.service.id === slot.service.id ? 'border-primary' : ''
                   }`}
-                  onClick={() => setSelectedSunday(sunday)}
+                  onClick={() => setSelectedService(slot)}
                 >
                   <CardHeader className="p-4 pb-0">
-                    <CardTitle className="text-sm font-medium">{format(new Date(sunday.date), 'MMMM d, yyyy')}</CardTitle>
+                    <CardTitle className="text-sm font-medium">{format(fromDateKey(slot.dateStr), 'MMMM d, yyyy')}</CardTitle>
+                    <p className="text-xs font-medium">{formatServiceLabel(slot.service)}</p>
                     <CardDescription className="text-xs">
-                      {sunday.specialDay ? (
+                      {slot.specialDay ? (
                         <Badge 
                           style={{
-                            backgroundColor: sunday.specialDay.color || '#7C3AED',
+                            backgroundColor: slot.specialDay.color || '#7C3AED',
                             color: '#FFFFFF'
                           }}
                         >
-                          {sunday.specialDay.name}
+                          {slot.specialDay.name}
                         </Badge>
-                      ) : 'Regular Sunday'}
+                      ) : 'Regular Service'}
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="p-4 pt-2">
                     <p className="text-xs text-muted-foreground">
-                      {sunday.availablePeople.length} people available
+                      {slot.availablePeople.length} people available
+                      {slot.awayPeople.length > 0 && `, ${slot.awayPeople.length} away`}
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      {sunday.assignments.length} of {sunday.roles.length} roles assigned
+                      {slot.assignments.length} of {slot.roles.length} roles assigned
                     </p>
                   </CardContent>
                 </Card>
@@ -1032,7 +1111,7 @@ export function RosterBuilder() {
             <Card>
               <CardContent className="p-4 text-center">
                 <Info className="h-12 w-12 mx-auto text-muted-foreground opacity-50 my-4" />
-                <p className="text-sm">No Sundays found with available people in this month.</p>
+                <p className="text-sm">No services found in this month.</p>
                 <p className="text-xs text-muted-foreground mt-2">
                   Try another month or check if members have indicated their availability.
                 </p>
@@ -1043,43 +1122,48 @@ export function RosterBuilder() {
 
         {/* Right panel - Assignment details */}
         <div className="md:col-span-2">
-          {selectedSunday ? (
+          {selectedService ? (
             <Card>
               <CardHeader>
                 <div className="flex justify-between items-center">
                   <div>
-                    <CardTitle>{format(new Date(selectedSunday.date), 'MMMM d, yyyy')}</CardTitle>
+                    <CardTitle>{format(fromDateKey(selectedService.dateStr), 'MMMM d, yyyy')}</CardTitle>
+                    <p className="text-sm font-medium">{formatServiceLabel(selectedService.service)}</p>
                     <CardDescription>
-                      {selectedSunday.specialDay ? (
+                      {selectedService.specialDay ? (
                         <Badge 
                           style={{
-                            backgroundColor: selectedSunday.specialDay.color || '#7C3AED',
+                            backgroundColor: selectedService.specialDay.color || '#7C3AED',
                             color: '#FFFFFF'
                           }}
                         >
-                          {selectedSunday.specialDay.name}
+                          {selectedService.specialDay.name}
                         </Badge>
-                      ) : 'Regular Sunday'}
+                      ) : 'Regular Service'}
                     </CardDescription>
                   </div>
                   <div className="flex space-x-2">
-                    <Button 
-                      variant="destructive" 
-                      size="sm"
-                      onClick={handleClearAssignments}
-                      disabled={isRosterFinalized || (selectedSunday.assignments.length === 0 && Object.keys(selectedAssignments).length === 0)}
-                    >
-                      <Trash2 className="h-4 w-4 mr-1" />
-                      Clear All
-                    </Button>
-                    <Button
-                      size="sm"
-                      onClick={handleSaveAssignments}
-                      disabled={isRosterFinalized || Object.keys(selectedAssignments).length === 0}
-                    >
-                      <Save className="h-4 w-4 mr-1" />
-                      Save
-                    </Button>
+                    {canClearService && (
+                      <Button 
+                        variant="destructive" 
+                        size="sm"
+                        onClick={handleClearAssignments}
+                        disabled={isRosterFinalized || (selectedService.assignments.length === 0 && Object.keys(selectedAssignments).length === 0)}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Clear All
+                      </Button>
+                    )}
+                    {can("roster.edit") && (
+                      <Button
+                        size="sm"
+                        onClick={handleSaveAssignments}
+                        disabled={isRosterFinalized || Object.keys(selectedAssignments).length === 0}
+                      >
+                        <Save className="h-4 w-4 mr-1" />
+                        Save
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardHeader>
@@ -1094,9 +1178,9 @@ export function RosterBuilder() {
                   )}
                 </div>
                 
-                {selectedSunday.roles.length > 0 ? (
+                {selectedService.roles.length > 0 ? (
                   <div className="space-y-4">
-                    {selectedSunday.roles.map(role => (
+                    {selectedService.roles.map(role => (
                       <div key={role.id} className="border rounded-md p-4">
                         <div className="flex justify-between items-center mb-2">
                           <div>
@@ -1154,11 +1238,19 @@ export function RosterBuilder() {
                             it will only be shown via a toast when the user tries to exceed the limit */}
                         
                         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 mt-3">
-                          {[...selectedSunday.availablePeople]
-                            .sort((a, b) => a.firstName.localeCompare(b.firstName))
+                          {selectedService.availablePeople
+                            .filter(person => offersRole(selectedService, person.id, role.id))
+                            .sort((a, b) =>
+                              // People available only if needed go last; within each,
+                              // qualified people first, then trainees, then everyone else
+                              Number(a.isMaybe) - Number(b.isMaybe) ||
+                              eligibilityRank(a.id, role.id) - eligibilityRank(b.id, role.id) ||
+                              a.firstName.localeCompare(b.firstName)
+                            )
                             .map(person => {
+                            const personEligibility = eligibility(person.id, role.id);
                             // Check if person is already assigned to another role
-                            const isAssignedElsewhere = selectedSunday.assignments.some(a => a.userId === person.id && a.roleId !== role.id) || 
+                            const isAssignedElsewhere = selectedService.assignments.some(a => a.userId === person.id && a.roleId !== role.id) || 
                                                       Object.entries(selectedAssignments).some(([otherRoleId, userIds]) => 
                                                         parseInt(otherRoleId) !== role.id && userIds.includes(person.id));
                                                         
@@ -1186,21 +1278,51 @@ export function RosterBuilder() {
                                   key={`${role.id}-${person.id}`}
                                   className={`
                                     border rounded-md p-2 text-sm relative
-                                    ${isRosterFinalized ? 'opacity-70 cursor-not-allowed' : 'cursor-pointer'} 
+                                    ${!canEditRole(role.id) ? 'opacity-70 cursor-not-allowed' : 'cursor-pointer'} 
+                                    ${person.isMaybe ? 'border-dashed' : ''}
                                     ${selectedAssignments[role.id]?.includes(person.id) ? 'bg-primary/20 border-primary' : 
-                                      selectedSunday.assignments.some(a => a.roleId === role.id && a.userId === person.id) ? 
+                                      selectedService.assignments.some(a => a.roleId === role.id && a.userId === person.id) ? 
                                       'bg-primary/10 border-primary-muted' : 
-                                      isRosterFinalized ? '' : 'hover:bg-muted/50'
+                                      !canEditRole(role.id) ? '' : 'hover:bg-muted/50'
                                     }
                                   `}
-                                  onClick={() => !isRosterFinalized && handleAssignRole(role.id, person.id, role.name)}
+                                  onClick={() => canEditRole(role.id) && handleAssignRole(role.id, person.id, role.name)}
                                 >
                                   <div className="flex justify-between items-center">
-                                    <div>
+                                    <div className="min-w-0">
                                       <p className="font-medium truncate">{person.formattedName}</p>
-                                      <p className="text-xs text-muted-foreground truncate">{person.initials}</p>
+                                      {person.isMaybe && (
+                                        <p className="text-xs text-amber-600 inline-flex items-center gap-1">
+                                          <CircleHelp className="h-3 w-3" />
+                                          If needed
+                                        </p>
+                                      )}
+                                      <p className="text-xs text-muted-foreground truncate">
+                                        {personEligibility === "unqualified" ? (
+                                          <span className="inline-flex items-center gap-1 text-amber-600">
+                                            <AlertTriangle className="h-3 w-3" />
+                                            Not qualified
+                                          </span>
+                                        ) : personEligibility === "training" || personEligibility === "preferred" ? (
+                                          QUALIFICATION_LEVEL_LABELS[personEligibility]
+                                        ) : (
+                                          person.initials
+                                        )}
+                                      </p>
                                     </div>
-                                    {selectedSunday.assignments.some(a => a.roleId === role.id && a.userId === person.id) && (
+                                    {person.availabilityNote && (
+                                      <TooltipProvider>
+                                        <Tooltip>
+                                          <TooltipTrigger asChild>
+                                            <MessageSquare className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                                          </TooltipTrigger>
+                                          <TooltipContent>
+                                            <p className="text-xs">{person.availabilityNote}</p>
+                                          </TooltipContent>
+                                        </Tooltip>
+                                      </TooltipProvider>
+                                    )}
+                                    {selectedService.assignments.some(a => a.roleId === role.id && a.userId === person.id) && (
                                       <TooltipProvider>
                                         <Tooltip>
                                           <TooltipTrigger asChild>
@@ -1219,10 +1341,30 @@ export function RosterBuilder() {
                               );
                             }
                           })}
+                          {selectedService.awayPeople.map(person => (
+                            <TooltipProvider key={`${role.id}-away-${person.id}`}>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <div className="border border-dashed rounded-md p-2 text-sm opacity-50 cursor-not-allowed">
+                                    <p className="font-medium truncate">{person.formattedName}</p>
+                                    <p className="text-xs text-muted-foreground truncate inline-flex items-center gap-1">
+                                      <Palmtree className="h-3 w-3" />
+                                      Away
+                                    </p>
+                                  </div>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p className="text-xs">{person.awayReason ? `Away: ${person.awayReason}` : 'This person is away on this date.'}</p>
+                                </TooltipContent>
+                              </Tooltip>
+                            </TooltipProvider>
+                          ))}
                         </div>
                         
-                        {selectedSunday.availablePeople.length === 0 && (
+                        {selectedService.availablePeople.length === 0 ? (
                           <p className="text-sm text-muted-foreground mt-2">No people available for this date.</p>
+                        ) : !selectedService.availablePeople.some(person => offersRole(selectedService, person.id, role.id)) && (
+                          <p className="text-sm text-muted-foreground mt-2">No one available offered this role for this date.</p>
                         )}
                       </div>
                     ))}
@@ -1238,7 +1380,7 @@ export function RosterBuilder() {
               </CardContent>
               <CardFooter>
                 <p className="text-xs text-muted-foreground">
-                  Note: People already assigned to other roles are shown with reduced opacity.
+                  Note: People already assigned to other roles or away are shown with reduced opacity. People available only if needed are listed last with a dashed border.
                 </p>
               </CardFooter>
             </Card>
@@ -1246,9 +1388,9 @@ export function RosterBuilder() {
             <Card>
               <CardContent className="p-8 text-center">
                 <ChurchLoader type="calendar" size="lg" className="mx-auto text-muted-foreground" />
-                <p className="mt-4 text-lg font-medium">Select a Sunday to create roster assignments</p>
+                <p className="mt-4 text-lg font-medium">Select a service to create roster assignments</p>
                 <p className="text-sm text-muted-foreground mt-2">
-                  You'll be able to assign available people to service roles for that date
+                  You'll be able to assign available people to service roles for that service
                 </p>
               </CardContent>
             </Card>
@@ -1262,7 +1404,7 @@ export function RosterBuilder() {
           <DialogHeader>
             <DialogTitle>Clear All Assignments</DialogTitle>
             <DialogDescription>
-              Are you sure you want to remove all role assignments for {selectedSunday ? format(new Date(selectedSunday.date), 'MMMM d, yyyy') : 'this date'}? This action cannot be undone.
+              Are you sure you want to remove all role assignments for {selectedService ? `${format(fromDateKey(selectedService.dateStr), 'MMMM d, yyyy')} ${formatServiceLabel(selectedService.service)}` : 'this service'}? This action cannot be undone.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -1278,7 +1420,7 @@ export function RosterBuilder() {
       <LoaderOverlay 
         isLoading={
           createAssignmentMutation.isPending || 
-          clearDateAssignmentsMutation.isPending || 
+          clearServiceAssignmentsMutation.isPending || 
           deleteAssignmentMutation.isPending
         } 
         loadingText={
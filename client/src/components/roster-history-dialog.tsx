@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { RosterDiff, RosterVersionSummary } from "@shared/schema";
+import { formatServiceLabel } from "@shared/services";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChurchLoader } from "./church-loader";
+
+const memberName = (member: { firstName: string; lastName: string }) => `${member.firstName} ${member.lastName}`;
+
+// Lists the month's finalized versions and what changed between any two of them,
+// or between a version and the assignments as they are now
+export function RosterHistoryDialog({
+  open,
+  onOpenChange,
+  year,
+  month,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  year: number;
+  month: number;
+}) {
+  const [from, setFrom] = useState<string>("");
+  const [to, setTo] = useState<string>("draft");
+
+  const { data: versions = [], isLoading } = useQuery<RosterVersionSummary[]>({
+    queryKey: [`/api/roster-versions/${year}/${month}`],
+    enabled: open,
+  });
+
+  // Start from the latest published version against the current assignments
+  useEffect(() => {
+    if (!open) return;
+    setFrom(versions.length > 0 ? String(versions[versions.length - 1].version) : "");
+    setTo("draft");
+  }, [open, versions]);
+
+  const { data: diff, isFetching } = useQuery<RosterDiff>({
+    queryKey: [`/api/roster-versions/${year}/${month}/diff?from=${from}&to=${to}`],
+    enabled: open && from !== "",
+    // The current roster may have changed since the dialog was last opened
+    staleTime: 0,
+  });
+
+  const versionLabel = (version: RosterVersionSummary) =>
+    `Version ${version.version} (${format(new Date(version.createdAt), "d MMM HH:mm")})`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Roster History</DialogTitle>
+          <DialogDescription>
+            A version is kept each time the roster for {format(new Date(year, month - 1, 1), "MMMM yyyy")} is finalized.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <ChurchLoader type="calendar" size="md" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This month has not been finalized yet.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Compare</Label>
+                <Select value={from} onValueChange={setFrom}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(version => (
+                      <SelectItem key={version.id} value={String(version.version)}>
+                        {versionLabel(version)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>With</Label>
+                <Select value={to} onValueChange={setTo}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="draft">Current roster</SelectItem>
+                    {versions.map(version => (
+                      <SelectItem key={version.id} value={String(version.version)}>
+                        {versionLabel(version)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {isFetching && !diff ? (
+              <div className="flex justify-center py-6">
+                <ChurchLoader type="calendar" size="md" />
+              </div>
+            ) : diff && diff.changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No differences.</p>
+            ) : diff && (
+              <div className="space-y-2">
+                {diff.changes.map(change => (
+                  <div key={`${change.serviceId}:${change.roleId}`} className="rounded-md border p-3 text-sm">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <span className="font-medium">
+                        {change.service
+                          ? `${format(parseISO(change.service.serviceDate), "EEE d MMM")}, ${formatServiceLabel(change.service)}`
+                          : "Removed service"}
+                      </span>
+                      <Badge variant="outline">{change.role?.name ?? "Removed role"}</Badge>
+                    </div>
+                    {change.removed.map(member => (
+                      <p key={`removed-${member.id}`} className="text-destructive">- {memberName(member)}</p>
+                    ))}
+                    {change.added.map(member => (
+                      <p key={`added-${member.id}`} className="text-green-600">+ {memberName(member)}</p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,8 @@
 import React from "react";
 import { Document, Page, Text, View, StyleSheet, Font, Image } from "@react-pdf/renderer";
-import { format } from "date-fns";
-import { User, Verse } from "@shared/schema";
+import { format, parseISO } from "date-fns";
+import { MemberSummary, Service, Verse } from "@shared/schema";
+import { compareServices, formatServiceLabel } from "@shared/services";
 import { PDFVerse } from "./pdf-verse";
 
 // Register custom fonts for enhanced typography
@@ -124,6 +125,14 @@ const styles = StyleSheet.create({
     color: colors.mediumText,
     fontFamily: 'Lora',
   },
+  memberNote: {
+    fontSize: 10,
+    fontStyle: "italic",
+    color: colors.lightText,
+    fontFamily: 'Lora',
+    marginLeft: 10,
+    marginBottom: 5,
+  },
   noMembers: {
     fontSize: 12,
     fontStyle: "italic",
@@ -203,71 +212,57 @@ const styles = StyleSheet.create({
   },
 });
 
+// A member available for a service, with how they answered
+export type AvailableMember = MemberSummary & {
+  isMaybe?: boolean; // Only available if needed
+  availabilityNote?: string | null;
+};
+
 interface RosterPDFProps {
   month: Date;
+  // Services in the month; the roster data below is keyed by service id
+  services: Service[];
   // Standard availability-based roster data (legacy format)
   rosterData?: {
-    [key: string]: User[];
+    [serviceId: string]: AvailableMember[];
   };
   // New service role-based roster data
   serviceRoster?: {
-    [dateStr: string]: {
-      [roleName: string]: User[];
+    [serviceId: string]: {
+      [roleName: string]: MemberSummary[];
     }
   };
   viewType?: "card" | "simple" | "roles";
   verse?: Verse;
 }
 
-export function RosterPDF({ month, rosterData, serviceRoster, viewType = "card", verse, ...props }: RosterPDFProps & React.ComponentProps<typeof Document>) {
+export function RosterPDF({ month, services, rosterData, serviceRoster, viewType = "card", verse, ...props }: RosterPDFProps & React.ComponentProps<typeof Document>) {
   // Sort users consistently by last name, then first name
-  const sortUsers = (a: User, b: User) => {
+  const sortUsers = (a: MemberSummary, b: MemberSummary) => {
     const lastNameCompare = a.lastName.localeCompare(b.lastName);
     return lastNameCompare !== 0
       ? lastNameCompare
       : a.firstName.localeCompare(b.firstName);
   };
   
-  // Define data structures for different view types
-  let processedRosterData: { [key: string]: User[] } = {};
-  let processedServiceRoster: { 
-    [normalizedDateStr: string]: { 
-      [roleName: string]: User[]
-    } 
-  } = {};
+  // Members available only if needed are listed after everyone else
+  const sortAvailable = (a: AvailableMember, b: AvailableMember) =>
+    Number(!!a.isMaybe) - Number(!!b.isMaybe) || sortUsers(a, b);
   
-  // Get dates and normalize them for consistent handling
-  let sortedDates: Date[] = [];
+  const processedRosterData = rosterData ?? {};
+  const processedServiceRoster = (viewType === "roles" && serviceRoster) ? serviceRoster : {};
+  const sourceData = viewType === "roles" ? processedServiceRoster : processedRosterData;
   
-  if (viewType === "roles" && serviceRoster) {
-    // Process service roster data with roles
-    Object.entries(serviceRoster).forEach(([dateStr, roleAssignments]) => {
-      const dateObj = new Date(dateStr);
-      const normalizedDateStr = dateObj.toISOString();
-      
-      processedServiceRoster[normalizedDateStr] = roleAssignments;
-    });
-    
-    // Get sorted dates for service roster
-    sortedDates = Object.keys(processedServiceRoster)
-      .map(date => new Date(date))
-      .sort((a, b) => a.getTime() - b.getTime());
-  } else if (rosterData) {
-    // Process regular roster data (availability-based)
-    Object.entries(rosterData).forEach(([dateStr, users]) => {
-      const dateObj = new Date(dateStr);
-      const normalizedDateStr = dateObj.toISOString();
-      processedRosterData[normalizedDateStr] = users;
-    });
-    
-    // Get sorted dates for regular roster
-    sortedDates = Object.keys(processedRosterData)
-      .map(date => new Date(date))
-      .sort((a, b) => a.getTime() - b.getTime());
-  }
+  // Only services with data are listed, in date and start time order
+  const sortedServices = services
+    .filter(service => sourceData[service.id] !== undefined)
+    .sort(compareServices);
+  
+  const serviceHeading = (service: Service) =>
+    `${format(parseISO(service.serviceDate), "EEEE, MMMM d, yyyy")} · ${formatServiceLabel(service)}`;
   
   // Format for display in the roster
-  const formatName = (user: User) => {
+  const formatName = (user: MemberSummary) => {
     if (viewType === "simple" && user.initials) {
       // Use custom initials when in simple view
       return user.initials;
@@ -370,13 +365,12 @@ export function RosterPDF({ month, rosterData, serviceRoster, viewType = "card",
         {viewType === "roles" ? (
           // Roles View - for service assignments
           <>
-            {sortedDates.map(date => {
-              const isoDateStr = date.toISOString();
-              const rolesForDate = processedServiceRoster[isoDateStr] || {};
-              const hasAssignments = Object.keys(rolesForDate).length > 0;
+            {sortedServices.map(service => {
+              const rolesForService = processedServiceRoster[service.id] || {};
+              const hasAssignments = Object.keys(rolesForService).length > 0;
               
               return (
-                <View key={isoDateStr} style={styles.section}>
+                <View key={service.id} style={styles.section}>
                   {/* Service date with icon effect */}
                   <View style={{ flexDirection: 'row', alignItems: 'center' }}>
                     <View style={{ 
@@ -387,16 +381,16 @@ export function RosterPDF({ month, rosterData, serviceRoster, viewType = "card",
                       marginRight: 8 
                     }} />
                     <Text style={styles.serviceDate}>
-                      {format(date, "EEEE, MMMM d, yyyy")}
+                      {serviceHeading(service)}
                     </Text>
                   </View>
                   
                   {hasAssignments ? (
                     <View style={roleStyles.roleTable}>
                       {/* Role assignments with alternating row colors */}
-                      {Object.entries(rolesForDate).map(([roleName, users], index) => (
+                      {Object.entries(rolesForService).map(([roleName, users], index) => (
                         <View 
-                          key={`${isoDateStr}-${roleName}`} 
+                          key={`${service.id}-${roleName}`} 
                           style={roleStyles.roleRow}
                         >
                           <Text style={roleStyles.roleNameCell}>
@@ -422,7 +416,7 @@ export function RosterPDF({ month, rosterData, serviceRoster, viewType = "card",
                       alignItems: 'center'
                     }}>
                       <Text style={[styles.noMembers, { textAlign: 'center' }]}>
-                        No role assignments for this service date
+                        No role assignments for this service
                       </Text>
                     </View>
                   )}
@@ -456,23 +450,27 @@ export function RosterPDF({ month, rosterData, serviceRoster, viewType = "card",
         ) : viewType === "card" ? (
           // Card View - for availability
           <>
-            {sortedDates.map(date => {
-              const isoDateStr = date.toISOString();
-              const users = processedRosterData[isoDateStr] || [];
+            {sortedServices.map(service => {
+              const users = processedRosterData[service.id] || [];
               
               return (
-                <View key={isoDateStr} style={styles.section}>
+                <View key={service.id} style={styles.section}>
                   <Text style={styles.serviceDate}>
-                    {format(date, "EEEE, MMMM d, yyyy")}
+                    {serviceHeading(service)}
                   </Text>
                   <View style={styles.memberList}>
                     {users.length > 0 ? (
                       users
-                        .sort(sortUsers)
+                        .sort(sortAvailable)
                         .map((user) => (
-                          <Text key={user.id} style={styles.member}>
-                            • {formatName(user)}
-                          </Text>
+                          <View key={user.id}>
+                            <Text style={styles.member}>
+                              • {formatName(user)}{user.isMaybe ? " (if needed)" : ""}
+                            </Text>
+                            {user.availabilityNote && (
+                              <Text style={styles.memberNote}>{user.availabilityNote}</Text>
+                            )}
+                          </View>
                         ))
                     ) : (
                       <Text style={styles.noMembers}>No members available</Text>
@@ -509,22 +507,24 @@ export function RosterPDF({ month, rosterData, serviceRoster, viewType = "card",
           // Simple View (Table) - for availability
           <View style={styles.section}>
             <View style={[styles.tableRow, styles.tableHeader]}>
-              <Text style={styles.dateCell}>Service Date</Text>
+              <Text style={styles.dateCell}>Service</Text>
               <Text style={styles.tableCell}>Members</Text>
             </View>
             
-            {sortedDates.map(date => {
-              const isoDateStr = date.toISOString();
-              const users = processedRosterData[isoDateStr] || [];
+            {sortedServices.map(service => {
+              const users = processedRosterData[service.id] || [];
               
               return (
-                <View key={isoDateStr} style={styles.tableRow}>
+                <View key={service.id} style={styles.tableRow}>
                   <Text style={styles.dateCell}>
-                    {format(date, "dd/MM/yyyy")}
+                    {format(parseISO(service.serviceDate), "dd/MM/yyyy")} {formatServiceLabel(service)}
                   </Text>
                   <Text style={styles.tableCell}>
                     {users.length > 0 
-                      ? users.sort(sortUsers).map(user => formatName(user)).join(", ")
+                      ? users
+                          .sort(sortAvailable)
+                          .map(user => `${formatName(user)}${user.isMaybe ? " (if needed)" : ""}${user.availabilityNote ? ` - ${user.availabilityNote}` : ""}`)
+                          .join(", ")
                       : "No members available"
                     }
                   </Text>
@@ -0,0 +1,416 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { ServiceSchedule } from '@shared/schema';
+import { WEEKDAY_NAMES, describeSchedule, formatServiceTime } from '@shared/services';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Plus, Pencil, Trash2, Repeat, MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+const WEEK_OPTIONS = [
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: '4th' },
+  { value: 5, label: '5th' },
+];
+
+// Define the form schema
+const scheduleFormSchema = z.object({
+  name: z.string().min(1, "Service name is required"),
+  dayOfWeek: z.number().int().min(0).max(6),
+  weeksOfMonth: z.array(z.number().int().min(1).max(5)),
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Start time is required"),
+  location: z.string().optional(),
+  isActive: z.boolean(),
+});
+
+type ScheduleFormValues = z.infer<typeof scheduleFormSchema>;
+
+const emptyForm: ScheduleFormValues = {
+  name: '',
+  dayOfWeek: 0,
+  weeksOfMonth: [],
+  startTime: '10:00',
+  location: '',
+  isActive: true,
+};
+
+export function ServiceSchedulesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<ServiceSchedule | null>(null);
+  const [scheduleToDelete, setScheduleToDelete] = useState<ServiceSchedule | null>(null);
+
+  const { data: schedules = [], isLoading } = useQuery<ServiceSchedule[]>({
+    queryKey: ['/api/admin/service-schedules'],
+  });
+
+  const form = useForm<ScheduleFormValues>({
+    resolver: zodResolver(scheduleFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async (data: ScheduleFormValues) => {
+      const response = await fetch(
+        editingSchedule ? `/api/admin/service-schedules/${editingSchedule.id}` : '/api/admin/service-schedules',
+        {
+          method: editingSchedule ? 'PATCH' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ ...data, location: data.location?.trim() || null }),
+          credentials: 'include'
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to save schedule');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/service-schedules'] });
+      toast({
+        title: "Success",
+        description: editingSchedule ? "Schedule updated" : "Schedule added",
+      });
+      handleDialogOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save schedule",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/admin/service-schedules/${id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to delete schedule');
+      }
+
+      return { success: true };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/service-schedules'] });
+      setScheduleToDelete(null);
+      toast({
+        title: "Success",
+        description: "Schedule deleted",
+      });
+    },
+    onError: (error) => {
+      setScheduleToDelete(null);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete schedule",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleDialogOpen = (open: boolean) => {
+    if (!open) {
+      setEditingSchedule(null);
+      form.reset(emptyForm);
+    }
+    setIsDialogOpen(open);
+  };
+
+  const handleEditClick = (schedule: ServiceSchedule) => {
+    setEditingSchedule(schedule);
+    form.reset({
+      name: schedule.name,
+      dayOfWeek: schedule.dayOfWeek,
+      weeksOfMonth: schedule.weeksOfMonth,
+      startTime: schedule.startTime,
+      location: schedule.location || '',
+      isActive: schedule.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Service Schedules
+          </span>
+          <Button onClick={() => setIsDialogOpen(true)} size="sm" className="ml-2">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Schedule
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Recurring services used to fill in each new month. Special days can cancel the scheduled services on a day or add an extra one.
+          Until a schedule is added, every Sunday gets a 10:00am Sunday Service.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center">Loading schedules...</p>
+        ) : schedules.length > 0 ? (
+          <div className="space-y-2">
+            {schedules.map((schedule) => (
+              <div
+                key={schedule.id}
+                className={`border rounded-md p-3 flex justify-between items-center ${!schedule.isActive ? 'opacity-50 bg-muted/50' : ''}`}
+              >
+                <div>
+                  <p className="font-medium">{schedule.name}</p>
+                  <p className="text-sm text-muted-foreground flex flex-wrap items-center gap-x-3">
+                    <span>{describeSchedule(schedule)} at {formatServiceTime(schedule.startTime)}</span>
+                    {schedule.location && (
+                      <span className="flex items-center gap-1">
+                        <MapPin className="h-3 w-3" />
+                        {schedule.location}
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {!schedule.isActive && (
+                    <span className="text-xs bg-muted px-2 py-1 rounded-md">
+                      Paused
+                    </span>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => handleEditClick(schedule)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => setScheduleToDelete(schedule)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No schedules yet. Click "Add Schedule" to set up your regular services.
+          </p>
+        )}
+      </CardContent>
+
+      {/* Form Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingSchedule ? 'Edit Schedule' : 'Add Schedule'}</DialogTitle>
+            <DialogDescription>
+              Changes apply to months that have not been planned yet. Use "Apply Schedules" in Services to update a month that already has services.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveScheduleMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Service Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="E.g., Morning Service" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="dayOfWeek"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Day</FormLabel>
+                      <Select value={field.value.toString()} onValueChange={(value) => field.onChange(parseInt(value))}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {WEEKDAY_NAMES.map((weekday, index) => (
+                            <SelectItem key={weekday} value={index.toString()}>{weekday}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="startTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start Time</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="weeksOfMonth"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Weeks of the Month</FormLabel>
+                    <div className="flex flex-wrap gap-4">
+                      {WEEK_OPTIONS.map((week) => (
+                        <div key={week.value} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`week-${week.value}`}
+                            checked={field.value.includes(week.value)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked === true
+                                ? [...field.value, week.value].sort((a, b) => a - b)
+                                : field.value.filter(value => value !== week.value)
+                            )}
+                          />
+                          <Label htmlFor={`week-${week.value}`} className="font-normal">{week.label}</Label>
+                        </div>
+                      ))}
+                    </div>
+                    <FormDescription>
+                      Leave all unticked for every week.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="E.g., Main Hall" {...field} value={field.value || ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Active</FormLabel>
+                      <FormDescription>
+                        Paused schedules don't create services in new months.
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => handleDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveScheduleMutation.isPending}>
+                  {editingSchedule ? 'Save Changes' : 'Add Schedule'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!scheduleToDelete} onOpenChange={(open) => !open && setScheduleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Schedule</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete the "{scheduleToDelete?.name}" schedule? Services it already created are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => scheduleToDelete && deleteScheduleMutation.mutate(scheduleToDelete.id)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,434 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { Service } from '@shared/schema';
+import { formatServiceTime } from '@shared/services';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format, parseISO, addMonths, subMonths } from 'date-fns';
+import { Plus, Pencil, Trash2, ChevronLeft, ChevronRight, Clock, MapPin, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { LoaderOverlay } from './loader-overlay';
+import { getDefaultMonth } from '@/lib/date-utils';
+
+// Define the form schema
+const serviceFormSchema = z.object({
+  serviceDate: z.string().min(1, "Date is required"),
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Start time is required"),
+  name: z.string().min(1, "Service name is required"),
+  location: z.string().optional(),
+});
+
+type ServiceFormValues = z.infer<typeof serviceFormSchema>;
+
+const emptyForm: ServiceFormValues = {
+  serviceDate: '',
+  startTime: '10:00',
+  name: '',
+  location: '',
+};
+
+export function ServicesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [currentMonth, setCurrentMonth] = useState<Date>(getDefaultMonth());
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingService, setEditingService] = useState<Service | null>(null);
+  const [serviceToDelete, setServiceToDelete] = useState<Service | null>(null);
+
+  const year = currentMonth.getFullYear();
+  const month = currentMonth.getMonth() + 1;
+
+  // Fetch the services in the selected month
+  const { data: services = [], isLoading } = useQuery<Service[]>({
+    queryKey: ['/api/services', year, month],
+    queryFn: async () => {
+      const response = await fetch(`/api/services?year=${year}&month=${month}`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch services');
+      }
+
+      return response.json();
+    },
+  });
+
+  const form = useForm<ServiceFormValues>({
+    resolver: zodResolver(serviceFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  // Services feed the availability page, the roster page and the roster builder
+  const invalidateServices = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/services'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/roster-builder/services'] });
+  };
+
+  const toPayload = (data: ServiceFormValues) => ({
+    ...data,
+    location: data.location?.trim() || null,
+  });
+
+  const saveServiceMutation = useMutation({
+    mutationFn: async (data: ServiceFormValues) => {
+      const response = await fetch(
+        editingService ? `/api/admin/services/${editingService.id}` : '/api/admin/services',
+        {
+          method: editingService ? 'PATCH' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(toPayload(data)),
+          credentials: 'include'
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to save service');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateServices();
+      toast({
+        title: "Success",
+        description: editingService ? "Service updated" : "Service added",
+      });
+      handleDialogOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save service",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteServiceMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/admin/services/${id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to delete service');
+      }
+
+      return { success: true };
+    },
+    onSuccess: () => {
+      invalidateServices();
+      setServiceToDelete(null);
+      toast({
+        title: "Success",
+        description: "Service deleted",
+      });
+    },
+    onError: (error) => {
+      setServiceToDelete(null);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete service",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Adds any services from the schedules and special days that the month is missing
+  const applySchedulesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/admin/services/generate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ year, month }),
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to apply schedules');
+      }
+
+      return response.json() as Promise<{ created: Service[] }>;
+    },
+    onSuccess: ({ created }) => {
+      invalidateServices();
+      toast({
+        title: "Success",
+        description: created.length > 0
+          ? `Added ${created.length} ${created.length === 1 ? 'service' : 'services'} from the schedules`
+          : "This month already has every scheduled service",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to apply schedules",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleDialogOpen = (open: boolean) => {
+    if (!open) {
+      setEditingService(null);
+      form.reset(emptyForm);
+    }
+    setIsDialogOpen(open);
+  };
+
+  const handleAddClick = () => {
+    setEditingService(null);
+    form.reset({ ...emptyForm, serviceDate: format(currentMonth, 'yyyy-MM-dd') });
+    setIsDialogOpen(true);
+  };
+
+  const handleEditClick = (service: Service) => {
+    setEditingService(service);
+    form.reset({
+      serviceDate: service.serviceDate,
+      startTime: service.startTime,
+      name: service.name,
+      location: service.location || '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Services</span>
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={() => applySchedulesMutation.mutate()}
+              size="sm"
+              variant="outline"
+              disabled={applySchedulesMutation.isPending}
+            >
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Apply Schedules
+            </Button>
+            <Button onClick={handleAddClick} size="sm">
+              <Plus className="h-4 w-4 mr-1" />
+              Add Service
+            </Button>
+          </div>
+        </CardTitle>
+        <CardDescription>
+          Each service has its own availability and roster. New months are filled in from the service schedules.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setCurrentMonth(prev => subMonths(prev, 1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="font-medium min-w-[140px] text-center">
+            {format(currentMonth, 'MMMM yyyy')}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setCurrentMonth(prev => addMonths(prev, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center">Loading services...</p>
+        ) : services.length > 0 ? (
+          <div className="space-y-2">
+            {services.map((service) => (
+              <div key={service.id} className="border rounded-md p-3 flex justify-between items-center">
+                <div>
+                  <p className="font-medium">
+                    {format(parseISO(service.serviceDate), 'EEEE d MMMM')} · {service.name}
+                  </p>
+                  <p className="text-sm text-muted-foreground flex flex-wrap items-center gap-x-3">
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {formatServiceTime(service.startTime)}
+                    </span>
+                    {service.location && (
+                      <span className="flex items-center gap-1">
+                        <MapPin className="h-3 w-3" />
+                        {service.location}
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => handleEditClick(service)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => setServiceToDelete(service)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No services in this month. Click "Apply Schedules" to create them from the recurring schedules, or "Add Service" to schedule one.
+          </p>
+        )}
+      </CardContent>
+
+      {/* Form Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingService ? 'Edit Service' : 'Add Service'}</DialogTitle>
+            <DialogDescription>
+              {editingService
+                ? 'Update the date, time or place of this service.'
+                : 'Schedule a service on any day, such as a second Sunday service or a midweek service.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveServiceMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="serviceDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="startTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start Time</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Service Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="E.g., Morning Service" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="E.g., Main Hall" {...field} value={field.value || ''} />
+                    </FormControl>
+                    <FormDescription>
+                      Shown to members next to the service time.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => handleDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveServiceMutation.isPending}>
+                  {editingService ? 'Save Changes' : 'Add Service'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!serviceToDelete} onOpenChange={(open) => !open && setServiceToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Service</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{serviceToDelete?.name}"
+              {serviceToDelete && ` on ${format(parseISO(serviceToDelete.serviceDate), 'd MMMM yyyy')}`}?
+              Members' availability for this service will also be removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => serviceToDelete && deleteServiceMutation.mutate(serviceToDelete.id)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <LoaderOverlay
+        isLoading={saveServiceMutation.isPending || deleteServiceMutation.isPending || applySchedulesMutation.isPending}
+        loadingText="Saving services..."
+      />
+    </Card>
+  );
+}
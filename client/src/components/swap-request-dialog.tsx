@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { CreateSwapRequest, RosterAssignment, Service, ServiceRole, SwapOptions } from "@shared/schema";
+import { formatServiceLabel } from "@shared/services";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChurchLoader } from "./church-loader";
+
+export type SwappableAssignment = RosterAssignment & { role: ServiceRole; service: Service };
+
+// Choice values are "substitute:<userId>" or "swap:<assignmentId>:<userId>"
+function parseChoice(choice: string): Pick<CreateSwapRequest, "replacementId" | "swapAssignmentId"> {
+  const [kind, first, second] = choice.split(":");
+  return kind === "swap"
+    ? { replacementId: Number(second), swapAssignmentId: Number(first) }
+    : { replacementId: Number(first), swapAssignmentId: null };
+}
+
+// Lets a member ask a suggested substitute or swap partner to take one of their assignments
+export function SwapRequestDialog({
+  assignment,
+  onClose,
+}: {
+  assignment: SwappableAssignment | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [choice, setChoice] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: options, isLoading } = useQuery<SwapOptions>({
+    queryKey: ["/api/swap-requests/options", assignment?.id],
+    queryFn: async () => {
+      const response = await fetch(`/api/swap-requests/options/${assignment!.id}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to find swap options");
+      }
+      return response.json();
+    },
+    enabled: assignment !== null,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (data: CreateSwapRequest) => {
+      return await apiRequest({
+        method: "POST",
+        data
+      }, "/api/swap-requests");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/swap-requests"] });
+      toast({
+        title: "Success",
+        description: "Your request has been sent",
+      });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setChoice("");
+    setReason("");
+    onClose();
+  };
+
+  const handleSubmit = () => {
+    if (!assignment || !choice) return;
+    requestMutation.mutate({
+      assignmentId: assignment.id,
+      ...parseChoice(choice),
+      reason: reason.trim() || null,
+    });
+  };
+
+  const hasOptions = options && (options.substitutes.length > 0 || options.swaps.length > 0);
+
+  return (
+    <Dialog open={assignment !== null} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Find Cover</DialogTitle>
+          <DialogDescription>
+            {assignment && (
+              <>
+                {assignment.role.name} on {format(parseISO(assignment.service.serviceDate), "EEEE d MMMM")},{" "}
+                {formatServiceLabel(assignment.service)}. The person you choose has to accept before
+                the roster changes.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <ChurchLoader type="church" size="md" />
+          </div>
+        ) : !hasOptions ? (
+          <p className="text-sm text-muted-foreground py-2">
+            Nobody else is available and qualified for this role. Please contact the coordinator.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Who should take your place?</Label>
+              <Select value={choice} onValueChange={setChoice}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.substitutes.length > 0 && (
+                    <SelectGroup>
+                      <SelectLabel>Substitute</SelectLabel>
+                      {options.substitutes.map(member => (
+                        <SelectItem key={member.id} value={`substitute:${member.id}`}>
+                          {member.firstName} {member.lastName}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  )}
+                  {options.swaps.length > 0 && (
+                    <SelectGroup>
+                      <SelectLabel>Swap (you take their place in return)</SelectLabel>
+                      {options.swaps.map(swap => (
+                        <SelectItem key={swap.assignmentId} value={`swap:${swap.assignmentId}:${swap.user.id}`}>
+                          {swap.user.firstName} {swap.user.lastName} – {swap.role.name},{" "}
+                          {format(parseISO(swap.service.serviceDate), "d MMM")} {formatServiceLabel(swap.service)}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="swap-reason">Message (optional)</Label>
+              <Textarea
+                id="swap-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={500}
+                placeholder="e.g. Away for a family wedding"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!choice || requestMutation.isPending}>
+            {requestMutation.isPending ? "Sending..." : "Send Request"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { SwapRequestDetails } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChurchLoader } from "./church-loader";
+import { SwapStatusBadge, describeSwapRequest, invalidateSwapQueries } from "./swap-requests-panel";
+
+const memberName = (member: SwapRequestDetails["requester"]) =>
+  member ? `${member.firstName} ${member.lastName}` : "Removed member";
+
+// Accepted swap requests waiting for approval, and the history of all requests
+export function SwapRequestsManager() {
+  const { toast } = useToast();
+
+  const { data: requests = [], isLoading } = useQuery<SwapRequestDetails[]>({
+    queryKey: ["/api/admin/swap-requests"],
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ id, approve }: { id: number; approve: boolean }) => {
+      return await apiRequest({
+        method: "POST",
+        data: { approve }
+      }, `/api/admin/swap-requests/${id}/decide`);
+    },
+    onSuccess: (_data, { approve }) => {
+      invalidateSwapQueries();
+      toast({
+        title: "Success",
+        description: approve ? "Swap approved and roster updated" : "Swap request rejected",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const awaitingApproval = requests.filter(r => r.status === "accepted");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Swap Requests</CardTitle>
+        <CardDescription>
+          Changes members have agreed between themselves for finalized rosters.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <ChurchLoader type="church" size="md" />
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No swap requests yet.</p>
+        ) : (
+          <>
+            {awaitingApproval.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Waiting for approval</h4>
+                {awaitingApproval.map(request => (
+                  <div key={request.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3 text-sm">
+                    <div>
+                      <p>
+                        {memberName(request.replacement)} takes {describeSwapRequest(request)} from{" "}
+                        {memberName(request.requester)}
+                      </p>
+                      {request.swapService && (
+                        <p className="text-muted-foreground">
+                          Swap: {memberName(request.requester)} takes their place on {format(parseISO(request.swapService.serviceDate), "EEE d MMM")}
+                        </p>
+                      )}
+                      {request.reason && <p className="text-muted-foreground">"{request.reason}"</p>}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => decideMutation.mutate({ id: request.id, approve: false })}
+                        disabled={decideMutation.isPending}
+                      >
+                        Reject
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => decideMutation.mutate({ id: request.id, approve: true })}
+                        disabled={decideMutation.isPending}
+                      >
+                        Approve
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Requested</TableHead>
+                    <TableHead>Assignment</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.map(request => (
+                    <TableRow key={request.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(request.createdAt), "d MMM yyyy")}
+                      </TableCell>
+                      <TableCell>
+                        {describeSwapRequest(request)}
+                        {request.swapAssignmentId !== null && " (swap)"}
+                      </TableCell>
+                      <TableCell>{memberName(request.requester)}</TableCell>
+                      <TableCell>{memberName(request.replacement)}</TableCell>
+                      <TableCell><SwapStatusBadge status={request.status} /></TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
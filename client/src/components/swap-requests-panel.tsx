@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { SwapRequestDetails, SwapRequestStatus } from "@shared/schema";
+import { formatServiceLabel } from "@shared/services";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeftRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { SwapRequestDialog, SwappableAssignment } from "./swap-request-dialog";
+
+export const SWAP_STATUS_LABELS: Record<SwapRequestStatus, string> = {
+  pending: "Waiting for reply",
+  accepted: "Waiting for approval",
+  approved: "Done",
+  declined: "Declined",
+  rejected: "Not approved",
+  cancelled: "Cancelled",
+};
+
+export function SwapStatusBadge({ status }: { status: string }) {
+  const label = SWAP_STATUS_LABELS[status as SwapRequestStatus] ?? status;
+  const variant = status === "approved" ? "default"
+    : status === "pending" || status === "accepted" ? "secondary"
+    : "outline";
+  return <Badge variant={variant}>{label}</Badge>;
+}
+
+// e.g. "Sound on Sun 6 Apr, 10:00am Sunday Service"
+export function describeSwapRequest(request: SwapRequestDetails): string {
+  const when = request.service
+    ? `${format(parseISO(request.service.serviceDate), "EEE d MMM")}, ${formatServiceLabel(request.service)}`
+    : "a removed service";
+  return `${request.role?.name ?? "Unknown role"} on ${when}`;
+}
+
+// Refreshes every view of the roster after an assignment changes hands
+export function invalidateSwapQueries() {
+  queryClient.invalidateQueries({ queryKey: ["/api/swap-requests"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/swap-requests"] });
+  queryClient.invalidateQueries({
+    predicate: query => String(query.queryKey[0]).startsWith("/api/finalized-roster"),
+  });
+  queryClient.invalidateQueries({ queryKey: ["/api/roster-builder/services"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/my-schedule"] });
+}
+
+// The signed-in member's upcoming assignments in a finalized month, with the
+// swap requests they have made or been asked to cover
+export function SwapRequestsPanel({ assignments }: { assignments: SwappableAssignment[] }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [coverFor, setCoverFor] = useState<SwappableAssignment | null>(null);
+
+  const { data: requests = [] } = useQuery<SwapRequestDetails[]>({
+    queryKey: ["/api/swap-requests"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ id, accept }: { id: number; accept: boolean }): Promise<SwapRequestDetails> => {
+      return await apiRequest({
+        method: "POST",
+        data: { accept }
+      }, `/api/swap-requests/${id}/respond`);
+    },
+    onSuccess: (request) => {
+      invalidateSwapQueries();
+      toast({
+        title: "Success",
+        description: request.status === "approved"
+          ? "The roster has been updated"
+          : request.status === "accepted"
+            ? "Thanks! A coordinator will confirm the change"
+            : "Request declined",
+      });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest({
+        method: "POST"
+      }, `/api/swap-requests/${id}/cancel`);
+    },
+    onSuccess: () => {
+      invalidateSwapQueries();
+      toast({
+        title: "Success",
+        description: "Request cancelled",
+      });
+    },
+    onError,
+  });
+
+  const incoming = requests.filter(r => r.replacementId === user?.id && r.status === "pending");
+  const outgoing = requests.filter(r => r.requesterId === user?.id);
+  const openAssignmentIds = new Set(
+    outgoing.filter(r => r.status === "pending" || r.status === "accepted").map(r => r.assignmentId)
+  );
+
+  if (assignments.length === 0 && incoming.length === 0 && outgoing.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ArrowLeftRight className="h-5 w-5 text-primary" />
+          Can't Make It?
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {incoming.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Asked to cover</h4>
+            {incoming.map(request => (
+              <div key={request.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+                <div className="text-sm">
+                  <p>
+                    <span className="font-medium">
+                      {request.requester?.firstName} {request.requester?.lastName}
+                    </span>{" "}
+                    asks you to take {describeSwapRequest(request)}
+                  </p>
+                  {request.swapService && (
+                    <p className="text-muted-foreground">
+                      They will take your place on {format(parseISO(request.swapService.serviceDate), "EEE d MMM")},{" "}
+                      {formatServiceLabel(request.swapService)}
+                    </p>
+                  )}
+                  {request.reason && <p className="text-muted-foreground">"{request.reason}"</p>}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => respondMutation.mutate({ id: request.id, accept: false })}
+                    disabled={respondMutation.isPending}
+                  >
+                    Decline
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => respondMutation.mutate({ id: request.id, accept: true })}
+                    disabled={respondMutation.isPending}
+                  >
+                    Accept
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {assignments.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Your assignments this month</h4>
+            {assignments.map(assignment => (
+              <div key={assignment.id} className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm">
+                <span>
+                  <span className="font-medium">{assignment.role.name}</span>{" "}
+                  on {format(parseISO(assignment.service.serviceDate), "EEE d MMM")}, {formatServiceLabel(assignment.service)}
+                </span>
+                {openAssignmentIds.has(assignment.id) ? (
+                  <Badge variant="secondary">Cover requested</Badge>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => setCoverFor(assignment)}>
+                    Find Cover
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {outgoing.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Your requests</h4>
+            {outgoing.map(request => (
+              <div key={request.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3 text-sm">
+                <span>
+                  {describeSwapRequest(request)} to{" "}
+                  {request.replacement?.firstName} {request.replacement?.lastName}
+                </span>
+                <div className="flex items-center gap-2">
+                  <SwapStatusBadge status={request.status} />
+                  {(request.status === "pending" || request.status === "accepted") && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => cancelMutation.mutate(request.id)}
+                      disabled={cancelMutation.isPending}
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <SwapRequestDialog assignment={coverFor} onClose={() => setCoverFor(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CreateTimeAway, CreatedTimeAway, TimeAway, TimeAwayConflict, TimeAwayEntry } from "@shared/schema";
+import { fromDateKey } from "@shared/dates";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// e.g. "3 Jan 2026 - 24 Jan 2026"
+export function formatTimeAwayRange(entry: Pick<TimeAway, "startDate" | "endDate">): string {
+  const from = format(fromDateKey(entry.startDate), "d MMM yyyy");
+  const to = format(fromDateKey(entry.endDate), "d MMM yyyy");
+  return from === to ? from : `${from} - ${to}`;
+}
+
+// e.g. "Sun 4 Jan, Morning Service (Sound)"
+export function formatTimeAwayConflicts(conflicts: TimeAwayConflict[]): string {
+  return conflicts
+    .map(conflict => `${format(fromDateKey(conflict.serviceDate), "EEE d MMM")}, ${conflict.service} (${conflict.roleName})`)
+    .join("; ");
+}
+
+// Refreshes everything time away changes: the lists, answers and the roster builder
+export function invalidateTimeAwayQueries() {
+  queryClient.invalidateQueries({
+    predicate: query => {
+      const key = String(query.queryKey[0]);
+      return key.startsWith("/api/time-away") ||
+        key.startsWith("/api/admin/time-away") ||
+        key.startsWith("/api/availability") ||
+        key.startsWith("/api/my-schedule") ||
+        key.startsWith("/api/roster-builder/services");
+    },
+  });
+}
+
+// The signed-in member's upcoming time away, with a form to add more
+export function TimeAwayDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: entries = [] } = useQuery<TimeAwayEntry[]>({
+    queryKey: ["/api/time-away"],
+    enabled: open,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateTimeAway): Promise<CreatedTimeAway> => {
+      return await apiRequest({
+        method: "POST",
+        data
+      }, "/api/time-away");
+    },
+    onSuccess: (entry) => {
+      invalidateTimeAwayQueries();
+      setStartDate("");
+      setEndDate("");
+      setReason("");
+      toast({
+        title: "Success",
+        description: "Time away saved. You've been marked unavailable for those dates in months that are still open." +
+          (entry.conflicts.length > 0
+            ? ` You're already rostered on ${formatTimeAwayConflicts(entry.conflicts)}. Please ask the coordinator to find a replacement.`
+            : ""),
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest({
+        method: "DELETE"
+      }, `/api/time-away/${id}`);
+    },
+    onSuccess: () => {
+      invalidateTimeAwayQueries();
+      toast({
+        title: "Success",
+        description: "Time away removed",
+      });
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Time Away</DialogTitle>
+          <DialogDescription>
+            You'll be marked unavailable for every service while you're away and won't be rostered.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No time away coming up.</p>
+          ) : (
+            <div className="space-y-2">
+              {entries.map(entry => (
+                <div key={entry.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                  <div>
+                    <p className="font-medium">{formatTimeAwayRange(entry)}</p>
+                    {entry.reason && <p className="text-muted-foreground">{entry.reason}</p>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => deleteMutation.mutate(entry.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-4 rounded-md border p-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="away-start">From</Label>
+                <Input id="away-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="away-end">To</Label>
+                <Input id="away-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="away-reason">Reason (optional)</Label>
+              <Input id="away-reason" value={reason} maxLength={200} onChange={(e) => setReason(e.target.value)} />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => createMutation.mutate({ startDate, endDate, reason })}
+                disabled={createMutation.isPending || !startDate || !endDate}
+              >
+                Add Time Away
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CreateTimeAway, CreatedTimeAway, DirectoryEntry, TimeAwayEntry } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChurchLoader } from "./church-loader";
+import { formatTimeAwayConflicts, formatTimeAwayRange, invalidateTimeAwayQueries } from "./time-away-dialog";
+
+// Everyone's upcoming time away, and entering it on a member's behalf
+export function TimeAwayManager() {
+  const { toast } = useToast();
+  const [userId, setUserId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: entries = [], isLoading } = useQuery<TimeAwayEntry[]>({
+    queryKey: ["/api/admin/time-away"],
+  });
+
+  const { data: members = [] } = useQuery<DirectoryEntry[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateTimeAway): Promise<CreatedTimeAway> => {
+      return await apiRequest({
+        method: "POST",
+        data
+      }, "/api/time-away");
+    },
+    onSuccess: (entry) => {
+      invalidateTimeAwayQueries();
+      setStartDate("");
+      setEndDate("");
+      setReason("");
+      toast({
+        title: "Success",
+        description: `${entry.member.firstName} ${entry.member.lastName} marked away ${formatTimeAwayRange(entry)}` +
+          (entry.conflicts.length > 0
+            ? `. Still rostered on ${formatTimeAwayConflicts(entry.conflicts)}; move these assignments.`
+            : ""),
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest({
+        method: "DELETE"
+      }, `/api/time-away/${id}`);
+    },
+    onSuccess: () => {
+      invalidateTimeAwayQueries();
+      toast({
+        title: "Success",
+        description: "Time away removed",
+      });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Time Away</CardTitle>
+        <CardDescription>
+          Members away on a date are answered unavailable and can't be rostered on it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2 md:grid-cols-4 items-end">
+          <div className="space-y-2">
+            <Label>Member</Label>
+            <Select value={userId} onValueChange={setUserId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a member" />
+              </SelectTrigger>
+              <SelectContent>
+                {members.map(member => (
+                  <SelectItem key={member.id} value={member.id.toString()}>{member.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="admin-away-start">From</Label>
+            <Input id="admin-away-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="admin-away-end">To</Label>
+            <Input id="admin-away-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="admin-away-reason">Reason (optional)</Label>
+            <Input id="admin-away-reason" value={reason} maxLength={200} onChange={(e) => setReason(e.target.value)} />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button
+            onClick={() => createMutation.mutate({ userId: parseInt(userId), startDate, endDate, reason })}
+            disabled={createMutation.isPending || !userId || !startDate || !endDate}
+          >
+            Add Time Away
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <ChurchLoader type="calendar" size="md" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No one has time away coming up.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell>{entry.member.firstName} {entry.member.lastName}</TableCell>
+                  <TableCell>{formatTimeAwayRange(entry)}</TableCell>
+                  <TableCell className="text-muted-foreground">{entry.reason ?? ""}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => deleteMutation.mutate(entry.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
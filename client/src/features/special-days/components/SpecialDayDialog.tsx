@@ -15,6 +15,7 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { format } from "date-fns";
+import { fromDateKey } from "@shared/dates";
 import { CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useEffect, useState } from "react";
@@ -51,7 +52,7 @@ export function SpecialDayDialog({
     if (specialDay) {
       setName(specialDay.name);
       setDescription(specialDay.description || "");
-      setDate(new Date(specialDay.date));
+      setDate(fromDateKey(specialDay.date));
       setColor(specialDay.color);
     } else {
       // Reset form for new special day
@@ -1,5 +1,6 @@
 import { Button } from "@/components/ui/button";
 import { SpecialDay } from "@shared/schema";
+import { fromDateKey } from "@shared/dates";
 import { format } from "date-fns";
 import { Edit, Trash2 } from "lucide-react";
 
@@ -32,7 +33,7 @@ export function SpecialDaysTable({ specialDays, onEdit, onDelete }: SpecialDaysT
         <tbody>
           {specialDays.map((specialDay) => (
             <tr key={specialDay.id} className="border-b">
-              <td className="p-3">{format(new Date(specialDay.date), "d MMMM yyyy")}</td>
+              <td className="p-3">{format(fromDateKey(specialDay.date), "d MMMM yyyy")}</td>
               <td className="p-3 font-medium">{specialDay.name}</td>
               <td className="p-3 text-muted-foreground">{specialDay.description || "-"}</td>
               <td className="p-3">
@@ -3,6 +3,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { SpecialDay } from '@shared/schema';
+import { parseDateKey, toDateKey } from '@shared/dates';
 import { format } from 'date-fns';
 
 /**
@@ -53,8 +54,8 @@ export function useSpecialDays() {
     const month = selectedMonth.getMonth();
     
     return allSpecialDays.filter(day => {
-      const dayDate = new Date(day.date);
-      return dayDate.getFullYear() === year && dayDate.getMonth() === month;
+      const dayDate = parseDateKey(day.date);
+      return dayDate.year === year && dayDate.month === month + 1;
     });
   })();
 
@@ -137,12 +138,7 @@ export function useSpecialDays() {
   });
 
   // Helper function to format the date for API submission
-  const formatDateForApi = (date: Date): string => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  };
+  const formatDateForApi = (date: Date): string => toDateKey(date);
 
   // Return the hook API
   return {
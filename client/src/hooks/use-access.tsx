@@ -0,0 +1,35 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  AccessSummary,
+  Permission,
+  canOpenAdminPanel,
+  canRosterServiceRole,
+  hasPermission,
+} from "@shared/permissions";
+import { useAuth } from "./use-auth";
+
+// Roles and permissions of the signed-in user. Only gates what the UI shows;
+// the server enforces the same permissions on every request.
+export function useAccess() {
+  const { user } = useAuth();
+
+  const { data: access, isLoading } = useQuery<AccessSummary>({
+    queryKey: ["/api/user/access", user?.id],
+    queryFn: async () => {
+      const response = await fetch("/api/user/access", { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch access");
+      }
+      return response.json();
+    },
+    enabled: !!user,
+  });
+
+  return {
+    access,
+    isLoading,
+    can: (permission: Permission) => hasPermission(access, permission),
+    canRosterRole: (serviceRoleId: number) => canRosterServiceRole(access, serviceRoleId),
+    canOpenAdmin: canOpenAdminPanel(access),
+  };
+}
@@ -1,18 +1,28 @@
 import { createContext, ReactNode, useContext } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { User, UpdatePin } from "@shared/schema";
+import { SafeUser, UpdatePin } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
-  user: User | null;
+  user: SafeUser | null;
   isLoading: boolean;
   error: Error | null;
-  login: (id: number, pin: string) => Promise<User>;
+  login: (id: number, pin: string) => Promise<SafeUser>;
   logout: () => Promise<void>;
   changePin: (data: UpdatePin) => Promise<void>;
 };
 
+// Lockout and throttling responses carry their own explanation as JSON
+function getLoginErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    return JSON.parse(body).message || "You put the wrong PIN";
+  } catch {
+    return "You put the wrong PIN";
+  }
+}
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -22,7 +32,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     data: user,
     error,
     isLoading,
-  } = useQuery<User | null, Error>({
+  } = useQuery<SafeUser | null, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
@@ -34,13 +44,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         data: { id, pin } 
       });
     },
-    onSuccess: (user: User) => {
+    onSuccess: (user: SafeUser) => {
       queryClient.setQueryData(["/api/user"], user);
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Login failed",
-        description: "You put the wrong PIN",
+        description: getLoginErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -69,8 +79,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         data: data
       });
     },
-    onSuccess: (user: User) => {
+    onSuccess: (user: SafeUser) => {
       queryClient.setQueryData(["/api/user"], user);
+      // Everything else was refused until the PIN was changed
+      queryClient.invalidateQueries({ predicate: query => query.queryKey[0] !== "/api/user" });
       toast({
         title: "PIN updated",
         description: "Your PIN has been successfully changed",
@@ -10,12 +10,14 @@ import { Link, useLocation } from "wouter";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import {
   Card,
   CardContent,
@@ -30,7 +32,8 @@ import {
   TabsTrigger,
 } from "@/components/ui/tabs";
 import { LoaderOverlay } from "@/components/loader-overlay";
-import { updatePinSchema, updateProfileSchema, type UpdateProfile } from "@shared/schema";
+import { CalendarLinksCard } from "@/components/calendar-links-card";
+import { updatePinSchema, updateProfileSchema, type UpdateProfile, type UpdateContact } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { ChevronLeft } from "lucide-react";
 
@@ -48,6 +51,16 @@ const changePinFormSchema = updatePinSchema.extend({
 type ChangePinFormValues = z.infer<typeof changePinFormSchema>;
 type ProfileFormValues = z.infer<typeof updateProfileSchema>;
 
+// The form keeps blank strings; the server turns them into cleared fields
+const contactFormSchema = z.object({
+  email: z.union([z.literal(""), z.string().trim().email("Enter a valid email address")]),
+  phone: z.string().max(30, "Phone number is too long"),
+  notifyRosterEmails: z.boolean(),
+  notifyAvailabilityReminders: z.boolean(),
+});
+
+type ContactFormValues = z.infer<typeof contactFormSchema>;
+
 export default function AccountPage() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -64,6 +77,17 @@ export default function AccountPage() {
     },
   });
 
+  // Contact details form
+  const contactForm = useForm<ContactFormValues>({
+    resolver: zodResolver(contactFormSchema),
+    defaultValues: {
+      email: user?.email || "",
+      phone: user?.phone || "",
+      notifyRosterEmails: user?.notifyRosterEmails ?? true,
+      notifyAvailabilityReminders: user?.notifyAvailabilityReminders ?? true,
+    },
+  });
+
   // PIN change form
   const pinForm = useForm<ChangePinFormValues>({
     resolver: zodResolver(changePinFormSchema),
@@ -99,6 +123,30 @@ export default function AccountPage() {
     },
   });
 
+  // Contact details mutation
+  const contactMutation = useMutation({
+    mutationFn: async (data: UpdateContact) => {
+      return apiRequest({
+        method: "PATCH",
+        data
+      }, "/api/account/contact");
+    },
+    onSuccess: () => {
+      toast({
+        title: "Contact Details Updated",
+        description: "Your contact details have been saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update contact details.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // PIN change mutation
   const pinMutation = useMutation({
     mutationFn: async (data: ChangePinFormValues) => {
@@ -138,7 +186,11 @@ export default function AccountPage() {
     pinMutation.mutate(data);
   };
 
-  const isLoading = profileMutation.isPending || pinMutation.isPending;
+  const onContactSubmit = (data: ContactFormValues) => {
+    contactMutation.mutate(data);
+  };
+
+  const isLoading = profileMutation.isPending || contactMutation.isPending || pinMutation.isPending;
 
   return (
     <div className="container mx-auto py-8 max-w-2xl relative min-h-[calc(100vh-10rem)]">
@@ -159,9 +211,10 @@ export default function AccountPage() {
       </div>
       
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="profile">Profile</TabsTrigger>
           <TabsTrigger value="security">Security</TabsTrigger>
+          <TabsTrigger value="calendar">Calendar</TabsTrigger>
         </TabsList>
         
         <TabsContent value="profile">
@@ -224,6 +277,88 @@ export default function AccountPage() {
               </Form>
             </CardContent>
           </Card>
+
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Contact Details</CardTitle>
+              <CardDescription>
+                Used by coordinators to send you the roster and get in touch about services.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...contactForm}>
+                <form onSubmit={contactForm.handleSubmit(onContactSubmit)} className="space-y-4">
+                  <FormField
+                    control={contactForm.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input type="email" placeholder="name@example.com" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={contactForm.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Phone</FormLabel>
+                        <FormControl>
+                          <Input type="tel" placeholder="Phone number" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={contactForm.control}
+                    name="notifyRosterEmails"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                        <div className="space-y-1">
+                          <FormLabel>Roster emails</FormLabel>
+                          <FormDescription>
+                            Receive the monthly roster, and your dates when a roster is finalized or changed.
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={contactForm.control}
+                    name="notifyAvailabilityReminders"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                        <div className="space-y-1">
+                          <FormLabel>Availability reminders</FormLabel>
+                          <FormDescription>
+                            Get an email before the deadline if you haven't given your availability for next month.
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button type="submit" className="w-full">
+                    Save Contact Details
+                  </Button>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
         </TabsContent>
         
         <TabsContent value="security">
@@ -291,6 +426,10 @@ export default function AccountPage() {
             </CardContent>
           </Card>
         </TabsContent>
+        
+        <TabsContent value="calendar">
+          <CalendarLinksCard />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -51,29 +51,59 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-import { User, SpecialDay, CustomInitials, UpdateMemberName, updateMemberNameSchema } from "@shared/schema";
+import { useAccess } from "@/hooks/use-access";
+import { MEMBER_ROLE_LABELS, MemberRoleName } from "@shared/permissions";
+import { SafeUser, MemberRole, SpecialDay, SpecialDayServiceEffect, Settings as AppSettings, UpdateSettings, CustomInitials, UpdateMemberName, updateMemberNameSchema, SendRoster, RosterRecipients, RosterDeliverySummary } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Trash2, Mail, Settings, Calendar as CalendarIcon, Plus, Edit, Star, UserCog, Users, CalendarRange } from "lucide-react";
+import { Trash2, Mail, Settings, Calendar as CalendarIcon, Plus, Edit, Star, UserCog, Users, CalendarRange, KeyRound, ShieldCheck, History } from "lucide-react";
 import { ChurchLoader } from "@/components/church-loader";
 import { LoaderOverlay } from "@/components/loader-overlay";
 import { RosterBuilder } from "@/components/roster-builder";
 import { ServiceRolesManager } from "@/components/service-roles-manager";
+import { QualificationsMatrix } from "@/components/qualifications-matrix";
+import { SwapRequestsManager } from "@/components/swap-requests-manager";
+import { ServicesManager } from "@/components/services-manager";
+import { ServiceSchedulesManager } from "@/components/service-schedules-manager";
+import { LockedAccountsCard } from "@/components/locked-accounts-card";
+import { ResetPinDialog } from "@/components/reset-pin-dialog";
+import { MemberContactDialog } from "@/components/member-contact-dialog";
+import { OutboxPanel } from "@/components/outbox-panel";
+import { AvailabilityDeadlinesManager } from "@/components/availability-deadlines-manager";
+import { TimeAwayManager } from "@/components/time-away-manager";
+import { AvailabilityResponsesDashboard } from "@/components/availability-responses-dashboard";
+import { MemberRolesDialog } from "@/components/member-roles-dialog";
+import { AuditLogViewer } from "@/components/audit-log-viewer";
+import { formatServiceTime } from "@shared/services";
+import { fromDateKey, parseDateKey, toDateKey } from "@shared/dates";
 
 // Form schema for special days
 const specialDaySchema = z.object({
   date: z.coerce.date(),
   name: z.string().min(1, "Name is required"),
   description: z.string().optional(),
-  color: z.string().default("#FFD700")
+  color: z.string().default("#FFD700"),
+  serviceEffect: z.enum(["none", "cancel", "add"]).default("none"),
+  serviceStartTime: z.string().optional()
+}).refine(data => data.serviceEffect !== "add" || !!data.serviceStartTime, {
+  message: "Start time is required for an added service",
+  path: ["serviceStartTime"]
 });
 
 type SpecialDayFormValues = z.infer<typeof specialDaySchema>;
 
+// IANA timezones the browser knows, keeping the saved one even if it is not listed
+function timeZoneOptions(current: string): string[] {
+  const zones = Intl.supportedValuesOf("timeZone");
+  return zones.includes(current) ? zones : [current, ...zones];
+}
+
 // Component to display the list of special days
 function SpecialDaysList({ 
   onEdit, 
@@ -129,8 +159,8 @@ function SpecialDaysList({
     const month = selectedMonth.getMonth();
     
     return allSpecialDays.filter(day => {
-      const dayDate = new Date(day.date);
-      return dayDate.getFullYear() === year && dayDate.getMonth() === month;
+      const dayDate = parseDateKey(day.date);
+      return dayDate.year === year && dayDate.month === month + 1;
     });
   }, [allSpecialDays, viewMode, selectedMonth]);
 
@@ -233,9 +263,17 @@ function SpecialDaysList({
           <tbody>
             {specialDays.map((specialDay) => (
               <tr key={specialDay.id} className="border-b">
-                <td className="p-3">{format(new Date(specialDay.date), "d MMMM yyyy")}</td>
+                <td className="p-3">{format(fromDateKey(specialDay.date), "d MMMM yyyy")}</td>
                 <td className="p-3 font-medium">{specialDay.name}</td>
-                <td className="p-3 text-muted-foreground">{specialDay.description || "-"}</td>
+                <td className="p-3 text-muted-foreground">
+                  {specialDay.description || "-"}
+                  {specialDay.serviceEffect === "cancel" && (
+                    <Badge variant="outline" className="ml-2">No services</Badge>
+                  )}
+                  {specialDay.serviceEffect === "add" && specialDay.serviceStartTime && (
+                    <Badge variant="outline" className="ml-2">Extra service {formatServiceTime(specialDay.serviceStartTime)}</Badge>
+                  )}
+                </td>
                 <td className="p-3">
                   <div className="flex items-center">
                     <div 
@@ -288,16 +326,20 @@ function SpecialDayDialog({
   
   const defaultValues = isEditing 
     ? {
-        date: new Date(specialDay.date),
+        date: fromDateKey(specialDay.date),
         name: specialDay.name,
         description: specialDay.description || '',
-        color: specialDay.color
+        color: specialDay.color,
+        serviceEffect: specialDay.serviceEffect as SpecialDayServiceEffect,
+        serviceStartTime: specialDay.serviceStartTime || ''
       }
     : {
         date: new Date(),
         name: '',
         description: '',
-        color: '#FFD700' // Default gold color
+        color: '#FFD700', // Default gold color
+        serviceEffect: 'none' as const,
+        serviceStartTime: ''
       };
   
   const form = useForm<SpecialDayFormValues>({
@@ -316,17 +358,13 @@ function SpecialDayDialog({
     try {
       setIsPending(true);
       
-      // Format the date for API submission and handle timezone offset
-      // Get the date parts and create a date string in YYYY-MM-DD format
-      // that doesn't get affected by timezone conversion
-      const year = data.date.getFullYear();
-      const month = String(data.date.getMonth() + 1).padStart(2, '0');
-      const day = String(data.date.getDate()).padStart(2, '0');
-      const dateString = `${year}-${month}-${day}`;
+      // Send the picked calendar day as YYYY-MM-DD so no timezone conversion can move it
+      const dateString = toDateKey(data.date);
       
       const formattedData = {
         ...data,
-        date: dateString
+        date: dateString,
+        serviceStartTime: data.serviceEffect === "add" ? data.serviceStartTime : null
       };
       
       console.log("Submitting data:", formattedData);
@@ -466,6 +504,48 @@ function SpecialDayDialog({
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="serviceEffect"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Services on This Day</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">As scheduled</SelectItem>
+                      <SelectItem value="cancel">Cancel scheduled services</SelectItem>
+                      <SelectItem value="add">Add a service</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Applies when the month's services are generated from the schedules.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            {form.watch("serviceEffect") === "add" && (
+              <FormField
+                control={form.control}
+                name="serviceStartTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Service Start Time</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            
             <FormField
               control={form.control}
               name="color"
@@ -528,7 +608,7 @@ function InitialsDialog({
 }: {
   isOpen: boolean;
   onClose: () => void;
-  member: User | null;
+  member: SafeUser | null;
   onSave: (userId: number, initials: string) => void;
 }) {
   const { toast } = useToast();
@@ -630,7 +710,7 @@ function NameDialog({
 }: {
   isOpen: boolean;
   onClose: () => void;
-  member: User | null;
+  member: SafeUser | null;
   onSave: (userId: number, firstName: string, lastName: string) => void;
 }) {
   const { toast } = useToast();
@@ -741,15 +821,26 @@ function NameDialog({
 export default function AdminPage() {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { can, canOpenAdmin, isLoading: isAccessLoading } = useAccess();
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
   const [nameFormat, setNameFormat] = useState<string>("full");
   const [initialsDialogOpen, setInitialsDialogOpen] = useState(false);
-  const [memberToEditInitials, setMemberToEditInitials] = useState<User | null>(null);
+  const [memberToEditInitials, setMemberToEditInitials] = useState<SafeUser | null>(null);
   const [nameDialogOpen, setNameDialogOpen] = useState(false);
-  const [memberToEditName, setMemberToEditName] = useState<User | null>(null);
-  const [memberToDelete, setMemberToDelete] = useState<User | null>(null);
+  const [memberToEditName, setMemberToEditName] = useState<SafeUser | null>(null);
+  const [memberToDelete, setMemberToDelete] = useState<SafeUser | null>(null);
+  const [memberToResetPin, setMemberToResetPin] = useState<SafeUser | null>(null);
+  const [memberToEditRoles, setMemberToEditRoles] = useState<SafeUser | null>(null);
+  const [memberToEditContact, setMemberToEditContact] = useState<SafeUser | null>(null);
+  const [rosterRecipients, setRosterRecipients] = useState<RosterRecipients>("address");
+  const [deliverySummary, setDeliverySummary] = useState<RosterDeliverySummary | null>(null);
   const [deadlineDay, setDeadlineDay] = useState(15);
+  const [tempPinExpiryHours, setTempPinExpiryHours] = useState(72);
+  const [swapApprovalRequired, setSwapApprovalRequired] = useState(true);
+  const [reminderDaysBefore, setReminderDaysBefore] = useState(7);
+  const [finalReminderDaysBefore, setFinalReminderDaysBefore] = useState(1);
+  const [timeZone, setTimeZone] = useState("UTC");
   const [emailAddress, setEmailAddress] = useState("");
   const [isSendingEmail, setIsSendingEmail] = useState(false);
   const [selectedMonth, setSelectedMonth] = useState<Date>(new Date());
@@ -769,7 +860,7 @@ export default function AdminPage() {
       }
       return response.json();
     },
-    enabled: !!user?.isAdmin, // Only run for admins
+    enabled: can("roster.view"),
   });
   
   // State for service roster sending
@@ -779,8 +870,14 @@ export default function AdminPage() {
   const [specialDayToDelete, setSpecialDayToDelete] = useState<SpecialDay | null>(null);
   const [showSpecialDayDialog, setShowSpecialDayDialog] = useState(false);
 
-  const { data: users, isLoading } = useQuery<User[]>({
+  const { data: users, isLoading } = useQuery<SafeUser[]>({
     queryKey: ["/api/admin/members"],
+    enabled: can("members.view"),
+  });
+
+  const { data: memberRoles = [] } = useQuery<MemberRole[]>({
+    queryKey: ["/api/admin/member-roles"],
+    enabled: can("members.view"),
   });
   
   // Sort users alphabetically with ID as tiebreaker to maintain position
@@ -793,8 +890,9 @@ export default function AdminPage() {
     });
   }, [users]);
 
-  const { data: settings } = useQuery<{ deadlineDay: number, nameFormat: string }>({
+  const { data: settings } = useQuery<AppSettings>({
     queryKey: ["/api/admin/settings"],
+    enabled: can("settings.manage"),
   });
   
   const { data: availability } = useQuery({
@@ -881,6 +979,11 @@ export default function AdminPage() {
   useEffect(() => {
     if (settings) {
       setDeadlineDay(settings.deadlineDay);
+      setTempPinExpiryHours(settings.tempPinExpiryHours);
+      setSwapApprovalRequired(settings.swapApprovalRequired);
+      setReminderDaysBefore(settings.reminderDaysBefore);
+      setFinalReminderDaysBefore(settings.finalReminderDaysBefore);
+      setTimeZone(settings.timeZone);
     }
   }, [settings]);
   
@@ -894,8 +997,7 @@ export default function AdminPage() {
       availability
         .filter(record => record.isAvailable)
         .forEach(record => {
-          const date = new Date(record.serviceDate);
-          const monthYear = format(date, 'yyyy-MM'); // Format as YYYY-MM for uniqueness
+          const monthYear = record.serviceDate.slice(0, 7); // YYYY-MM, read straight off the date key
           months.add(monthYear);
         });
       
@@ -932,8 +1034,7 @@ export default function AdminPage() {
       
       // Extract all unique months from assignments
       rosterAssignments.forEach(assignment => {
-        const date = new Date(assignment.serviceDate);
-        const monthYear = format(date, 'yyyy-MM'); // Format as YYYY-MM for uniqueness
+        const monthYear = assignment.serviceDate.slice(0, 7); // YYYY-MM, read straight off the date key
         months.add(monthYear);
       });
       
@@ -972,6 +1073,7 @@ export default function AdminPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/members"] });
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members"] });
       setFirstName("");
       setLastName("");
       toast({
@@ -997,6 +1099,7 @@ export default function AdminPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/members"] });
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members"] });
       toast({
         title: "Success",
         description: "Member removed successfully",
@@ -1012,7 +1115,7 @@ export default function AdminPage() {
   });
 
   const updateSettingsMutation = useMutation({
-    mutationFn: async (data: { deadlineDay: number }) => {
+    mutationFn: async (data: UpdateSettings) => {
       return await apiRequest({
         method: "POST",
         data
@@ -1045,6 +1148,7 @@ export default function AdminPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/members"] });
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members"] });
       setInitialsDialogOpen(false);
       setMemberToEditInitials(null);
       toast({
@@ -1072,6 +1176,7 @@ export default function AdminPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/members"] });
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members"] });
       setNameDialogOpen(false);
       setMemberToEditName(null);
       toast({
@@ -1089,7 +1194,7 @@ export default function AdminPage() {
   });
   
   // Handle edit initials
-  const handleEditInitials = (member: User) => {
+  const handleEditInitials = (member: SafeUser) => {
     setMemberToEditInitials(member);
     setInitialsDialogOpen(true);
   };
@@ -1100,7 +1205,7 @@ export default function AdminPage() {
   };
   
   // Handle edit name
-  const handleEditName = (member: User) => {
+  const handleEditName = (member: SafeUser) => {
     setMemberToEditName(member);
     setNameDialogOpen(true);
   };
@@ -1110,7 +1215,7 @@ export default function AdminPage() {
     updateNameMutation.mutate({ userId, firstName, lastName });
   };
 
-  const handleDeleteMember = (member: User) => {
+  const handleDeleteMember = (member: SafeUser) => {
     if (user && member.id === user.id) {
       toast({
         title: "Error",
@@ -1131,6 +1236,7 @@ export default function AdminPage() {
 
   const { data: formatData } = useQuery<{ format: string }>({
     queryKey: ["/api/admin/name-format"],
+    enabled: can("members.view"),
   });
 
   useEffect(() => {
@@ -1169,11 +1275,7 @@ export default function AdminPage() {
   };
 
   const sendRosterEmailMutation = useMutation({
-    mutationFn: async (data: { 
-      email: string; 
-      month: string;
-      viewType: "card" | "simple" | "roles";
-    }) => {
+    mutationFn: async (data: SendRoster): Promise<RosterDeliverySummary> => {
       const result = await apiRequest({
         method: "POST", 
         data
@@ -1185,12 +1287,23 @@ export default function AdminPage() {
       }
       return result;
     },
-    onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Roster has been sent to the specified email address",
+    onSuccess: (summary, { recipients }) => {
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0]).startsWith("/api/admin/outbox"),
       });
-      setEmailAddress("");
+      if (recipients === "address") {
+        toast({
+          title: "Success",
+          description: "Roster queued for the specified email address. Check the outbox for delivery.",
+        });
+        setEmailAddress("");
+      } else {
+        setDeliverySummary(summary);
+        toast({
+          title: "Success",
+          description: `Roster queued for ${summary.queued.length} ${summary.queued.length === 1 ? "member" : "members"}`,
+        });
+      }
     },
     onError: (error: Error) => {
       console.error("Email sending error:", error);
@@ -1256,7 +1369,7 @@ export default function AdminPage() {
   
   // Handler for sending service roster (assigned members)
   const handleSendServiceRoster = async () => {
-    if (!emailAddress) {
+    if (rosterRecipients === "address" && !emailAddress) {
       toast({
         title: "Error",
         description: "Please enter an email address",
@@ -1267,7 +1380,9 @@ export default function AdminPage() {
 
     try {
       setIsSendingRoster(true);
+      setDeliverySummary(null);
       await sendRosterEmailMutation.mutateAsync({ 
+        recipients: rosterRecipients,
         email: emailAddress,
         month: format(rosterMonth, "yyyy-MM-dd"),
         viewType: "roles" // Always use roles view for service roster
@@ -1278,7 +1393,36 @@ export default function AdminPage() {
   };
 
 
-  if (!user?.isAdmin) {
+  const roleLabels = (member: SafeUser) => {
+    if (member.isAdmin) return ["Admin"];
+    const labels = Array.from(new Set(
+      memberRoles
+        .filter(grant => grant.userId === member.id)
+        .map(grant => MEMBER_ROLE_LABELS[grant.role as MemberRoleName])
+        .filter(Boolean)
+    ));
+    return labels.length > 0 ? labels : ["Member"];
+  };
+
+  const showSettingsTab = can("settings.manage") || can("special_days.manage") || can("services.manage") || can("email.send");
+  const showMembersTab = can("members.view");
+  const showRosterTab = can("roster.view");
+  const showAuditTab = can("audit.view");
+  const defaultTab = showSettingsTab ? "settings" : showMembersTab ? "members" : showRosterTab ? "roster" : "audit";
+
+  if (isAccessLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <ChurchLoader 
+          type="users" 
+          size="lg" 
+          text="Loading admin panel..." 
+        />
+      </div>
+    );
+  }
+
+  if (!canOpenAdmin) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-center">
@@ -1309,27 +1453,42 @@ export default function AdminPage() {
       <main className="flex-1 container mx-auto px-4 py-8">
         <h1 className="text-2xl font-bold mb-6">Admin Panel</h1>
         
-        <Tabs defaultValue="settings" className="w-full mb-8">
+        <Tabs defaultValue={defaultTab} className="w-full mb-8">
           <TabsList className="w-full mb-6">
-            <TabsTrigger value="settings" className="flex-1">
-              <Settings className="h-4 w-4 mr-2" />
-              <span className="hidden md:inline">Settings & Special Days</span>
-              <span className="md:hidden">Settings</span>
-            </TabsTrigger>
-            <TabsTrigger value="members" className="flex-1">
-              <Users className="h-4 w-4 mr-2" />
-              <span className="hidden md:inline">Member Management</span>
-              <span className="md:hidden">Members</span>
-            </TabsTrigger>
-            <TabsTrigger value="roster" className="flex-1">
-              <CalendarRange className="h-4 w-4 mr-2" />
-              <span className="hidden md:inline">Roster Builder</span>
-              <span className="md:hidden">Roster</span>
-            </TabsTrigger>
+            {showSettingsTab && (
+              <TabsTrigger value="settings" className="flex-1">
+                <Settings className="h-4 w-4 mr-2" />
+                <span className="hidden md:inline">Settings & Special Days</span>
+                <span className="md:hidden">Settings</span>
+              </TabsTrigger>
+            )}
+            {showMembersTab && (
+              <TabsTrigger value="members" className="flex-1">
+                <Users className="h-4 w-4 mr-2" />
+                <span className="hidden md:inline">Member Management</span>
+                <span className="md:hidden">Members</span>
+              </TabsTrigger>
+            )}
+            {showRosterTab && (
+              <TabsTrigger value="roster" className="flex-1">
+                <CalendarRange className="h-4 w-4 mr-2" />
+                <span className="hidden md:inline">Roster Builder</span>
+                <span className="md:hidden">Roster</span>
+              </TabsTrigger>
+            )}
+            {showAuditTab && (
+              <TabsTrigger value="audit" className="flex-1">
+                <History className="h-4 w-4 mr-2" />
+                <span className="hidden md:inline">Audit Log</span>
+                <span className="md:hidden">Audit</span>
+              </TabsTrigger>
+            )}
           </TabsList>
           
+          {showSettingsTab && (
           <TabsContent value="settings" className="space-y-6">
             {/* System Settings Card */}
+            {can("settings.manage") && (
             <Card>
               <CardHeader>
                 <CardTitle>System Settings</CardTitle>
@@ -1374,11 +1533,118 @@ export default function AdminPage() {
                       ))}
                     </select>
                   </div>
+
+                  <div>
+                    <label className="text-sm font-medium">Church Timezone</label>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Decides when a day starts for deadlines, reminders and calendar feeds.
+                    </p>
+                    <select
+                      className="w-full mt-1 border rounded-md h-10 px-3"
+                      value={timeZone}
+                      onChange={(e) => {
+                        setTimeZone(e.target.value);
+                        updateSettingsMutation.mutate({ timeZone: e.target.value });
+                      }}
+                    >
+                      {timeZoneOptions(timeZone).map((zone) => (
+                        <option key={zone} value={zone}>
+                          {zone.replace(/_/g, " ")}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="text-sm font-medium">Availability Reminders</label>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Members with an email address who haven't responded for a month's services are emailed before its deadline.
+                    </p>
+                    <div className="grid grid-cols-2 gap-2">
+                      <select
+                        className="w-full mt-1 border rounded-md h-10 px-3"
+                        value={reminderDaysBefore}
+                        aria-label="First reminder"
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value);
+                          setReminderDaysBefore(value);
+                          updateSettingsMutation.mutate({ reminderDaysBefore: value });
+                        }}
+                      >
+                        <option value={0}>No first reminder</option>
+                        {[3, 5, 7, 10, 14].map((days) => (
+                          <option key={days} value={days}>
+                            First: {days} days before
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        className="w-full mt-1 border rounded-md h-10 px-3"
+                        value={finalReminderDaysBefore}
+                        aria-label="Final reminder"
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value);
+                          setFinalReminderDaysBefore(value);
+                          updateSettingsMutation.mutate({ finalReminderDaysBefore: value });
+                        }}
+                      >
+                        <option value={0}>No final reminder</option>
+                        <option value={1}>Final: the day before</option>
+                        <option value={2}>Final: 2 days before</option>
+                      </select>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="text-sm font-medium">Temporary PIN Expiry</label>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      How long a temporary PIN issued by a PIN reset can be used to log in.
+                    </p>
+                    <select
+                      className="w-full mt-1 border rounded-md h-10 px-3"
+                      value={tempPinExpiryHours}
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value);
+                        setTempPinExpiryHours(value);
+                        updateSettingsMutation.mutate({ tempPinExpiryHours: value });
+                      }}
+                    >
+                      <option value={24}>24 hours</option>
+                      <option value={48}>2 days</option>
+                      <option value={72}>3 days</option>
+                      <option value={168}>1 week</option>
+                    </select>
+                  </div>
+
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <label htmlFor="swap-approval" className="text-sm font-medium">Approve Swap Requests</label>
+                      <p className="text-sm text-muted-foreground">
+                        When on, a swap the replacement has accepted only changes the finalized roster once a coordinator approves it.
+                      </p>
+                    </div>
+                    <Switch
+                      id="swap-approval"
+                      checked={swapApprovalRequired}
+                      onCheckedChange={(checked) => {
+                        setSwapApprovalRequired(checked);
+                        updateSettingsMutation.mutate({ swapApprovalRequired: checked });
+                      }}
+                    />
+                  </div>
                 </div>
               </CardContent>
             </Card>
+            )}
+
+            {/* Services Card */}
+            {can("services.manage") && <ServicesManager />}
+
+            {/* Service Schedules Card */}
+            {can("services.manage") && <ServiceSchedulesManager />}
 
             {/* Special Sundays Card */}
+            {can("special_days.manage") && (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center justify-between">
@@ -1470,8 +1736,10 @@ export default function AdminPage() {
                 </div>
               </CardContent>
             </Card>
+            )}
 
             {/* Send Availability Card */}
+            {can("email.send") && (
             <Card>
               <CardHeader>
                 <CardTitle>Send Availability</CardTitle>
@@ -1565,10 +1833,14 @@ export default function AdminPage() {
                 </div>
               </CardContent>
             </Card>
+            )}
           </TabsContent>
+          )}
           
+          {showMembersTab && (
           <TabsContent value="members" className="space-y-6">
             {/* Add New Member Card */}
+            {can("members.manage") && (
             <Card>
               <CardHeader>
                 <CardTitle>Add New Member</CardTitle>
@@ -1599,6 +1871,7 @@ export default function AdminPage() {
                 </Button>
               </CardContent>
             </Card>
+            )}
 
             {/* Manage Members Card */}
             <Card>
@@ -1613,7 +1886,9 @@ export default function AdminPage() {
                         <th className="p-4 text-left">Name</th>
                         <th className="p-4 text-left">Initials</th>
                         <th className="p-4 text-left">Role</th>
-                        <th className="p-4 text-left">Actions</th>
+                        {(can("members.manage") || can("roles.manage")) && (
+                          <th className="p-4 text-left">Actions</th>
+                        )}
                       </tr>
                     </thead>
                     <tbody>
@@ -1626,10 +1901,31 @@ export default function AdminPage() {
                             {member.initials || "N/A"}
                           </td>
                           <td className="p-4">
-                            {member.isAdmin ? "Admin" : "Member"}
+                            {roleLabels(member).join(", ")}
+                            {member.pinExpiresAt && (
+                              <span
+                                className="block text-xs text-muted-foreground"
+                                title={`Reset by ${sortedUsers.find(u => u.id === member.pinResetBy)?.firstName ?? "an admin"}`}
+                              >
+                                Temporary PIN until {format(new Date(member.pinExpiresAt), "d MMM HH:mm")}
+                              </span>
+                            )}
                           </td>
+                          {(can("members.manage") || can("roles.manage")) && (
                           <td className="p-4">
                             <div className="flex space-x-2">
+                              {can("roles.manage") && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  title="Edit Roles"
+                                  onClick={() => setMemberToEditRoles(member)}
+                                >
+                                  <ShieldCheck className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {can("members.manage") && (
+                              <>
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -1646,6 +1942,22 @@ export default function AdminPage() {
                               >
                                 <Edit className="h-4 w-4" />
                               </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Contact Details"
+                                onClick={() => setMemberToEditContact(member)}
+                              >
+                                <Mail className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Reset PIN"
+                                onClick={() => setMemberToResetPin(member)}
+                              >
+                                <KeyRound className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -1656,8 +1968,11 @@ export default function AdminPage() {
                               >
                                 <Trash2 className="h-4 w-4" />
                               </Button>
+                              </>
+                              )}
                             </div>
                           </td>
+                          )}
                         </tr>
                       ))}
                     </tbody>
@@ -1665,33 +1980,80 @@ export default function AdminPage() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Locked Accounts Card */}
+            {can("members.manage") && <LockedAccountsCard members={sortedUsers} />}
           </TabsContent>
+          )}
           
+          {showRosterTab && (
           <TabsContent value="roster" className="space-y-6">
             {/* Service Roles Manager */}
-            <ServiceRolesManager />
+            {can("service_roles.manage") && <ServiceRolesManager />}
             
+            {/* Member-role qualifications */}
+            {can("service_roles.manage") && <QualificationsMatrix />}
+            
+            {/* Per-month availability deadlines and locks */}
+            {/* Who has answered for the month */}
+            {can("availability.manage") && <AvailabilityResponsesDashboard />}
+
+            {can("availability.manage") && <AvailabilityDeadlinesManager />}
+
+            {/* Members' time away */}
+            {can("availability.manage") && <TimeAwayManager />}
+
             {/* Roster Builder */}
             <RosterBuilder />
             
+            {/* Swap requests for finalized rosters */}
+            {can("roster.finalize") && <SwapRequestsManager />}
+            
             {/* Send Roster Card */}
+            {can("email.send") && (
             <Card>
               <CardHeader>
                 <CardTitle>Send Service Roster</CardTitle>
                 <CardDescription>
-                  Send the actual service roster (assigned members) to the specified email address
+                  Send the actual service roster (assigned members) to an email address or straight to members
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="space-y-2">
-                  <label className="text-sm font-medium">Email Address</label>
+                  <label className="text-sm font-medium">Send To</label>
+                  <Select
+                    value={rosterRecipients}
+                    onValueChange={(value) => setRosterRecipients(value as RosterRecipients)}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="address">One email address</SelectItem>
+                      <SelectItem value="assigned">All assigned members</SelectItem>
+                      <SelectItem value="everyone">Everyone</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  {rosterRecipients === "address" && (
+                    <label className="text-sm font-medium">Email Address</label>
+                  )}
                   <div className="flex gap-2">
-                    <Input
-                      type="email"
-                      placeholder="Enter email address"
-                      value={emailAddress}
-                      onChange={(e) => setEmailAddress(e.target.value)}
-                    />
+                    {rosterRecipients === "address" ? (
+                      <Input
+                        type="email"
+                        placeholder="Enter email address"
+                        value={emailAddress}
+                        onChange={(e) => setEmailAddress(e.target.value)}
+                      />
+                    ) : (
+                      <p className="flex-1 text-sm text-muted-foreground self-center">
+                        Each member gets their own copy. Members without an email address or who
+                        have turned off roster emails are skipped.
+                      </p>
+                    )}
                     <Button
                       onClick={handleSendServiceRoster}
                       disabled={isSendingRoster}
@@ -1741,9 +2103,38 @@ export default function AdminPage() {
                     </div>
                   </div>
                 </div>
+
+                {deliverySummary && (
+                  <div className="rounded-md border p-3 text-sm space-y-2">
+                    <p className="font-medium">
+                      Queued {deliverySummary.queued.length}, skipped {deliverySummary.skipped.length}.
+                      Delivery progress is shown in the outbox.
+                    </p>
+                    {deliverySummary.skipped.length > 0 && (
+                      <ul className="text-muted-foreground">
+                        {deliverySummary.skipped.map(recipient => (
+                          <li key={recipient.name}>
+                            {recipient.name}: {recipient.reason}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
+            )}
+
+            {/* Email delivery status */}
+            {can("email.send") && <OutboxPanel />}
           </TabsContent>
+          )}
+
+          {showAuditTab && (
+          <TabsContent value="audit" className="space-y-6">
+            <AuditLogViewer members={sortedUsers} />
+          </TabsContent>
+          )}
         </Tabs>
       </main>
 
@@ -1767,6 +2158,25 @@ export default function AdminPage() {
         </AlertDialogContent>
       </AlertDialog>
       
+      {/* Reset PIN Dialog */}
+      <ResetPinDialog
+        member={memberToResetPin}
+        onClose={() => setMemberToResetPin(null)}
+      />
+
+      {/* Member Contact Dialog */}
+      <MemberContactDialog
+        member={memberToEditContact}
+        onClose={() => setMemberToEditContact(null)}
+      />
+
+      {/* Member Roles Dialog */}
+      <MemberRolesDialog
+        member={memberToEditRoles}
+        memberRoles={memberRoles}
+        onClose={() => setMemberToEditRoles(null)}
+      />
+      
       {/* Initials Edit Dialog */}
       <InitialsDialog 
         isOpen={initialsDialogOpen}
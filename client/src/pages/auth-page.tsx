@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { User } from "@shared/schema";
+import { DirectoryEntry } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
 import { UserCircle2, Lock } from "lucide-react";
 import { ChurchLoader } from "@/components/church-loader";
@@ -22,22 +22,17 @@ export default function AuthPage() {
   const [isLoggingIn, setIsLoggingIn] = useState(false);
   const pinInputRef = useRef<HTMLInputElement>(null);
 
-  const { data: users, isLoading } = useQuery<User[]>({
+  const { data: users, isLoading } = useQuery<DirectoryEntry[]>({
     queryKey: ["/api/users"],
   });
 
-  // Sort users alphabetically by lastName, then firstName
-  const sortedUsers = users?.sort((a, b) => {
-    const lastNameCompare = b.lastName.localeCompare(a.lastName);
-    if (lastNameCompare !== 0) return -lastNameCompare;
-    return -b.firstName.localeCompare(a.firstName);
-  });
+  // Sort users alphabetically by display name
+  const sortedUsers = users?.sort((a, b) => a.name.localeCompare(b.name));
 
   // Filter users based on search value
-  const filteredUsers = sortedUsers?.filter(user => {
-    const fullName = `${user.firstName} ${user.lastName}`.toLowerCase();
-    return fullName.includes(searchValue.toLowerCase());
-  });
+  const filteredUsers = sortedUsers?.filter(user =>
+    user.name.toLowerCase().includes(searchValue.toLowerCase())
+  );
 
   // Use useEffect for redirection instead of doing it during render
   useEffect(() => {
@@ -81,7 +76,7 @@ export default function AuthPage() {
 
     // If exact match is found, select that user
     const exactMatch = sortedUsers?.find(
-      user => `${user.firstName} ${user.lastName}`.toLowerCase() === value.toLowerCase()
+      user => user.name.toLowerCase() === value.toLowerCase()
     );
 
     if (exactMatch) {
@@ -96,7 +91,7 @@ export default function AuthPage() {
     if (e.key === 'Enter' && filteredUsers && filteredUsers.length > 0) {
       const firstUser = filteredUsers[0];
       setSelectedId(firstUser.id);
-      setSearchValue(`${firstUser.firstName} ${firstUser.lastName}`);
+      setSearchValue(firstUser.name);
       pinInputRef.current?.focus();
     }
   };
@@ -145,7 +140,7 @@ export default function AuthPage() {
                   {filteredUsers?.slice(0, 6).map((user) => (
                     <option
                       key={user.id}
-                      value={`${user.firstName} ${user.lastName}`}
+                      value={user.name}
                     />
                   ))}
                 </datalist>
@@ -1,25 +1,160 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { NavBar } from "@/components/nav-bar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Switch } from "@/components/ui/switch";
-import { format, startOfMonth, addMonths, eachDayOfInterval, isSunday, subMonths } from "date-fns";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { format, parseISO, startOfMonth, addMonths, subMonths } from "date-fns";
 import { getDefaultMonth } from "@/lib/date-utils";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/api";
-import { Availability, SpecialDay } from "@shared/schema";
+import { Availability, AvailabilityRule, AvailabilityStatus, DeadlineStatus, Service, ServiceRole, SpecialDay, TimeAwayEntry } from "@shared/schema";
+import { formatServiceTime } from "@shared/services";
+import { AVAILABILITY_STATUS_LABELS, availabilityStatus } from "@shared/availability";
 import { useToast } from "@/hooks/use-toast";
-import { ChevronLeft, ChevronRight, Calendar, User, Sun } from "lucide-react";
+import { ChevronLeft, ChevronRight, Calendar, User, Sun, Clock, MapPin, Lock, Hourglass, Repeat, Palmtree, MessageSquare } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import { useAccess } from "@/hooks/use-access";
 import { Badge } from "@/components/ui/badge";
 import { ChurchLoader } from "@/components/church-loader";
 import { LoaderOverlay } from "@/components/loader-overlay";
+import { AvailabilityRulesDialog, describeAvailabilityRule } from "@/components/availability-rules-dialog";
+import { TimeAwayDialog } from "@/components/time-away-dialog";
+
+// A member's note for one date, e.g. "Can arrive late"
+function AvailabilityNoteButton({
+  note,
+  disabled,
+  onSave,
+}: {
+  note: string | null;
+  disabled: boolean;
+  onSave: (note: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(note ?? "");
+
+  useEffect(() => {
+    if (open) setDraft(note ?? "");
+  }, [open, note]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`h-8 w-8 ${note ? "text-primary" : "text-muted-foreground"}`}
+          disabled={disabled}
+          title={note ?? "Add a note"}
+        >
+          <MessageSquare className="h-4 w-4" fill={note ? "currentColor" : "none"} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-2">
+        <Textarea
+          value={draft}
+          maxLength={200}
+          placeholder="e.g. Can arrive late"
+          onChange={(e) => setDraft(e.target.value)}
+        />
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            onClick={() => {
+              onSave(draft);
+              setOpen(false);
+            }}
+          >
+            Save Note
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// The service roles a member offers for one date; none ticked means any role
+function AvailabilityRolesButton({
+  roles,
+  roleIds,
+  disabled,
+  onSave,
+}: {
+  roles: ServiceRole[];
+  roleIds: number[] | null;
+  disabled: boolean;
+  onSave: (roleIds: number[]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<number[]>(roleIds ?? []);
+
+  useEffect(() => {
+    if (open) setDraft(roleIds ?? []);
+  }, [open, roleIds]);
+
+  // Roles since deactivated don't count
+  const offered = roles.filter(role => roleIds?.includes(role.id));
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-8 px-2 text-xs ${offered.length > 0 ? "text-primary" : "text-muted-foreground"}`}
+          disabled={disabled}
+          title={offered.length > 0 ? offered.map(role => role.name).join(", ") : "Any role"}
+        >
+          {offered.length === 0 ? "Any role" : offered.length === 1 ? offered[0].name : `${offered.length} roles`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3">
+        <p className="text-sm font-medium">Roles I can do on this date</p>
+        <div className="space-y-2">
+          {roles.map(role => (
+            <div key={role.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`offer-role-${role.id}`}
+                checked={draft.includes(role.id)}
+                onCheckedChange={(checked) => setDraft(prev =>
+                  checked === true ? [...prev, role.id] : prev.filter(id => id !== role.id)
+                )}
+              />
+              <Label htmlFor={`offer-role-${role.id}`} className="font-normal">{role.name}</Label>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">Leave all unticked for any role.</p>
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            onClick={() => {
+              onSave(draft);
+              setOpen(false);
+            }}
+          >
+            Save Roles
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
 
 export default function HomePage() {
   const [selectedMonth, setSelectedMonth] = useState(getDefaultMonth());
+  const [showRules, setShowRules] = useState(false);
+  const [showTimeAway, setShowTimeAway] = useState(false);
   const { toast } = useToast();
   const { user } = useAuth();
+  const { can } = useAccess();
+  const year = selectedMonth.getFullYear();
+  const month = selectedMonth.getMonth() + 1;
 
   const { data: availabilities, isLoading: isLoadingAvailability } = useQuery<Availability[]>({
     queryKey: ["/api/availability"],
@@ -30,19 +165,63 @@ export default function HomePage() {
     queryKey: ["/api/special-days"],
   });
 
+  // Fetch the services scheduled in the selected month
+  const { data: services, isLoading: isLoadingServices } = useQuery<Service[]>({
+    queryKey: ["/api/services", selectedMonth.getFullYear(), selectedMonth.getMonth() + 1],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/services?year=${selectedMonth.getFullYear()}&month=${selectedMonth.getMonth() + 1}`,
+        { credentials: "include" }
+      );
+      if (!response.ok) {
+        throw new Error("Failed to fetch services");
+      }
+      return response.json();
+    },
+  });
+
+  // Standing rules, to say which answers came from one
+  const { data: rules = [] } = useQuery<AvailabilityRule[]>({
+    queryKey: ["/api/availability-rules"],
+  });
+  const rulesById = useMemo(() => new Map(rules.map(rule => [rule.id, rule])), [rules]);
+
+  // Active roles members can limit their availability to
+  const { data: serviceRoles = [] } = useQuery<ServiceRole[]>({
+    queryKey: ["/api/service-roles"],
+    select: roles => roles.filter(role => role.isActive).sort((a, b) => a.order - b.order),
+  });
+
+  const { data: timeAway = [] } = useQuery<TimeAwayEntry[]>({
+    queryKey: ["/api/time-away"],
+  });
+
+  const { data: deadline } = useQuery<DeadlineStatus>({
+    queryKey: [`/api/availability-deadline/${year}/${month}`],
+    // The countdown moves with the day and coordinators may change the lock
+    staleTime: 60 * 1000,
+  });
+
   const updateMutation = useMutation({
-    mutationFn: async (data: { serviceDate: string; isAvailable: boolean }) => {
+    mutationFn: async (data: { serviceId: number; status: AvailabilityStatus; note?: string; roleIds?: number[] }) => {
       return await apiRequest("/api/availability", {
         method: "POST",
         data: {
-          serviceDate: data.serviceDate,
-          isAvailable: data.isAvailable,
+          serviceId: data.serviceId,
+          status: data.status,
+          note: data.note,
+          roleIds: data.roleIds,
           userId: user?.id,
         }
       });
     },
-    onSuccess: () => {
+    onSuccess: (result: { message?: string; type?: string }) => {
+      if (result?.type === "notice") {
+        toast({ title: "Availability locked", description: result.message });
+        queryClient.invalidateQueries({ queryKey: [`/api/availability-deadline/${year}/${month}`] });
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/availability"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-schedule"] });
     },
     onError: (error: Error) => {
       toast({
@@ -53,21 +232,8 @@ export default function HomePage() {
     },
   });
 
-  // Get all days in the interval and filter for Sundays
-  // Use the last day of the month as the end date instead of the first day of the next month
-  const lastDayOfMonth = new Date(
-    selectedMonth.getFullYear(),
-    selectedMonth.getMonth() + 1,
-    0
-  );
-  
-  const sundays = eachDayOfInterval({
-    start: selectedMonth,
-    end: lastDayOfMonth,
-  }).filter(day => isSunday(day));
-
   // Check if any data is still loading
-  if (isLoadingAvailability || isLoadingSpecialDays) {
+  if (isLoadingAvailability || isLoadingSpecialDays || isLoadingServices) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <ChurchLoader 
@@ -81,6 +247,7 @@ export default function HomePage() {
   
   // Show overlay during availability updates
   const isUpdating = updateMutation.isPending;
+  const isLocked = !!deadline?.isLocked && !deadline.hasException && !can("availability.manage");
 
   return (
     <div className="min-h-screen flex flex-col bg-gradient-to-b from-background to-muted/20">
@@ -131,19 +298,66 @@ export default function HomePage() {
             </div>
           </div>
 
+          <div className="flex justify-end gap-2 mb-4">
+            <Button variant="outline" size="sm" onClick={() => setShowTimeAway(true)}>
+              <Palmtree className="h-4 w-4 mr-2" />
+              Time Away
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowRules(true)}>
+              <Repeat className="h-4 w-4 mr-2" />
+              Standing Availability
+            </Button>
+          </div>
+
+          {deadline && (services?.length ?? 0) > 0 && (
+            <div className="flex items-center gap-2 mb-4 px-3 py-2 rounded-lg border bg-muted/40 text-sm">
+              {deadline.isLocked ? (
+                <>
+                  <Lock className="h-4 w-4 text-muted-foreground" />
+                  <span>
+                    {deadline.hasException
+                      ? "Availability for this month is locked, but you can still make changes."
+                      : "Availability for this month is locked. Contact the coordinator to change it."}
+                  </span>
+                </>
+              ) : deadline.lockState === "open" ? (
+                <>
+                  <Hourglass className="h-4 w-4 text-primary" />
+                  <span>Availability for this month has been reopened.</span>
+                </>
+              ) : (
+                <>
+                  <Hourglass className="h-4 w-4 text-primary" />
+                  <span>
+                    {deadline.daysLeft === 0
+                      ? "Closes at the end of today"
+                      : `Closes in ${deadline.daysLeft} day${deadline.daysLeft === 1 ? "" : "s"}`}
+                    {" "}({format(parseISO(deadline.deadline), "EEEE d MMMM")})
+                  </span>
+                </>
+              )}
+            </div>
+          )}
+
           <div className="grid gap-4">
-            {sundays.map((sunday) => {
+            {services?.length === 0 && (
+              <p className="text-center text-muted-foreground">
+                No services are scheduled for this month.
+              </p>
+            )}
+            {services?.map((service) => {
+              const serviceDay = parseISO(service.serviceDate);
               const availability = availabilities?.find(
-                (a) =>
-                  format(new Date(a.serviceDate), "yyyy-MM-dd") ===
-                  format(sunday, "yyyy-MM-dd") &&
-                  a.userId === user?.id
+                (a) => a.serviceId === service.id && a.userId === user?.id
+              );
+              
+              const away = timeAway.find(
+                (entry) => entry.startDate <= service.serviceDate && service.serviceDate <= entry.endDate
               );
               
-              // Check if this Sunday is a special day
+              // Check if this service falls on a special day
               const specialDay = specialDays?.find(day => {
-                const specialDate = new Date(day.date);
-                return format(specialDate, "yyyy-MM-dd") === format(sunday, "yyyy-MM-dd");
+                return day.date === service.serviceDate;
               });
               
               // Set card style based on special day
@@ -153,11 +367,11 @@ export default function HomePage() {
               
               return (
                 <Card 
-                  key={sunday.toISOString()} 
+                  key={service.id} 
                   className="group hover:shadow-md transition-shadow"
                   style={cardStyle}
                 >
-                  <CardContent className="flex items-center justify-between p-6">
+                  <CardContent className="flex flex-wrap items-center justify-between gap-4 p-6">
                     <div className="flex items-center gap-3">
                       <Sun 
                         className="h-5 w-5" 
@@ -165,7 +379,7 @@ export default function HomePage() {
                       />
                       <div>
                         <h3 className="font-medium flex items-center gap-2">
-                          {format(sunday, "d MMMM yyyy")}
+                          {format(serviceDay, "EEEE d MMMM yyyy")}
                           {specialDay && (
                             <Badge 
                               style={{ 
@@ -177,21 +391,94 @@ export default function HomePage() {
                             </Badge>
                           )}
                         </h3>
-                        <p className="text-sm text-muted-foreground">
-                          {specialDay ? specialDay.description || 'Special Sunday' : 'Sunday Service'}
+                        <p className="text-sm text-muted-foreground flex flex-wrap items-center gap-x-3">
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {formatServiceTime(service.startTime)} {service.name}
+                          </span>
+                          {service.location && (
+                            <span className="flex items-center gap-1">
+                              <MapPin className="h-3 w-3" />
+                              {service.location}
+                            </span>
+                          )}
                         </p>
+                        {specialDay?.description && (
+                          <p className="text-sm text-muted-foreground">{specialDay.description}</p>
+                        )}
                       </div>
                     </div>
-                    <Switch
-                      checked={availability?.isAvailable ?? false}
-                      onCheckedChange={(checked) =>
-                        updateMutation.mutate({
-                          serviceDate: format(sunday, "yyyy-MM-dd"),
-                          isAvailable: checked,
-                        })
-                      }
-                      className="switch-transition data-[state=checked]:bg-primary"
-                    />
+                    <div className="flex items-center gap-3">
+                      {away && (
+                        <Badge variant="secondary" className="gap-1 font-normal" title={away.reason ?? undefined}>
+                          <Palmtree className="h-3 w-3" />
+                          Away
+                        </Badge>
+                      )}
+                      {!away && availability?.ruleId != null && (
+                        <Badge
+                          variant="outline"
+                          className="gap-1 font-normal"
+                          title={rulesById.has(availability.ruleId)
+                            ? `From your rule: ${describeAvailabilityRule(rulesById.get(availability.ruleId)!)}`
+                            : "From one of your rules"}
+                        >
+                          <Repeat className="h-3 w-3" />
+                          Rule
+                        </Badge>
+                      )}
+                      {serviceRoles.length > 1 && availability?.isAvailable && !away && (
+                        <AvailabilityRolesButton
+                          roles={serviceRoles}
+                          roleIds={availability.roleIds}
+                          disabled={isLocked}
+                          onSave={(roleIds) =>
+                            updateMutation.mutate({
+                              serviceId: service.id,
+                              status: availabilityStatus(availability),
+                              roleIds,
+                            })
+                          }
+                        />
+                      )}
+                      <AvailabilityNoteButton
+                        note={availability?.note ?? null}
+                        disabled={isLocked || !availability}
+                        onSave={(note) =>
+                          updateMutation.mutate({
+                            serviceId: service.id,
+                            status: availabilityStatus(availability!),
+                            note,
+                          })
+                        }
+                      />
+                      <ToggleGroup
+                        type="single"
+                        size="sm"
+                        variant="outline"
+                        value={availability ? availabilityStatus(availability) : ""}
+                        disabled={isLocked || !!away}
+                        onValueChange={(value) => {
+                          // Clicking the current answer again deselects it; keep the answer
+                          if (!value) return;
+                          updateMutation.mutate({
+                            serviceId: service.id,
+                            status: value as AvailabilityStatus,
+                          });
+                        }}
+                      >
+                        {(["yes", "maybe", "no"] as const).map(status => (
+                          <ToggleGroupItem
+                            key={status}
+                            value={status}
+                            title={AVAILABILITY_STATUS_LABELS[status]}
+                            className="data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+                          >
+                            {status === "yes" ? "Yes" : status === "maybe" ? "Maybe" : "No"}
+                          </ToggleGroupItem>
+                        ))}
+                      </ToggleGroup>
+                    </div>
                   </CardContent>
                 </Card>
               );
@@ -199,6 +486,9 @@ export default function HomePage() {
           </div>
         </div>
       </main>
+
+      <AvailabilityRulesDialog open={showRules} onOpenChange={setShowRules} />
+      <TimeAwayDialog open={showTimeAway} onOpenChange={setShowTimeAway} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { MySchedule, ScheduleEntry } from "@shared/schema";
+import { formatServiceLabel } from "@shared/services";
+import { NavBar } from "@/components/nav-bar";
+import { ChurchLoader } from "@/components/church-loader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { CalendarCheck, ChevronDown, ChevronRight, Check, X, CircleHelp } from "lucide-react";
+
+function ScheduleEntryRow({ entry }: { entry: ScheduleEntry }) {
+  const { service, role, specialDay, assignment } = entry;
+  return (
+    <div
+      className="rounded-md border p-3"
+      style={specialDay ? { borderLeft: `4px solid ${specialDay.color}` } : undefined}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="font-medium">{format(parseISO(service.serviceDate), "EEEE d MMMM yyyy")}</p>
+          <p className="text-sm text-muted-foreground">{formatServiceLabel(service)}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {specialDay && (
+            <Badge style={{ backgroundColor: specialDay.color, color: "#ffffff" }}>
+              {specialDay.name}
+            </Badge>
+          )}
+          <Badge variant="outline">{role?.name ?? "Unknown role"}</Badge>
+        </div>
+      </div>
+      {assignment.notes && (
+        <p className="text-sm text-muted-foreground mt-2">{assignment.notes}</p>
+      )}
+    </div>
+  );
+}
+
+export default function MySchedulePage() {
+  const [showPast, setShowPast] = useState(false);
+
+  const { data: schedule, isLoading } = useQuery<MySchedule>({
+    queryKey: ["/api/my-schedule"],
+  });
+
+  if (isLoading || !schedule) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <ChurchLoader type="calendar" size="lg" text="Loading your schedule..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-b from-background to-muted/20">
+      <NavBar />
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <CalendarCheck className="h-6 w-6 text-primary" />
+              <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-primary/60 bg-clip-text text-transparent">
+                My Schedule
+              </h1>
+            </div>
+            <Badge variant="secondary" className="text-sm">
+              Served {schedule.servedThisYear} {schedule.servedThisYear === 1 ? "time" : "times"} this year
+            </Badge>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Upcoming</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {schedule.upcoming.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  You are not on any finalized roster yet.
+                </p>
+              ) : (
+                schedule.upcoming.map(entry => (
+                  <ScheduleEntryRow key={entry.assignment.id} entry={entry} />
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          {schedule.past.length > 0 && (
+            <Collapsible open={showPast} onOpenChange={setShowPast}>
+              <Card>
+                <CardHeader>
+                  <CollapsibleTrigger asChild>
+                    <Button variant="ghost" className="justify-start px-0 hover:bg-transparent">
+                      {showPast ? <ChevronDown className="h-4 w-4 mr-2" /> : <ChevronRight className="h-4 w-4 mr-2" />}
+                      <span className="text-lg font-semibold">Earlier this year ({schedule.past.length})</span>
+                    </Button>
+                  </CollapsibleTrigger>
+                </CardHeader>
+                <CollapsibleContent>
+                  <CardContent className="space-y-3">
+                    {schedule.past.map(entry => (
+                      <ScheduleEntryRow key={entry.assignment.id} entry={entry} />
+                    ))}
+                  </CardContent>
+                </CollapsibleContent>
+              </Card>
+            </Collapsible>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">My Availability Responses</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {schedule.availability.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  You have not responded for any upcoming services.
+                </p>
+              ) : (
+                <ul className="divide-y">
+                  {schedule.availability.map(({ service, status, note }) => (
+                    <li key={service.id} className="flex items-center justify-between py-2 text-sm">
+                      <span>
+                        {format(parseISO(service.serviceDate), "EEE d MMM yyyy")}, {formatServiceLabel(service)}
+                        {note && <span className="block text-xs text-muted-foreground">{note}</span>}
+                      </span>
+                      {status === "yes" ? (
+                        <span className="flex items-center gap-1 text-green-600">
+                          <Check className="h-4 w-4" /> Available
+                        </span>
+                      ) : status === "maybe" ? (
+                        <span className="flex items-center gap-1 text-amber-600">
+                          <CircleHelp className="h-4 w-4" /> If needed
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1 text-muted-foreground">
+                          <X className="h-4 w-4" /> Not available
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
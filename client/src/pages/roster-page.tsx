@@ -21,9 +21,10 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { format, startOfMonth, addMonths, eachDayOfInterval, isSunday, subMonths } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { getDefaultMonth } from "@/lib/date-utils";
-import { Availability, User, SpecialDay, FinalizedRoster, RosterAssignment, ServiceRole } from "@shared/schema";
+import { Availability, AvailabilityStatus, MemberSummary, SpecialDay, FinalizedRoster, RosterAssignment, Service, ServiceRole } from "@shared/schema";
+import { formatServiceLabel } from "@shared/services";
 import { 
   ChevronLeft, 
   ChevronRight, 
@@ -34,16 +35,28 @@ import {
   List,
   FileCheck,
   Check,
-  AlertTriangle
+  AlertTriangle,
+  CircleHelp
 } from "lucide-react";
 import { ChurchLoader } from "@/components/church-loader";
 import { apiRequest } from "@/lib/api";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { SwapRequestsPanel } from "@/components/swap-requests-panel";
 
 type ViewType = 'card' | 'table';
 
+// A member who answered yes or maybe for a service
+type AvailableMember = MemberSummary & { isMaybe: boolean; note: string | null };
+
+// Members available only if needed come last, then by last and first name
+const compareAvailable = (a: AvailableMember, b: AvailableMember) =>
+  Number(a.isMaybe) - Number(b.isMaybe) ||
+  a.lastName.localeCompare(b.lastName) ||
+  a.firstName.localeCompare(b.firstName);
+
 // Separate dialog component for better organization
 const DeadlineNoticeDialog = ({ 
   isOpen, 
@@ -68,13 +81,14 @@ const DeadlineNoticeDialog = ({
 interface FinalizedRosterResponse {
   finalizedRoster: FinalizedRoster;
   assignments: (RosterAssignment & {
-    user: User;
+    user: MemberSummary;
     role: ServiceRole;
   })[];
 }
 
 export default function RosterPage() {
   const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
   const [selectedMonth, setSelectedMonth] = useState(getDefaultMonth());
   const [viewType, setViewType] = useState<ViewType>('card');
   const [showDeadlineNotice, setShowDeadlineNotice] = useState(false);
@@ -86,8 +100,8 @@ export default function RosterPage() {
     queryKey: ["/api/availability"],
   });
 
-  const { data: users, isLoading: isLoadingUsers } = useQuery<User[]>({
-    queryKey: ["/api/users"],
+  const { data: users, isLoading: isLoadingUsers } = useQuery<MemberSummary[]>({
+    queryKey: ["/api/members"],
   });
 
   const { data: nameFormat } = useQuery<{ format: string }>({
@@ -113,6 +127,21 @@ export default function RosterPage() {
     enabled: true
   });
   
+  // Fetch the services scheduled in the selected month
+  const { data: services, isLoading: isLoadingServices } = useQuery<Service[]>({
+    queryKey: ["/api/services", selectedMonth.getFullYear(), selectedMonth.getMonth() + 1],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/services?year=${selectedMonth.getFullYear()}&month=${selectedMonth.getMonth() + 1}`,
+        { credentials: "include" }
+      );
+      if (!response.ok) {
+        throw new Error("Failed to fetch services");
+      }
+      return response.json();
+    },
+  });
+  
   // Fetch service roles to ensure correct ordering
   const { data: serviceRoles, isLoading: isLoadingServiceRoles } = useQuery<ServiceRole[]>({
     queryKey: ["/api/service-roles"],
@@ -128,8 +157,7 @@ export default function RosterPage() {
       availabilities
         .filter(record => record.isAvailable)
         .forEach(record => {
-          const date = new Date(record.serviceDate);
-          const monthYear = format(date, 'yyyy-MM'); // Format as YYYY-MM for uniqueness
+          const monthYear = record.serviceDate.slice(0, 7); // YYYY-MM, read straight off the date key
           months.add(monthYear);
         });
       
@@ -158,12 +186,13 @@ export default function RosterPage() {
     }
   }, [availabilities, selectedMonth]);
 
-  const sundays = eachDayOfInterval({
-    start: selectedMonth,
-    end: addMonths(selectedMonth, 1),
-  }).filter(day => isSunday(day));
+  const monthServices = services ?? [];
 
-  const formatUserName = (user: User) => {
+  const findSpecialDay = (service: Service) => specialDays?.find(day => {
+    return day.date === service.serviceDate;
+  });
+
+  const formatUserName = (user: MemberSummary) => {
     switch (nameFormat?.format) {
       case 'first':
         return user.firstName;
@@ -178,18 +207,19 @@ export default function RosterPage() {
   };
 
   const groupedAvailabilities = availabilities?.reduce((groups, availability) => {
-    const date = format(new Date(availability.serviceDate), "yyyy-MM-dd");
-    if (!groups[date]) {
-      groups[date] = [];
+    if (availability.serviceId === null) return groups;
+    const serviceId = availability.serviceId;
+    if (!groups[serviceId]) {
+      groups[serviceId] = [];
     }
     const user = users?.find(u => u.id === availability.userId);
     if (user && availability.isAvailable) {
-      groups[date].push(user);
+      groups[serviceId].push({ ...user, isMaybe: availability.isMaybe, note: availability.note });
     }
     return groups;
-  }, {} as Record<string, User[]>) || {};
+  }, {} as Record<number, AvailableMember[]>) || {};
 
-  const handleAvailabilityUpdate = async (user: User, date: Date, isAvailable: boolean) => {
+  const handleAvailabilityUpdate = async (user: MemberSummary, serviceId: number, status: AvailabilityStatus) => {
     try {
       // Fix the apiRequest call with correct parameter order
       // First parameter is URL, second is options object
@@ -197,8 +227,8 @@ export default function RosterPage() {
         method: "POST",
         data: {
           userId: user.id,
-          serviceDate: date,
-          isAvailable,
+          serviceId,
+          status,
         }
       } as any);
 
@@ -215,7 +245,7 @@ export default function RosterPage() {
   };
 
   // Check if any data is still loading
-  if (isLoadingAvailability || isLoadingUsers || isLoadingSpecialDays || isLoadingServiceRoles) {
+  if (isLoadingAvailability || isLoadingUsers || isLoadingSpecialDays || isLoadingServices || isLoadingServiceRoles) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <ChurchLoader type="calendar" size="lg" text="Loading roster..." />
@@ -225,15 +255,11 @@ export default function RosterPage() {
 
   const CardView = () => (
     <div className="space-y-6">
-      {sundays.map((sunday) => {
-        const date = format(sunday, "yyyy-MM-dd");
-        const availableUsers = groupedAvailabilities[date] || [];
+      {monthServices.map((service) => {
+        const availableUsers = groupedAvailabilities[service.id] || [];
         
-        // Check if this Sunday is a special day
-        const specialDay = specialDays?.find(day => {
-          const specialDate = new Date(day.date);
-          return format(specialDate, "yyyy-MM-dd") === format(sunday, "yyyy-MM-dd");
-        });
+        // Check if this service falls on a special day
+        const specialDay = findSpecialDay(service);
         
         // Set card style based on special day
         const cardStyle = specialDay 
@@ -242,7 +268,7 @@ export default function RosterPage() {
 
         return (
           <div 
-            key={date} 
+            key={service.id} 
             className="bg-card rounded-lg border shadow-sm overflow-hidden"
             style={cardStyle}
           >
@@ -257,7 +283,7 @@ export default function RosterPage() {
                 <div className="flex-1">
                   <div className="flex items-center justify-between">
                     <h3 className="font-medium text-lg flex items-center gap-2">
-                      {format(sunday, "d MMMM yyyy")}
+                      {format(parseISO(service.serviceDate), "d MMMM yyyy")}
                       {specialDay && (
                         <Badge 
                           style={{ 
@@ -271,6 +297,8 @@ export default function RosterPage() {
                     </h3>
                   </div>
                   <p className="text-sm text-muted-foreground">
+                    <span className="font-medium">{formatServiceLabel(service)}</span>
+                    {" • "}
                     {specialDay?.description && <span className="font-medium">{specialDay.description}</span>}
                     {specialDay?.description && " • "}
                     {availableUsers.length} {availableUsers.length === 1 ? 'member' : 'members'} available
@@ -283,18 +311,24 @@ export default function RosterPage() {
               {availableUsers.length > 0 ? (
                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
                   {availableUsers
-                    .sort((a, b) => {
-                      const lastNameCompare = b.lastName.localeCompare(a.lastName);
-                      if (lastNameCompare !== 0) return -lastNameCompare;
-                      return -b.firstName.localeCompare(a.firstName);
-                    })
+                    .sort(compareAvailable)
                     .map((user) => (
                       <div
                         key={user.id}
-                        className="flex items-center gap-2 p-2 rounded-md bg-muted/50"
+                        className={`flex items-start gap-2 p-2 rounded-md ${user.isMaybe ? 'border border-dashed' : 'bg-muted/50'}`}
                       >
-                        <Users className="h-4 w-4 text-primary" />
-                        <span className="text-sm">{formatUserName(user)}</span>
+                        {user.isMaybe
+                          ? <CircleHelp className="h-4 w-4 mt-0.5 text-amber-600" />
+                          : <Users className="h-4 w-4 mt-0.5 text-primary" />}
+                        <div className="min-w-0">
+                          <span className="text-sm">
+                            {formatUserName(user)}
+                            {user.isMaybe && <span className="text-xs text-muted-foreground"> (if needed)</span>}
+                          </span>
+                          {user.note && (
+                            <p className="text-xs text-muted-foreground">{user.note}</p>
+                          )}
+                        </div>
                       </div>
                     ))}
                 </div>
@@ -316,20 +350,17 @@ export default function RosterPage() {
         <TableHeader>
           <TableRow>
             <TableHead>Date</TableHead>
+            <TableHead>Service</TableHead>
             <TableHead>Type</TableHead>
             <TableHead>Available Members</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
-          {sundays.map((sunday) => {
-            const date = format(sunday, "yyyy-MM-dd");
-            const availableUsers = groupedAvailabilities[date] || [];
+          {monthServices.map((service) => {
+            const availableUsers = groupedAvailabilities[service.id] || [];
             
-            // Check if this Sunday is a special day
-            const specialDay = specialDays?.find(day => {
-              const specialDate = new Date(day.date);
-              return format(specialDate, "yyyy-MM-dd") === format(sunday, "yyyy-MM-dd");
-            });
+            // Check if this service falls on a special day
+            const specialDay = findSpecialDay(service);
             
             // Set row style based on special day
             const rowStyle = specialDay 
@@ -339,10 +370,11 @@ export default function RosterPage() {
               : {};
 
             return (
-              <TableRow key={date} style={rowStyle}>
+              <TableRow key={service.id} style={rowStyle}>
                 <TableCell className="font-medium">
-                  {format(sunday, "d MMMM yyyy")}
+                  {format(parseISO(service.serviceDate), "d MMMM yyyy")}
                 </TableCell>
+                <TableCell>{formatServiceLabel(service)}</TableCell>
                 <TableCell>
                   {specialDay ? (
                     <Badge 
@@ -353,18 +385,20 @@ export default function RosterPage() {
                     >
                       {specialDay.name}
                     </Badge>
-                  ) : "Regular Sunday"}
+                  ) : "Regular Service"}
                 </TableCell>
                 <TableCell>
                   {availableUsers.length > 0
                     ? availableUsers
-                        .sort((a, b) => {
-                          const lastNameCompare = b.lastName.localeCompare(a.lastName);
-                          if (lastNameCompare !== 0) return -lastNameCompare;
-                          return -b.firstName.localeCompare(a.firstName);
-                        })
-                        .map(user => formatUserName(user))
-                        .join(", ")
+                        .sort(compareAvailable)
+                        .map((user, index) => (
+                          <span key={user.id}>
+                            {index > 0 && ", "}
+                            {formatUserName(user)}
+                            {user.isMaybe && <span className="text-muted-foreground"> (if needed)</span>}
+                            {user.note && <span className="text-muted-foreground"> - {user.note}</span>}
+                          </span>
+                        ))
                     : <span className="text-muted-foreground">No members available</span>
                   }
                 </TableCell>
@@ -376,22 +410,34 @@ export default function RosterPage() {
     </div>
   );
 
-  // Process finalized roster assignments - group by service date and role
+  // Process finalized roster assignments - group by service and role
   const groupedAssignments = finalizedRosterData?.assignments.reduce((result, assignment) => {
-    const dateStr = format(new Date(assignment.serviceDate), "yyyy-MM-dd");
+    if (assignment.serviceId === null) return result;
+    const serviceId = assignment.serviceId;
     
-    if (!result[dateStr]) {
-      result[dateStr] = {};
+    if (!result[serviceId]) {
+      result[serviceId] = {};
     }
     
     const roleName = assignment.role.name;
-    if (!result[dateStr][roleName]) {
-      result[dateStr][roleName] = [];
+    if (!result[serviceId][roleName]) {
+      result[serviceId][roleName] = [];
     }
     
-    result[dateStr][roleName].push(assignment.user);
+    result[serviceId][roleName].push(assignment.user);
     return result;
-  }, {} as Record<string, Record<string, User[]>>) || {};
+  }, {} as Record<number, Record<string, MemberSummary[]>>) || {};
+  
+  // The signed-in member's assignments still to come, which they may ask someone else to cover
+  const today = format(new Date(), "yyyy-MM-dd");
+  const myUpcomingAssignments = finalizedRosterData?.finalizedRoster.isFinalized
+    ? finalizedRosterData.assignments
+        .filter(assignment => assignment.userId === currentUser?.id && assignment.serviceDate >= today)
+        .flatMap(assignment => {
+          const service = monthServices.find(s => s.id === assignment.serviceId);
+          return service ? [{ ...assignment, service }] : [];
+        })
+    : [];
   
   // Component for finalized roster card view
   const FinalizedCardView = () => {
@@ -417,18 +463,14 @@ export default function RosterPage() {
           </AlertDescription>
         </Alert>
         
-        {sundays.map((sunday) => {
-          const dateStr = format(sunday, "yyyy-MM-dd");
-          const assignments = groupedAssignments[dateStr] || {};
+        {monthServices.map((service) => {
+          const assignments = groupedAssignments[service.id] || {};
           
           // Get role names from assignments
           const assignedRoleNames = Object.keys(assignments);
           
-          // Check if this Sunday is a special day
-          const specialDay = specialDays?.find(day => {
-            const specialDate = new Date(day.date);
-            return format(specialDate, "yyyy-MM-dd") === format(sunday, "yyyy-MM-dd");
-          });
+          // Check if this service falls on a special day
+          const specialDay = findSpecialDay(service);
           
           // Set card style based on special day
           const cardStyle = specialDay 
@@ -444,7 +486,7 @@ export default function RosterPage() {
             
           return (
             <div 
-              key={dateStr} 
+              key={service.id} 
               className="bg-card rounded-lg border shadow-sm overflow-hidden"
               style={cardStyle}
             >
@@ -459,7 +501,7 @@ export default function RosterPage() {
                   <div className="flex-1">
                     <div className="flex items-center justify-between">
                       <h3 className="font-medium text-lg flex items-center gap-2">
-                        {format(sunday, "d MMMM yyyy")}
+                        {format(parseISO(service.serviceDate), "d MMMM yyyy")}
                         {specialDay && (
                           <Badge 
                             style={{ 
@@ -473,6 +515,8 @@ export default function RosterPage() {
                       </h3>
                     </div>
                     <p className="text-sm text-muted-foreground">
+                      <span className="font-medium">{formatServiceLabel(service)}</span>
+                      {" • "}
                       {specialDay?.description && <span className="font-medium">{specialDay.description}</span>}
                       {specialDay?.description && " • "}
                       {assignedRoleNames.length > 0 ? `${assignedRoleNames.length} roles assigned` : "No assignments"}
@@ -543,23 +587,20 @@ export default function RosterPage() {
             <TableHeader>
               <TableRow>
                 <TableHead>Date</TableHead>
+                <TableHead>Service</TableHead>
                 <TableHead>Type</TableHead>
                 <TableHead>Assignments</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {sundays.map((sunday) => {
-                const dateStr = format(sunday, "yyyy-MM-dd");
-                const assignments = groupedAssignments[dateStr] || {};
+              {monthServices.map((service) => {
+                const assignments = groupedAssignments[service.id] || {};
                 
                 // Get role names from assignments
                 const assignedRoleNames = Object.keys(assignments);
                 
-                // Check if this Sunday is a special day
-                const specialDay = specialDays?.find(day => {
-                  const specialDate = new Date(day.date);
-                  return format(specialDate, "yyyy-MM-dd") === format(sunday, "yyyy-MM-dd");
-                });
+                // Check if this service falls on a special day
+                const specialDay = findSpecialDay(service);
                 
                 // Set row style based on special day
                 const rowStyle = specialDay 
@@ -576,10 +617,11 @@ export default function RosterPage() {
                   .sort((a, b) => a.order - b.order) || [];
                 
                 return (
-                  <TableRow key={dateStr} style={rowStyle}>
+                  <TableRow key={service.id} style={rowStyle}>
                     <TableCell className="font-medium">
-                      {format(sunday, "d MMMM yyyy")}
+                      {format(parseISO(service.serviceDate), "d MMMM yyyy")}
                     </TableCell>
+                    <TableCell>{formatServiceLabel(service)}</TableCell>
                     <TableCell>
                       {specialDay ? (
                         <Badge 
@@ -590,7 +632,7 @@ export default function RosterPage() {
                         >
                           {specialDay.name}
                         </Badge>
-                      ) : "Regular Sunday"}
+                      ) : "Regular Service"}
                     </TableCell>
                     <TableCell>
                       {assignedRoleNames.length > 0 ? (
@@ -719,7 +761,10 @@ export default function RosterPage() {
                     <ChurchLoader type="calendar" size="md" text="Loading roster..." />
                   </div>
                 ) : (
-                  viewType === 'card' ? <FinalizedCardView /> : <FinalizedTableView />
+                  <>
+                    <SwapRequestsPanel assignments={myUpcomingAssignments} />
+                    {viewType === 'card' ? <FinalizedCardView /> : <FinalizedTableView />}
+                  </>
                 )}
               </TabsContent>
             </Tabs>
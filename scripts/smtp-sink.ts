@@ -0,0 +1,103 @@
+// Stand-in SMTP server for trying out email locally. It accepts every message and
+// prints the headers instead of delivering it.
+//
+//   npx tsx scripts/smtp-sink.ts [port] [--reject-rate=0.5]
+//
+// Then start the app with SMTP_HOST=localhost SMTP_PORT=1025 and no SMTP_USER.
+// --reject-rate refuses that share of messages with a temporary error, to watch
+// the outbox retry them.
+import net from 'net';
+
+const args = process.argv.slice(2);
+const port = parseInt(args.find(arg => !arg.startsWith('--')) || '1025');
+const rejectRate = parseFloat(args.find(arg => arg.startsWith('--reject-rate='))?.split('=')[1] || '0');
+
+let received = 0;
+
+const server = net.createServer(socket => {
+  let buffer = '';
+  let inData = false;
+  let message: string[] = [];
+  let recipients: string[] = [];
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+
+  const handleCommand = (line: string) => {
+    const command = line.slice(0, 4).toUpperCase();
+    switch (command) {
+      case 'EHLO':
+        reply('250-localhost');
+        reply('250 8BITMIME');
+        break;
+      case 'HELO':
+      case 'NOOP':
+        reply('250 OK');
+        break;
+      case 'MAIL':
+        recipients = [];
+        reply('250 OK');
+        break;
+      case 'RCPT':
+        recipients.push(line.replace(/^RCPT TO:\s*/i, ''));
+        reply('250 OK');
+        break;
+      case 'DATA':
+        inData = true;
+        message = [];
+        reply('354 End data with <CR><LF>.<CR><LF>');
+        break;
+      case 'RSET':
+        recipients = [];
+        reply('250 OK');
+        break;
+      case 'QUIT':
+        reply('221 Bye');
+        socket.end();
+        break;
+      default:
+        reply('502 Command not implemented');
+    }
+  };
+
+  const handleMessage = () => {
+    if (Math.random() < rejectRate) {
+      console.log(`Rejected message to ${recipients.join(', ')}`);
+      reply('451 Temporary failure, try again later');
+      return;
+    }
+    received++;
+    const headerEnd = message.indexOf('');
+    const headers = message.slice(0, headerEnd === -1 ? message.length : headerEnd)
+      .filter(header => /^(From|To|Subject|Date):/i.test(header));
+    console.log(`\nMessage ${received} (${message.join('\r\n').length} bytes) to ${recipients.join(', ')}`);
+    headers.forEach(header => console.log(`  ${header}`));
+    reply(`250 OK: queued as ${received}`);
+  };
+
+  reply('220 localhost SMTP sink');
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    let index;
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          handleMessage();
+        } else {
+          message.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+      } else {
+        handleCommand(line);
+      }
+    }
+  });
+
+  socket.on('error', error => console.error('Connection error:', error.message));
+});
+
+server.listen(port, () => {
+  console.log(`SMTP sink listening on port ${port}${rejectRate > 0 ? `, rejecting ${rejectRate * 100}% of messages` : ''}`);
+});
@@ -0,0 +1,29 @@
+import type { Request } from "express";
+import { AuditEntityType } from "@shared/schema";
+import { storage } from "./storage";
+
+type AuditEntry = {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | number | null;
+  before?: unknown;
+  after?: unknown;
+};
+
+// Appends an audit log entry for a change made by the signed-in user.
+// A failure to write the entry is logged rather than thrown, since the change
+// it describes has already been saved by the time this runs.
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  try {
+    await storage.recordAudit({
+      actorId: req.user?.id ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId === undefined || entry.entityId === null ? null : String(entry.entityId),
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+    });
+  } catch (err) {
+    console.error("Error writing audit log:", err);
+  }
+}
@@ -3,7 +3,18 @@ import { Strategy as LocalStrategy } from "passport-local";
 import { Express } from "express";
 import session from "express-session";
 import { storage } from "./storage";
-import { User as SelectUser, updatePinSchema, updateProfileSchema } from "@shared/schema";
+import { verifyPin, isHashedPin } from "./pin";
+import { toSafeUser } from "./serializers";
+import {
+  LoginRefusal,
+  checkAccountThrottle,
+  WRONG_PIN,
+  EXPIRED_TEMPORARY_PIN,
+  MAX_FAILED_ATTEMPTS_PER_IP,
+  IP_WINDOW_MINUTES,
+  LOGIN_ATTEMPT_RETENTION_DAYS
+} from "./login-throttle";
+import { User as SelectUser, LoginOutcome, updatePinSchema, updateProfileSchema, updateContactSchema } from "@shared/schema";
 import { ZodError } from "zod";
 
 declare global {
@@ -12,6 +23,33 @@ declare global {
   }
 }
 
+// Requests allowed while a member still has to choose a new PIN
+const PIN_CHANGE_PATHS = ["/login", "/logout", "/user", "/change-pin"];
+
+function mustChangePin(user: SelectUser): boolean {
+  return user.firstLogin || !!user.pinExpiresAt;
+}
+
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+let pruneTimer: NodeJS.Timeout | null = null;
+
+async function pruneLoginAttempts() {
+  try {
+    const before = new Date(Date.now() - LOGIN_ATTEMPT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const pruned = await storage.pruneLoginAttempts(before);
+    if (pruned > 0) console.log(`Removed ${pruned} old login attempt(s)`);
+  } catch (err) {
+    console.error("Error pruning login attempts:", err);
+  }
+}
+
+// Drops login attempts older than the retention period, once a day
+export function startLoginAttemptPruning(): void {
+  if (pruneTimer) return;
+  pruneTimer = setInterval(() => void pruneLoginAttempts(), PRUNE_INTERVAL_MS);
+  void pruneLoginAttempts();
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "dev_secret",
@@ -25,17 +63,75 @@ export function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // Until a member replaces the default or temporary PIN, the session only lets
+  // them do that. Calendar feeds authenticate by token rather than session.
+  app.use("/api", (req, res, next) => {
+    if (!req.isAuthenticated() || !mustChangePin(req.user)) return next();
+    if (PIN_CHANGE_PATHS.includes(req.path) || req.path.startsWith("/calendar/")) return next();
+    res.status(403).json({ message: "Please choose a new PIN before continuing" });
+  });
+
   passport.use(
     new LocalStrategy({
       usernameField: 'id',
-      passwordField: 'pin'
-    }, async (id, pin, done) => {
+      passwordField: 'pin',
+      passReqToCallback: true
+    }, async (req, id, pin, done) => {
       try {
+        const ipAddress = req.ip || "unknown";
+        const record = (userId: number | null, outcome: LoginOutcome) =>
+          storage.recordLoginAttempt({ userId, ipAddress, outcome });
+
+        // Per-IP limit stops guessing across many accounts from one device
+        const since = new Date(Date.now() - IP_WINDOW_MINUTES * 60 * 1000);
+        if (await storage.countFailedLoginAttemptsByIp(ipAddress, since) >= MAX_FAILED_ATTEMPTS_PER_IP) {
+          await record(null, "throttled");
+          return done(null, false, {
+            status: 429,
+            message: "Too many failed login attempts from this device. Please try again later.",
+            retryAfter: IP_WINDOW_MINUTES * 60
+          } as LoginRefusal);
+        }
+
         const user = await storage.getUser(parseInt(id));
-        if (!user || user.pin !== pin) {
-          return done(null, false);
+        if (!user) {
+          await record(null, "unknown_user");
+          return done(null, false, WRONG_PIN);
+        }
+
+        const refusal = checkAccountThrottle(user);
+        if (refusal) {
+          await record(user.id, refusal.status === 423 ? "locked" : "throttled");
+          return done(null, false, refusal);
+        }
+
+        if (!(await verifyPin(pin, user.pin))) {
+          const failed = await storage.recordFailedPin(user.id);
+          await record(user.id, "invalid_pin");
+
+          if (failed.lockedUntil) {
+            return done(null, false, checkAccountThrottle(failed) as LoginRefusal);
+          }
+          return done(null, false, WRONG_PIN);
+        }
+
+        // Temporary PINs issued by an admin reset stop working after the configured window
+        if (user.pinExpiresAt && user.pinExpiresAt <= new Date()) {
+          await record(user.id, "expired_pin");
+          return done(null, false, EXPIRED_TEMPORARY_PIN);
+        }
+
+        await record(user.id, "success");
+        let loggedInUser = user;
+        if (user.failedPinAttempts > 0 || user.lockedUntil) {
+          loggedInUser = await storage.unlockUser(user.id);
+        }
+
+        // Transparently upgrade PINs stored before hashing was introduced
+        if (!isHashedPin(loggedInUser.pin)) {
+          loggedInUser = await storage.rehashUserPin(user.id, pin);
         }
-        return done(null, user);
+        return done(null, loggedInUser);
       } catch (err) {
         return done(err);
       }
@@ -52,8 +148,20 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false, info?: LoginRefusal) => {
+      if (err) return next(err);
+      if (!user) {
+        const refusal = info?.status ? info : WRONG_PIN;
+        if (refusal.retryAfter) res.set("Retry-After", String(refusal.retryAfter));
+        return res.status(refusal.status).json({ message: refusal.message, retryAfter: refusal.retryAfter });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(toSafeUser(user));
+      });
+    })(req, res, next);
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -65,7 +173,7 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toSafeUser(req.user));
   });
 
   app.post("/api/change-pin", async (req, res) => {
@@ -75,15 +183,19 @@ export function setupAuth(app: Express) {
       const { currentPin, newPin } = updatePinSchema.parse(req.body);
       const user = await storage.getUser(req.user.id);
 
-      if (!user || user.pin !== currentPin) {
+      if (!user || !(await verifyPin(currentPin, user.pin))) {
         return res.status(400).json({ message: "Current PIN is incorrect" });
       }
+      // The default or temporary PIN is one-time; it can't be kept as the new PIN
+      if (mustChangePin(user) && newPin === currentPin) {
+        return res.status(400).json({ message: "Choose a PIN different from the one you were given" });
+      }
 
       const updatedUser = await storage.updateUserPin(user.id, newPin);
       // After successful PIN change, update the session
       req.login(updatedUser, (err) => {
         if (err) return res.status(500).json({ message: "Failed to update session" });
-        res.json(updatedUser);
+        res.json(toSafeUser(updatedUser));
       });
     } catch (err) {
       if (err instanceof ZodError) {
@@ -104,7 +216,7 @@ export function setupAuth(app: Express) {
       // Update the session with the new user data
       req.login(updatedUser, (err) => {
         if (err) return res.status(500).json({ message: "Failed to update session" });
-        res.json(updatedUser);
+        res.json(toSafeUser(updatedUser));
       });
     } catch (err) {
       if (err instanceof ZodError) {
@@ -117,4 +229,25 @@ export function setupAuth(app: Express) {
       }
     }
   });
+
+  // Members keep their own contact details and email preferences up to date
+  app.patch("/api/account/contact", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const data = updateContactSchema.parse(req.body);
+      const updatedUser = await storage.updateUserContact(req.user.id, data);
+
+      req.login(updatedUser, (err) => {
+        if (err) return res.status(500).json({ message: "Failed to update session" });
+        res.json(toSafeUser(updatedUser));
+      });
+    } catch (err) {
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: err.errors[0]?.message ?? "Invalid contact details" });
+      } else {
+        res.status(500).json({ message: "Failed to update contact details" });
+      }
+    }
+  });
 }
\ No newline at end of file
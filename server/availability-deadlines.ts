@@ -0,0 +1,28 @@
+import { DeadlineStatus } from "@shared/schema";
+import { getDeadlineStatus } from "@shared/deadlines";
+import { todayIn } from "@shared/dates";
+import { storage } from "./storage";
+
+// The month's deadline and lock state, as it applies to `userId` when given.
+// Without `today`, today is the date in the church's timezone.
+export async function getMonthDeadlineStatus(
+  year: number,
+  month: number,
+  userId?: number,
+  today?: string
+): Promise<DeadlineStatus> {
+  const [settings, override, exceptions] = await Promise.all([
+    storage.getSettings(),
+    storage.getAvailabilityDeadline(year, month),
+    userId !== undefined ? storage.getAvailabilityExceptions(year, month) : Promise.resolve([]),
+  ]);
+
+  return getDeadlineStatus({
+    year,
+    month,
+    deadlineDay: settings.deadlineDay,
+    override,
+    hasException: exceptions.some(exception => exception.userId === userId),
+    today: today ?? todayIn(settings.timeZone),
+  });
+}
@@ -0,0 +1,63 @@
+import { AvailabilityResponses, AvailabilityStatus, ResponseState } from "@shared/schema";
+import { availabilityStatus, isOwnAnswer } from "@shared/availability";
+import { compareServices } from "@shared/services";
+import { storage } from "./storage";
+import { toMemberSummary } from "./serializers";
+import { getMonthDeadlineStatus } from "./availability-deadlines";
+
+// Who has answered for the month's services and how, for the response dashboard.
+// Members have responded only with answers they gave themselves; answers filled in
+// from rules or time away are counted separately. Service totals include every answer.
+export async function getAvailabilityResponses(year: number, month: number): Promise<AvailabilityResponses> {
+  const monthServices = (await storage.getServicesForMonth(year, month)).sort(compareServices);
+  const serviceIds = monthServices.map(service => service.id);
+
+  const [deadline, members, allAnswers, reminders] = await Promise.all([
+    getMonthDeadlineStatus(year, month),
+    storage.getAllUsers(),
+    storage.getAvailabilityForServices(serviceIds),
+    storage.getAvailabilityReminders(year, month),
+  ]);
+  const memberIds = new Set(members.map(member => member.id));
+  const answers = allAnswers.filter(answer => memberIds.has(answer.userId));
+
+  const rows = members
+    .map(member => {
+      const own = answers.filter(answer => answer.userId === member.id && isOwnAnswer(answer));
+      const answered = new Set(own.map(answer => answer.serviceId)).size;
+      const filled = answers.filter(answer => answer.userId === member.id && !isOwnAnswer(answer)).length;
+      const state: ResponseState = answered === 0 ? "none" : answered < monthServices.length ? "partial" : "complete";
+      const latest = (dates: Date[]) =>
+        dates.length > 0 ? new Date(Math.max(...dates.map(date => date.getTime()))) : null;
+
+      return {
+        member: toMemberSummary(member),
+        state,
+        answered,
+        filled,
+        lastUpdated: latest(own.map(answer => answer.lastUpdated)),
+        lastReminder: latest(reminders.filter(reminder => reminder.userId === member.id).map(reminder => reminder.sentAt)),
+        canEmail: !!member.email && member.notifyAvailabilityReminders,
+      };
+    })
+    .sort((a, b) =>
+      a.member.lastName.localeCompare(b.member.lastName) ||
+      a.member.firstName.localeCompare(b.member.firstName)
+    );
+
+  const services = monthServices.map(service => {
+    const statuses = answers
+      .filter(answer => answer.serviceId === service.id)
+      .map(answer => availabilityStatus(answer));
+    const count = (status: AvailabilityStatus) => statuses.filter(value => value === status).length;
+    return {
+      service,
+      yes: count("yes"),
+      maybe: count("maybe"),
+      no: count("no"),
+      noResponse: members.length - statuses.length,
+    };
+  });
+
+  return { deadline, serviceCount: monthServices.length, members: rows, services };
+}
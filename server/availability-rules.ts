@@ -0,0 +1,26 @@
+import { Service } from "@shared/schema";
+import { parseDateKey, todayIn } from "@shared/dates";
+import { storage } from "./storage";
+import { getMonthDeadlineStatus } from "./availability-deadlines";
+
+// Re-applies a member's rules to the upcoming services they can still answer for.
+// Months that are locked for the member keep the answers they had.
+export async function applyRulesToOpenMonths(userId: number): Promise<void> {
+  const { timeZone } = await storage.getSettings();
+  const upcoming = await storage.getServicesFrom(todayIn(timeZone));
+
+  const byMonth = new Map<string, Service[]>();
+  for (const service of upcoming) {
+    const month = service.serviceDate.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), service]);
+  }
+
+  const open: Service[] = [];
+  for (const monthServices of Array.from(byMonth.values())) {
+    const { year, month } = parseDateKey(monthServices[0].serviceDate);
+    const status = await getMonthDeadlineStatus(year, month, userId);
+    if (!status.isLocked || status.hasException) open.push(...monthServices);
+  }
+
+  await storage.applyAvailabilityRules(open, [userId]);
+}
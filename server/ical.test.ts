@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { buildCalendar } from "./ical";
+
+const now = new Date("2025-01-01T00:00:00Z");
+const lines = (calendar: string) => calendar.split("\r\n");
+
+describe("buildCalendar", () => {
+  it("writes service times in UTC from the church's timezone", () => {
+    const calendar = buildCalendar("Services", [
+      { uid: "service-1", summary: "Morning", date: "2025-03-09", startTime: "10:00" },
+    ], "America/New_York", now);
+
+    expect(lines(calendar)).toContain("DTSTART:20250309T140000Z");
+    expect(lines(calendar)).toContain("DTEND:20250309T153000Z");
+    expect(lines(calendar)).toContain("X-WR-TIMEZONE:America/New_York");
+  });
+
+  it("keeps the same clock time either side of a change", () => {
+    const calendar = buildCalendar("Services", [
+      { uid: "service-1", summary: "Morning", date: "2025-04-05", startTime: "09:30" },
+      { uid: "service-2", summary: "Morning", date: "2025-04-06", startTime: "09:30" },
+    ], "Australia/Sydney", now);
+
+    expect(lines(calendar)).toContain("DTSTART:20250404T223000Z");
+    expect(lines(calendar)).toContain("DTSTART:20250405T233000Z");
+  });
+
+  it("writes all-day events as dates", () => {
+    const calendar = buildCalendar("Services", [
+      { uid: "special-day-1", summary: "Easter", date: "2025-04-20" },
+    ], "Australia/Sydney", now);
+
+    expect(lines(calendar)).toContain("DTSTART;VALUE=DATE:20250420");
+    expect(lines(calendar)).toContain("DTEND;VALUE=DATE:20250421");
+  });
+});
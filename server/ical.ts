@@ -0,0 +1,80 @@
+// Minimal iCalendar (RFC 5545) writer for the subscribable calendar feeds
+
+import { addDays, zonedTimeToUtc } from "@shared/dates";
+
+// Services have no end time, so calendar entries are given this length
+export const SERVICE_DURATION_MINUTES = 90;
+
+export type CalendarEvent = {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  date: string; // "yyyy-MM-dd"
+  startTime?: string; // "HH:mm"; omitted for all-day events
+  lastModified?: Date;
+};
+
+// Commas, semicolons, backslashes and newlines must be escaped in text values
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Builds a calendar document. Service times are the church's clock times in `timeZone`,
+// written in UTC so every calendar shows them at the right moment wherever it is.
+export function buildCalendar(name: string, events: CalendarEvent[], timeZone: string, now: Date = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ElServe//Service Roster//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+  ];
+
+  for (const event of events) {
+    lines.push("BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${formatUtc(now)}`);
+    if (event.startTime) {
+      const start = zonedTimeToUtc(event.date, event.startTime, timeZone);
+      const end = new Date(start.getTime() + SERVICE_DURATION_MINUTES * 60 * 1000);
+      lines.push(`DTSTART:${formatUtc(start)}`, `DTEND:${formatUtc(end)}`);
+    } else {
+      lines.push(
+        `DTSTART;VALUE=DATE:${event.date.replace(/-/g, "")}`,
+        `DTEND;VALUE=DATE:${addDays(event.date, 1).replace(/-/g, "")}`
+      );
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
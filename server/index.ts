@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startOutboxWorker } from "./outbox";
+import { startReminderScheduler } from "./reminders";
+import { startLoginAttemptPruning } from "./auth";
 
 const app = express();
 app.use(express.json());
@@ -67,4 +70,13 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Deliver queued email in the background
+  await startOutboxWorker();
+
+  // Availability reminders ahead of the monthly deadline
+  startReminderScheduler();
+
+  // Keep the login attempt log from growing without bound
+  startLoginAttemptPruning();
 })();
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import type { User } from "@shared/schema";
+import { LOCKOUT_MINUTES, MAX_FAILED_PIN_ATTEMPTS, backoffSeconds, checkAccountThrottle, lockoutUntil } from "./login-throttle";
+
+const now = new Date("2025-06-01T12:00:00Z");
+const member = (fields: Partial<User>) =>
+  ({ failedPinAttempts: 0, lastFailedLoginAt: null, lockedUntil: null, ...fields }) as User;
+
+describe("lockoutUntil", () => {
+  it("leaves the account open below the limit", () => {
+    expect(lockoutUntil(MAX_FAILED_PIN_ATTEMPTS - 1, now)).toBeNull();
+  });
+
+  it("locks from the limit onwards", () => {
+    const until = new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000);
+    expect(lockoutUntil(MAX_FAILED_PIN_ATTEMPTS, now)).toEqual(until);
+    expect(lockoutUntil(MAX_FAILED_PIN_ATTEMPTS + 3, now)).toEqual(until);
+  });
+});
+
+describe("checkAccountThrottle", () => {
+  it("refuses a locked account until the lock ends", () => {
+    const lockedUntil = new Date(now.getTime() + 90 * 1000);
+    expect(checkAccountThrottle(member({ lockedUntil }), now)).toMatchObject({ status: 423, retryAfter: 90 });
+    expect(checkAccountThrottle(member({ lockedUntil }), lockedUntil)).toBeNull();
+  });
+
+  it("makes the member wait longer after each wrong PIN", () => {
+    const lastFailedLoginAt = now;
+    expect(backoffSeconds(1)).toBe(0);
+    expect(checkAccountThrottle(member({ failedPinAttempts: 1, lastFailedLoginAt }), now)).toBeNull();
+    expect(checkAccountThrottle(member({ failedPinAttempts: 3, lastFailedLoginAt }), now))
+      .toMatchObject({ status: 429, retryAfter: 4 });
+  });
+});
@@ -0,0 +1,73 @@
+import { LoginOutcome, User } from "@shared/schema";
+
+// Consecutive wrong PINs before an account is locked
+export const MAX_FAILED_PIN_ATTEMPTS = 5;
+export const LOCKOUT_MINUTES = 15;
+
+// Failed attempts allowed from one IP address across all accounts
+export const MAX_FAILED_ATTEMPTS_PER_IP = 20;
+export const IP_WINDOW_MINUTES = 15;
+
+// Outcomes that count towards the per-IP limit. Refused attempts don't, so a
+// device that keeps retrying while refused isn't held off for ever.
+export const FAILED_LOGIN_OUTCOMES: LoginOutcome[] = ["invalid_pin", "unknown_user"];
+
+// How long login attempts are kept for the security log
+export const LOGIN_ATTEMPT_RETENTION_DAYS = 90;
+
+// Longest enforced wait between two attempts on the same account
+const MAX_BACKOFF_SECONDS = 60;
+
+export type LoginRefusal = {
+  status: 401 | 423 | 429;
+  message: string;
+  retryAfter?: number; // Seconds until another attempt is accepted
+};
+
+export const WRONG_PIN: LoginRefusal = { status: 401, message: "You put the wrong PIN" };
+
+export const EXPIRED_TEMPORARY_PIN: LoginRefusal = {
+  status: 401,
+  message: "Your temporary PIN has expired. Please ask the coordinator to reset your PIN again.",
+};
+
+// Wait required after the given number of consecutive failures: 0, 2, 4, 8... seconds
+export function backoffSeconds(failedAttempts: number): number {
+  if (failedAttempts <= 1) return 0;
+  return Math.min(2 ** (failedAttempts - 1), MAX_BACKOFF_SECONDS);
+}
+
+function secondsUntil(time: Date, now: Date): number {
+  return Math.max(1, Math.ceil((time.getTime() - now.getTime()) / 1000));
+}
+
+// Returns why this account may not attempt a login right now, if anything
+export function checkAccountThrottle(user: User, now: Date = new Date()): LoginRefusal | null {
+  if (user.lockedUntil && user.lockedUntil > now) {
+    return {
+      status: 423,
+      message: "This account is temporarily locked after too many wrong PINs. Please try again later or contact the coordinator.",
+      retryAfter: secondsUntil(user.lockedUntil, now),
+    };
+  }
+
+  if (user.lastFailedLoginAt) {
+    const nextAllowed = new Date(user.lastFailedLoginAt.getTime() + backoffSeconds(user.failedPinAttempts) * 1000);
+    if (nextAllowed > now) {
+      return {
+        status: 429,
+        message: "Too many attempts. Please wait a moment before trying again.",
+        retryAfter: secondsUntil(nextAllowed, now),
+      };
+    }
+  }
+
+  return null;
+}
+
+// When an account with this many consecutive wrong PINs is locked until, if at all
+export function lockoutUntil(failedPinAttempts: number, now: Date = new Date()): Date | null {
+  return failedPinAttempts >= MAX_FAILED_PIN_ATTEMPTS
+    ? new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000)
+    : null;
+}
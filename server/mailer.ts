@@ -0,0 +1,50 @@
+import nodemailer from "nodemailer";
+
+// SMTP settings shared by everything that sends email. For local testing, point
+// SMTP_HOST/SMTP_PORT at a stand-in server (see scripts/smtp-sink.ts) and leave
+// SMTP_USER unset to connect without authentication.
+export function getMailerConfig() {
+  const port = parseInt(process.env.SMTP_PORT || "587");
+  return {
+    host: process.env.SMTP_HOST,
+    port,
+    // For Gmail with port 465, we should set secure to true
+    secure: port === 465 || process.env.SMTP_SECURE === "true",
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from: process.env.SMTP_FROM,
+  };
+}
+
+// Safe to log: credentials are reported as set or not set
+export function describeMailerConfig() {
+  const config = getMailerConfig();
+  return {
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    user: config.user ? "Set" : "Not set",
+    pass: config.pass ? "Set" : "Not set",
+    from: config.from,
+  };
+}
+
+export function createTransporter(options: { debug?: boolean } = {}) {
+  const config = getMailerConfig();
+  return nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+    debug: options.debug,
+    logger: options.debug,
+    // Increase timeout to allow for slower connections
+    connectionTimeout: 10000, // 10 seconds
+    greetingTimeout: 10000,
+    socketTimeout: 30000, // 30 seconds
+    tls: {
+      // Do not fail on invalid certs
+      rejectUnauthorized: false
+    }
+  });
+}
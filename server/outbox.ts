@@ -0,0 +1,116 @@
+import { QueueEmail, OutboxEmail, OutboxAttachment } from "@shared/schema";
+import { storage } from "./storage";
+import { createTransporter, getMailerConfig } from "./mailer";
+
+// An email is marked failed after this many unsuccessful attempts
+export const MAX_SEND_ATTEMPTS = 5;
+
+// Wait before each retry; the last delay repeats if MAX_SEND_ATTEMPTS grows
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const BATCH_SIZE = 20;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+let runAgain = false;
+
+// When a pending email should next be tried after `attempts` failures
+export function retryAt(attempts: number, now: Date = new Date()): Date {
+  const delay = RETRY_DELAYS_MINUTES[Math.min(attempts, RETRY_DELAYS_MINUTES.length) - 1];
+  return new Date(now.getTime() + delay * 60 * 1000);
+}
+
+// Base64 contents of an attachment, stored separately or, on older emails, inline
+async function attachmentContent(attachment: OutboxAttachment): Promise<string> {
+  if (attachment.content !== undefined) return attachment.content;
+  const stored = attachment.attachmentId !== undefined
+    ? await storage.getEmailAttachment(attachment.attachmentId)
+    : undefined;
+  if (!stored) throw new Error(`Attachment ${attachment.filename} is missing`);
+  return stored.content;
+}
+
+async function deliver(transporter: ReturnType<typeof createTransporter>, email: OutboxEmail) {
+  const attempts = email.attempts + 1;
+  try {
+    const attachments = [];
+    for (const attachment of email.attachments) {
+      attachments.push({
+        filename: attachment.filename,
+        content: Buffer.from(await attachmentContent(attachment), "base64"),
+      });
+    }
+    const info = await transporter.sendMail({
+      from: getMailerConfig().from,
+      to: email.toName ? { name: email.toName, address: email.toAddress } : email.toAddress,
+      subject: email.subject,
+      text: email.text,
+      attachments,
+    });
+    console.log(`Outbox email ${email.id} sent:`, info.messageId);
+    await storage.updateOutboxEmail(email.id, {
+      status: "sent",
+      attempts,
+      lastError: null,
+      sentAt: new Date(),
+    });
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error(`Outbox email ${email.id} attempt ${attempts} failed:`, message);
+    await storage.updateOutboxEmail(email.id, attempts >= MAX_SEND_ATTEMPTS
+      ? { status: "failed", attempts, lastError: message }
+      : { status: "pending", attempts, lastError: message, nextAttemptAt: retryAt(attempts) }
+    );
+  }
+}
+
+// Sends everything that is due, a batch at a time
+export async function processOutbox(): Promise<void> {
+  if (running) {
+    runAgain = true;
+    return;
+  }
+  running = true;
+  try {
+    do {
+      runAgain = false;
+      const due = await storage.claimDueEmails(BATCH_SIZE);
+      if (due.length === 0) break;
+
+      const transporter = createTransporter();
+      try {
+        for (const email of due) {
+          await deliver(transporter, email);
+        }
+      } finally {
+        transporter.close();
+      }
+      if (due.length === BATCH_SIZE) runAgain = true;
+    } while (runAgain);
+  } catch (err) {
+    console.error("Error processing email outbox:", err);
+  } finally {
+    running = false;
+  }
+}
+
+// Stores the emails and starts sending them straight away
+export async function queueEmails(emails: QueueEmail[]): Promise<OutboxEmail[]> {
+  const queued = await storage.queueEmails(emails);
+  if (queued.length > 0) void processOutbox();
+  return queued;
+}
+
+export async function startOutboxWorker(): Promise<void> {
+  if (timer) return;
+
+  // Emails being sent when the server last stopped are tried again
+  const released = await storage.releaseSendingEmails();
+  if (released > 0) {
+    console.log(`Returned ${released} interrupted email(s) to the outbox`);
+  }
+
+  timer = setInterval(() => void processOutbox(), POLL_INTERVAL_MS);
+  void processOutbox();
+}
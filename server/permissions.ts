@@ -0,0 +1,39 @@
+import type { Request, Response, NextFunction } from "express";
+import { User } from "@shared/schema";
+import { AccessSummary, Permission, buildAccessSummary, hasPermission } from "@shared/permissions";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface Request {
+      access?: AccessSummary;
+    }
+  }
+}
+
+export async function getAccess(user: User): Promise<AccessSummary> {
+  const grants = user.isAdmin ? [] : await storage.getMemberRoles(user.id);
+  return buildAccessSummary(user.isAdmin, grants);
+}
+
+// Rejects the request with 403 unless the signed-in user holds the permission.
+// The resolved access summary is left on req.access for finer-grained checks.
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.sendStatus(403);
+    }
+
+    try {
+      const access = await getAccess(req.user);
+      if (!hasPermission(access, permission)) {
+        return res.sendStatus(403);
+      }
+
+      req.access = access;
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
@@ -0,0 +1,43 @@
+import { scrypt, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+
+// PIN given to newly created members until they choose their own
+export const DEFAULT_PIN = "000000";
+
+// One-time 6 digit PIN issued when an admin resets a member's PIN
+export function generateTemporaryPin(): string {
+  return randomInt(0, 1000000).toString().padStart(6, "0");
+}
+
+// Secret for a member's calendar feed URLs
+export function generateCalendarToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+// Hashed PINs are stored as "<hash>.<salt>" (both hex encoded)
+export async function hashPin(pin: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(pin, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+// Legacy rows hold the raw 4-6 digit PIN, which can never contain a "."
+export function isHashedPin(stored: string): boolean {
+  return stored.includes(".");
+}
+
+export async function verifyPin(supplied: string, stored: string): Promise<boolean> {
+  if (!isHashedPin(stored)) {
+    // Plaintext PIN from before hashing was introduced
+    const suppliedBuf = Buffer.from(supplied);
+    const storedBuf = Buffer.from(stored);
+    return suppliedBuf.length === storedBuf.length && timingSafeEqual(suppliedBuf, storedBuf);
+  }
+
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
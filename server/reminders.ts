@@ -0,0 +1,152 @@
+import { format, parseISO } from "date-fns";
+import { AvailabilityReminderKind, ReminderDeliverySummary, Settings, User } from "@shared/schema";
+import { parseDateKey, shiftMonth, zonedNow } from "@shared/dates";
+import { respondentIds } from "@shared/availability";
+import { storage } from "./storage";
+import { queueEmails } from "./outbox";
+import { getMonthDeadlineStatus } from "./availability-deadlines";
+
+// Reminders go out on the first check after this hour, church time
+const REMINDER_HOUR = 9;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+
+// Which reminder is due with `daysLeft` days to the deadline. A reminder missed
+// while the server was down is still sent, until the next one takes over.
+export function dueReminder(
+  daysLeft: number,
+  settings: Pick<Settings, "reminderDaysBefore" | "finalReminderDaysBefore">
+): AvailabilityReminderKind | null {
+  if (daysLeft < 0) return null;
+  const { reminderDaysBefore: first, finalReminderDaysBefore: final } = settings;
+  if (final > 0 && daysLeft <= final) return "final";
+  if (first > 0 && daysLeft <= first && (final === 0 || final < first)) return "first";
+  return null;
+}
+
+// Emails members who have not answered themselves for any of this month's or next month's
+// services, ahead of that month's deadline. Nothing goes out before REMINDER_HOUR
+// at the church, and months that have been locked or reopened by hand are left
+// alone. Returns the number of reminders queued.
+export async function sendAvailabilityReminders(now: Date = new Date()): Promise<number> {
+  const settings = await storage.getSettings();
+  const { date: today, hour } = zonedNow(settings.timeZone, now);
+  if (hour < REMINDER_HOUR) return 0;
+
+  const current = parseDateKey(today);
+  let queued = 0;
+
+  for (const offset of [0, 1]) {
+    const target = shiftMonth(current.year, current.month, offset);
+    const status = await getMonthDeadlineStatus(target.year, target.month, undefined, today);
+    if (status.lockState !== "auto" || status.isLocked) continue;
+
+    const kind = dueReminder(status.daysLeft, settings);
+    if (kind) queued += await remindMonth(status.year, status.month, status.deadline, kind);
+  }
+  return queued;
+}
+
+async function remindMonth(
+  year: number,
+  month: number,
+  deadline: string,
+  kind: AvailabilityReminderKind
+): Promise<number> {
+  const services = await storage.getServicesForMonth(year, month);
+  if (services.length === 0) return 0;
+
+  const [members, answers, sent] = await Promise.all([
+    storage.getAllUsers(),
+    storage.getAvailabilityForServices(services.map(service => service.id)),
+    storage.getAvailabilityReminders(year, month),
+  ]);
+  const responded = respondentIds(answers);
+  const alreadyReminded = new Set(sent.filter(reminder => reminder.kind === kind).map(reminder => reminder.userId));
+
+  const recipients = members.filter(member =>
+    member.email &&
+    member.notifyAvailabilityReminders &&
+    !responded.has(member.id) &&
+    !alreadyReminded.has(member.id)
+  );
+
+  for (const member of recipients) {
+    await queueReminder(member, year, month, deadline, kind);
+  }
+
+  if (recipients.length > 0) {
+    const monthName = format(new Date(year, month - 1, 1), "MMMM yyyy");
+    console.log(`Queued ${recipients.length} ${kind} availability reminder(s) for ${monthName}`);
+  }
+  return recipients.length;
+}
+
+// Reminds the chosen members straight away, as asked for from the response
+// dashboard. Members without an email address or who opted out are skipped.
+export async function sendManualReminders(year: number, month: number, userIds: number[]): Promise<ReminderDeliverySummary> {
+  const status = await getMonthDeadlineStatus(year, month);
+  if (status.isLocked) {
+    throw new Error("Availability for this month is locked. Reopen it before sending reminders.");
+  }
+
+  const members = (await storage.getAllUsers()).filter(member => userIds.includes(member.id));
+  const summary: ReminderDeliverySummary = { queued: 0, skipped: [] };
+
+  for (const member of members) {
+    const name = `${member.firstName} ${member.lastName}`;
+    if (!member.email) {
+      summary.skipped.push({ name, reason: "No email address" });
+    } else if (!member.notifyAvailabilityReminders) {
+      summary.skipped.push({ name, reason: "Opted out of reminders" });
+    } else {
+      await queueReminder(member, year, month, status.deadline, "manual");
+      summary.queued++;
+    }
+  }
+  return summary;
+}
+
+async function queueReminder(
+  member: User,
+  year: number,
+  month: number,
+  deadline: string,
+  kind: AvailabilityReminderKind
+): Promise<void> {
+  const monthName = format(new Date(year, month - 1, 1), "MMMM yyyy");
+  const deadlineText = format(parseISO(deadline), "EEEE d MMMM");
+  const link = process.env.APP_URL ? `\n\n${process.env.APP_URL}\n` : "\n";
+
+  const [queued] = await queueEmails([{
+    category: "availability_reminder",
+    toAddress: member.email!,
+    toName: `${member.firstName} ${member.lastName}`,
+    subject: kind === "final"
+      ? `Last reminder: availability for ${monthName} closes ${deadlineText}`
+      : `Availability for ${monthName} - please respond by ${deadlineText}`,
+    text: `Hi ${member.firstName},\n\n` +
+      (kind === "manual"
+        ? `We're still missing some or all of your availability for the ${monthName} services. `
+        : `We haven't had your availability for the ${monthName} services yet. `) +
+      `Please let us know which services you can make by ${deadlineText}, when availability is locked ` +
+      `and the roster is put together.` +
+      link,
+  }]);
+  await storage.recordAvailabilityReminder({ userId: member.id, year, month, kind, outboxId: queued?.id ?? null });
+}
+
+async function checkReminders() {
+  try {
+    await sendAvailabilityReminders();
+  } catch (err) {
+    console.error("Error sending availability reminders:", err);
+  }
+}
+
+export function startReminderScheduler(): void {
+  if (timer) return;
+  timer = setInterval(() => void checkReminders(), CHECK_INTERVAL_MS);
+  void checkReminders();
+}
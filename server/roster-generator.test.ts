@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import type { RosterAssignment, Service, ServiceRole } from "@shared/schema";
+import type { RoleEligibility } from "@shared/qualifications";
+import { AssignmentCount, RosterSlot, proposeRoster } from "./roster-generator";
+
+const SOUND = 1;
+const SLIDES = 2;
+
+const role = (id: number, maxLimit: number | null = 1) => ({ id, maxLimit }) as ServiceRole;
+
+const assignment = (serviceId: number, roleId: number, userId: number) =>
+  ({ id: serviceId * 100 + userId, serviceId, serviceDate: `2025-06-0${serviceId}`, roleId, userId }) as RosterAssignment;
+
+const slot = (
+  serviceId: number,
+  roles: ServiceRole[],
+  availableByRole: Record<number, number[]>,
+  fields: { maybes?: number[]; assignments?: RosterAssignment[] } = {},
+): RosterSlot => ({
+  service: { id: serviceId, serviceDate: `2025-06-0${serviceId}`, startTime: "10:00" } as Service,
+  availablePeople: Array.from(new Set(Object.values(availableByRole).flat()))
+    .map(id => ({ id, isMaybe: fields.maybes?.includes(id) })),
+  availableByRole,
+  assignments: fields.assignments ?? [],
+  roles,
+});
+
+const propose = (
+  slots: RosterSlot[],
+  history: AssignmentCount[] = [],
+  eligibility: (userId: number, roleId: number) => RoleEligibility = () => "qualified",
+) => proposeRoster(slots, history, eligibility, () => true);
+
+const chosen = (slots: RosterSlot[], history?: AssignmentCount[], eligibility?: (userId: number, roleId: number) => RoleEligibility) =>
+  propose(slots, history, eligibility).assignments.map(({ serviceId, roleId, userId }) => [serviceId, roleId, userId]);
+
+describe("proposeRoster", () => {
+  it("proposes members who are only available if needed last", () => {
+    expect(chosen([slot(1, [role(SOUND)], { [SOUND]: [10, 11] }, { maybes: [10] })])).toEqual([[1, SOUND, 11]]);
+    expect(chosen([slot(1, [role(SOUND, 2)], { [SOUND]: [10, 11] }, { maybes: [10] })]))
+      .toEqual([[1, SOUND, 11], [1, SOUND, 10]]);
+  });
+
+  it("proposes the member who has served least", () => {
+    const history = [{ userId: 10, roleId: SOUND, count: 2 }, { userId: 11, roleId: SLIDES, count: 1 }];
+    expect(chosen([slot(1, [role(SOUND)], { [SOUND]: [10, 11] })], history)).toEqual([[1, SOUND, 11]]);
+  });
+
+  it("spreads the month before evening out earlier months", () => {
+    const history = [{ userId: 11, roleId: SOUND, count: 2 }];
+    expect(chosen([
+      slot(1, [role(SOUND)], { [SOUND]: [10, 11] }),
+      slot(2, [role(SOUND)], { [SOUND]: [10, 11] }),
+    ], history)).toEqual([[1, SOUND, 10], [2, SOUND, 11]]);
+  });
+
+  it("breaks ties by preference, then by who has served least in the role", () => {
+    const prefersSound = (userId: number): RoleEligibility => userId === 11 ? "preferred" : "qualified";
+    expect(chosen([slot(1, [role(SOUND)], { [SOUND]: [10, 11] })], [], prefersSound)).toEqual([[1, SOUND, 11]]);
+
+    const history = [{ userId: 10, roleId: SOUND, count: 1 }, { userId: 11, roleId: SLIDES, count: 1 }];
+    expect(chosen([slot(1, [role(SOUND)], { [SOUND]: [10, 11] })], history)).toEqual([[1, SOUND, 11]]);
+  });
+
+  it("only proposes members for the roles they offered", () => {
+    expect(chosen([slot(1, [role(SOUND), role(SLIDES)], { [SOUND]: [10], [SLIDES]: [11] })]))
+      .toEqual([[1, SOUND, 10], [1, SLIDES, 11]]);
+  });
+
+  it("doesn't propose anyone for two roles in one service", () => {
+    expect(chosen([slot(1, [role(SOUND), role(SLIDES)], { [SOUND]: [10], [SLIDES]: [10] })])).toEqual([[1, SOUND, 10]]);
+    expect(chosen([slot(1, [role(SOUND), role(SLIDES)], { [SOUND]: [10], [SLIDES]: [10, 11] }, {
+      assignments: [assignment(1, SLIDES, 11)],
+    })])).toEqual([[1, SOUND, 10]]);
+  });
+
+  it("counts existing assignments towards the role limit", () => {
+    const existing = [assignment(1, SOUND, 12)];
+    expect(chosen([slot(1, [role(SOUND, 2)], { [SOUND]: [10, 11] }, { assignments: existing })])).toEqual([[1, SOUND, 10]]);
+    expect(chosen([slot(1, [role(SOUND, 1)], { [SOUND]: [10, 11] }, { assignments: existing })])).toEqual([]);
+  });
+
+  it("reports places nobody could fill", () => {
+    const { unfilled } = propose([
+      slot(1, [role(SOUND, 3), role(SLIDES)], { [SOUND]: [10] }),
+      slot(2, [role(SOUND)], { [SOUND]: [10] }),
+    ]);
+    expect(unfilled).toEqual([
+      { serviceId: 1, roleId: SOUND, missing: 2 },
+      { serviceId: 1, roleId: SLIDES, missing: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { RosterAssignment, Service, ServiceRole, ProposedAssignment, RosterProposal } from "@shared/schema";
+import { compareServices } from "@shared/services";
+import { RoleEligibility, canAutoAssign } from "@shared/qualifications";
+
+// One service of the month as returned by storage.getServicesWithPeople
+export type RosterSlot = {
+  service: Service;
+  availablePeople: { id: number; isMaybe?: boolean }[];
+  availableByRole: Record<number, number[]>; // Available members who offered each role
+  assignments: RosterAssignment[];
+  roles: ServiceRole[];
+};
+
+// How many times a member served in a role before the month being rostered
+export type AssignmentCount = {
+  userId: number;
+  roleId: number;
+  count: number;
+};
+
+// An assignment this month counts this many times more than one from an earlier
+// month, so the month is spread evenly before long-term history is evened out
+const CURRENT_MONTH_WEIGHT = 3;
+
+// Proposes assignments for every open place in the month's roster. Places are
+// filled service by service, giving each role the available members with the
+// lowest load so far, and nobody is proposed for two roles in one service.
+// Only members qualified for a role are proposed, and those who prefer it win ties.
+// Members who are only available if needed are proposed after everyone else, and
+// members who offered only some roles for the date are only proposed for those.
+// Existing assignments are kept and count towards role limits and load.
+export function proposeRoster(
+  slots: RosterSlot[],
+  history: AssignmentCount[],
+  eligibility: (userId: number, roleId: number) => RoleEligibility,
+  canRosterRole: (roleId: number) => boolean
+): RosterProposal {
+  const previous = new Map<number, number>();
+  const previousInRole = new Map<string, number>();
+  for (const { userId, roleId, count } of history) {
+    previous.set(userId, (previous.get(userId) ?? 0) + count);
+    previousInRole.set(`${userId}:${roleId}`, count);
+  }
+
+  const current = new Map<number, number>();
+  for (const slot of slots) {
+    for (const assignment of slot.assignments) {
+      current.set(assignment.userId, (current.get(assignment.userId) ?? 0) + 1);
+    }
+  }
+
+  const proposed = new Map<number, number>();
+  const assignments: ProposedAssignment[] = [];
+  const unfilled: RosterProposal["unfilled"] = [];
+
+  const score = (userId: number) =>
+    (previous.get(userId) ?? 0) +
+    CURRENT_MONTH_WEIGHT * ((current.get(userId) ?? 0) + (proposed.get(userId) ?? 0));
+
+  for (const slot of [...slots].sort((a, b) => compareServices(a.service, b.service))) {
+    const busy = new Set(slot.assignments.map(assignment => assignment.userId));
+
+    for (const role of slot.roles) {
+      if (!canRosterRole(role.id)) continue;
+
+      // Roles without a limit get one person; more can be added by hand
+      const wanted = (role.maxLimit ?? 1) - slot.assignments.filter(a => a.roleId === role.id).length;
+      if (wanted <= 0) continue;
+
+      const maybes = new Set(slot.availablePeople.filter(person => person.isMaybe).map(person => person.id));
+      const candidates = slot.availablePeople
+        .map(person => person.id)
+        .filter(userId =>
+          !busy.has(userId) &&
+          (slot.availableByRole[role.id] ?? []).includes(userId) &&
+          canAutoAssign(eligibility(userId, role.id))
+        )
+        .sort((a, b) =>
+          Number(maybes.has(a)) - Number(maybes.has(b)) ||
+          score(a) - score(b) ||
+          Number(eligibility(b, role.id) === "preferred") - Number(eligibility(a, role.id) === "preferred") ||
+          (previousInRole.get(`${a}:${role.id}`) ?? 0) - (previousInRole.get(`${b}:${role.id}`) ?? 0) ||
+          a - b
+        );
+
+      const chosen = candidates.slice(0, wanted);
+      for (const userId of chosen) {
+        assignments.push({ serviceId: slot.service.id, roleId: role.id, userId });
+        busy.add(userId);
+        proposed.set(userId, (proposed.get(userId) ?? 0) + 1);
+      }
+
+      if (chosen.length < wanted) {
+        unfilled.push({ serviceId: slot.service.id, roleId: role.id, missing: wanted - chosen.length });
+      }
+    }
+  }
+
+  const memberIds = new Set<number>([
+    ...Array.from(current.keys()),
+    ...Array.from(proposed.keys()),
+    ...slots.flatMap(slot => slot.availablePeople.map(person => person.id)),
+  ]);
+  const load = Array.from(memberIds)
+    .map(userId => ({
+      userId,
+      previous: previous.get(userId) ?? 0,
+      current: current.get(userId) ?? 0,
+      proposed: proposed.get(userId) ?? 0,
+    }))
+    .sort((a, b) => (b.current + b.proposed) - (a.current + a.proposed) || b.previous - a.previous);
+
+  return { assignments, unfilled, load };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from "vitest";
+import type { PublishedAssignment } from "@shared/schema";
+import { diffMemberAssignments } from "./roster-notifications";
+
+// Only the pure diff is tested; the database is never reached
+vi.mock("./storage", () => ({ storage: {} }));
+
+const SOUND = 1;
+const SLIDES = 2;
+
+const place = (userId: number, serviceId: number, roleId: number): PublishedAssignment => ({ userId, serviceId, roleId });
+
+describe("diffMemberAssignments", () => {
+  it("reports a new assignment as added", () => {
+    const changes = diffMemberAssignments([], [place(10, 1, SOUND)]);
+    expect(changes.get(10)).toEqual({ added: [place(10, 1, SOUND)], removed: [], moved: [] });
+  });
+
+  it("reports a dropped assignment as removed", () => {
+    const changes = diffMemberAssignments([place(10, 1, SOUND)], []);
+    expect(changes.get(10)).toEqual({ added: [], removed: [place(10, 1, SOUND)], moved: [] });
+  });
+
+  it("reports the same role at another service as a move", () => {
+    const changes = diffMemberAssignments([place(10, 1, SOUND)], [place(10, 2, SOUND)]);
+    expect(changes.get(10)).toEqual({ added: [], removed: [], moved: [{ from: place(10, 1, SOUND), to: place(10, 2, SOUND) }] });
+  });
+
+  it("keeps a change of role as a removal and an addition", () => {
+    const changes = diffMemberAssignments([place(10, 1, SOUND)], [place(10, 1, SLIDES)]);
+    expect(changes.get(10)).toEqual({ added: [place(10, 1, SLIDES)], removed: [place(10, 1, SOUND)], moved: [] });
+  });
+
+  it("leaves out members whose assignments are unchanged", () => {
+    const changes = diffMemberAssignments(
+      [place(10, 1, SOUND), place(11, 1, SLIDES)],
+      [place(10, 1, SOUND), place(11, 2, SLIDES)],
+    );
+    expect(Array.from(changes.keys())).toEqual([11]);
+  });
+});
@@ -0,0 +1,143 @@
+import { format, parseISO } from "date-fns";
+import { PublishedAssignment, RosterVersion, Service, ServiceRole, User } from "@shared/schema";
+import { formatServiceLabel } from "@shared/services";
+import { storage } from "./storage";
+import { queueEmails } from "./outbox";
+import { diffAssignments } from "./roster-versions";
+
+// What changed for one member between two publications of a month's roster.
+// A removal and an addition in the same role count as a move.
+export type AssignmentChanges = {
+  added: PublishedAssignment[];
+  removed: PublishedAssignment[];
+  moved: { from: PublishedAssignment; to: PublishedAssignment }[];
+};
+
+// Per member, only for members whose assignments differ
+export function diffMemberAssignments(
+  previous: PublishedAssignment[],
+  current: PublishedAssignment[]
+): Map<number, AssignmentChanges> {
+  const { added, removed } = diffAssignments(previous, current);
+  const changes = new Map<number, AssignmentChanges>();
+  const forMember = (userId: number) => {
+    let entry = changes.get(userId);
+    if (!entry) {
+      entry = { added: [], removed: [], moved: [] };
+      changes.set(userId, entry);
+    }
+    return entry;
+  };
+
+  added.forEach(assignment => forMember(assignment.userId).added.push(assignment));
+  removed.forEach(assignment => forMember(assignment.userId).removed.push(assignment));
+
+  changes.forEach(entry => {
+    entry.removed = entry.removed.filter(from => {
+      const index = entry.added.findIndex(to => to.roleId === from.roleId);
+      if (index === -1) return true;
+      entry.moved.push({ from, to: entry.added[index] });
+      entry.added.splice(index, 1);
+      return false;
+    });
+  });
+
+  return changes;
+}
+
+type Lookups = {
+  services: Map<number, Service>;
+  roles: Map<number, ServiceRole>;
+};
+
+// e.g. "Sunday 2 November, 10:00am Sunday Service - Sound"
+function describePlace(assignment: PublishedAssignment, { services, roles }: Lookups): string {
+  const service = services.get(assignment.serviceId);
+  const role = roles.get(assignment.roleId)?.name ?? "Unknown role";
+  if (!service) return role;
+  return `${format(parseISO(service.serviceDate), "EEEE d MMMM")}, ${formatServiceLabel(service)} - ${role}`;
+}
+
+function byServiceDate(lookups: Lookups) {
+  return (a: PublishedAssignment, b: PublishedAssignment) => {
+    const first = lookups.services.get(a.serviceId);
+    const second = lookups.services.get(b.serviceId);
+    return `${first?.serviceDate} ${first?.startTime}`.localeCompare(`${second?.serviceDate} ${second?.startTime}`);
+  };
+}
+
+export function buildAssignmentEmailText(
+  member: Pick<User, "firstName">,
+  monthName: string,
+  assignments: PublishedAssignment[],
+  changes: AssignmentChanges | null,
+  lookups: Lookups
+): string {
+  const list = (items: PublishedAssignment[]) =>
+    [...items].sort(byServiceDate(lookups)).map(item => `- ${describePlace(item, lookups)}`).join("\n");
+  const lines = [`Hi ${member.firstName},`, ""];
+
+  if (!changes) {
+    lines.push(`The roster for ${monthName} is out. You're serving on:`, "", list(assignments));
+  } else {
+    lines.push(`The roster for ${monthName} has been revised. What changed for you:`, "");
+    if (changes.added.length > 0) lines.push("Added:", list(changes.added), "");
+    if (changes.removed.length > 0) lines.push("Removed:", list(changes.removed), "");
+    for (const { from, to } of changes.moved) {
+      lines.push(`Moved: ${describePlace(from, lookups)}`, `    to ${describePlace(to, lookups)}`, "");
+    }
+    lines.push(assignments.length > 0
+      ? `Your assignments for ${monthName} are now:\n\n${list(assignments)}`
+      : `You are no longer rostered in ${monthName}.`);
+  }
+
+  if (assignments.length > 0) {
+    lines.push("", "If you can't make a date, use Find Cover on the roster page to ask someone to take it.");
+  }
+  if (process.env.APP_URL) lines.push("", process.env.APP_URL);
+  return lines.join("\n") + "\n";
+}
+
+// Emails each affected member about a newly finalized version of a month: everyone
+// rostered in the first version, and only members whose assignments changed since
+// the previous one. Returns how many emails were queued.
+export async function notifyRosterFinalized(version: RosterVersion, previous: RosterVersion | null): Promise<number> {
+  const { year, month, createdBy } = version;
+  const [monthServices, allRoles, members] = await Promise.all([
+    storage.getServicesForMonth(year, month),
+    storage.getAllServiceRoles(),
+    storage.getAllUsers(),
+  ]);
+
+  const current = version.assignments;
+  const changes = previous ? diffMemberAssignments(previous.assignments, current) : null;
+
+  const lookups: Lookups = {
+    services: new Map(monthServices.map(service => [service.id, service])),
+    roles: new Map(allRoles.map(role => [role.id, role])),
+  };
+  const monthName = format(new Date(year, month - 1, 1), "MMMM yyyy");
+  const recipientIds = changes
+    ? Array.from(changes.keys())
+    : Array.from(new Set(current.map(assignment => assignment.userId)));
+
+  const emails = members
+    .filter(member => recipientIds.includes(member.id) && member.email && member.notifyRosterEmails)
+    .map(member => ({
+      category: "assignment",
+      toAddress: member.email!,
+      toName: `${member.firstName} ${member.lastName}`,
+      subject: changes ? `Your roster has changed - ${monthName}` : `Your roster for ${monthName}`,
+      text: buildAssignmentEmailText(
+        member,
+        monthName,
+        current.filter(assignment => assignment.userId === member.id),
+        changes?.get(member.id) ?? null,
+        lookups
+      ),
+      createdBy,
+    }));
+
+  await queueEmails(emails);
+  return emails.length;
+}
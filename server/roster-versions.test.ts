@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from "vitest";
+import type { PublishedAssignment, Service, ServiceRole, User } from "@shared/schema";
+import { buildRosterDiff } from "./roster-versions";
+
+// Only the pure diff is tested; the database is never reached
+vi.mock("./storage", () => ({ storage: {} }));
+
+const SOUND = 1;
+const SLIDES = 2;
+
+const place = (userId: number, serviceId: number, roleId: number): PublishedAssignment => ({ userId, serviceId, roleId });
+
+const lookups = {
+  services: [1, 2].map(id => ({ id, serviceDate: `2025-06-0${id}`, startTime: "10:00", name: "Morning" }) as Service),
+  roles: [{ id: SOUND, order: 1 }, { id: SLIDES, order: 2 }] as ServiceRole[],
+  users: [10, 11].map(id => ({ id, firstName: `Member${id}`, lastName: "Test", initials: null }) as User),
+};
+
+const diff = (previous: PublishedAssignment[], current: PublishedAssignment[]) =>
+  buildRosterDiff(1, 2, previous, current, lookups).changes
+    .map(({ serviceId, roleId, added, removed }) => ({
+      serviceId,
+      roleId,
+      added: added.map(member => member.id),
+      removed: removed.map(member => member.id),
+    }));
+
+describe("buildRosterDiff", () => {
+  it("lists a new assignment as added", () => {
+    expect(diff([], [place(10, 1, SOUND)])).toEqual([{ serviceId: 1, roleId: SOUND, added: [10], removed: [] }]);
+  });
+
+  it("lists a dropped assignment as removed", () => {
+    expect(diff([place(10, 1, SOUND)], [])).toEqual([{ serviceId: 1, roleId: SOUND, added: [], removed: [10] }]);
+  });
+
+  it("shows a move as a removal from one place and an addition to the other, in service order", () => {
+    expect(diff([place(10, 2, SOUND)], [place(10, 1, SLIDES)])).toEqual([
+      { serviceId: 1, roleId: SLIDES, added: [10], removed: [] },
+      { serviceId: 2, roleId: SOUND, added: [], removed: [10] },
+    ]);
+  });
+
+  it("puts a replacement in the same place together", () => {
+    expect(diff([place(10, 1, SOUND)], [place(11, 1, SOUND)])).toEqual([
+      { serviceId: 1, roleId: SOUND, added: [11], removed: [10] },
+    ]);
+  });
+
+  it("leaves out places that are unchanged", () => {
+    expect(diff([place(10, 1, SOUND), place(11, 1, SLIDES)], [place(10, 1, SOUND), place(11, 1, SLIDES)])).toEqual([]);
+  });
+
+  it("names members who have since been removed", () => {
+    const [change] = buildRosterDiff(1, "draft", [], [place(99, 1, SOUND)], lookups).changes;
+    expect(change.added).toEqual([{ id: 99, firstName: "Removed", lastName: "member", initials: null }]);
+  });
+});
@@ -0,0 +1,79 @@
+import { PublishedAssignment, RosterAssignment, RosterDiff, Service, ServiceRole, User } from "@shared/schema";
+import { compareServices } from "@shared/services";
+import { toMemberSummary } from "./serializers";
+
+const placeKey = (assignment: PublishedAssignment) =>
+  `${assignment.userId}:${assignment.serviceId}:${assignment.roleId}`;
+
+// The parts of the month's assignments that a version records
+export function snapshotAssignments(assignments: RosterAssignment[]): PublishedAssignment[] {
+  return assignments
+    .filter(assignment => assignment.serviceId !== null)
+    .map(assignment => ({ userId: assignment.userId, serviceId: assignment.serviceId!, roleId: assignment.roleId }));
+}
+
+// Places in `current` but not `previous`, and the other way round
+export function diffAssignments(
+  previous: PublishedAssignment[],
+  current: PublishedAssignment[]
+): { added: PublishedAssignment[]; removed: PublishedAssignment[] } {
+  const previousKeys = new Set(previous.map(placeKey));
+  const currentKeys = new Set(current.map(placeKey));
+  return {
+    added: current.filter(assignment => !previousKeys.has(placeKey(assignment))),
+    removed: previous.filter(assignment => !currentKeys.has(placeKey(assignment))),
+  };
+}
+
+// Groups the differences by service and role, in service order then role order
+export function buildRosterDiff(
+  from: RosterDiff["from"],
+  to: RosterDiff["to"],
+  previous: PublishedAssignment[],
+  current: PublishedAssignment[],
+  lookups: { services: Service[]; roles: ServiceRole[]; users: User[] }
+): RosterDiff {
+  const services = new Map(lookups.services.map(service => [service.id, service]));
+  const roles = new Map(lookups.roles.map(role => [role.id, role]));
+  const users = new Map(lookups.users.map(user => [user.id, user]));
+  const { added, removed } = diffAssignments(previous, current);
+
+  const changes = new Map<string, RosterDiff["changes"][number]>();
+  const entryFor = (assignment: PublishedAssignment) => {
+    const key = `${assignment.serviceId}:${assignment.roleId}`;
+    let entry = changes.get(key);
+    if (!entry) {
+      entry = {
+        serviceId: assignment.serviceId,
+        roleId: assignment.roleId,
+        service: services.get(assignment.serviceId) ?? null,
+        role: roles.get(assignment.roleId) ?? null,
+        added: [],
+        removed: [],
+      };
+      changes.set(key, entry);
+    }
+    return entry;
+  };
+  const member = (userId: number) => {
+    const user = users.get(userId);
+    return user ? toMemberSummary(user) : { id: userId, firstName: "Removed", lastName: "member", initials: null };
+  };
+
+  added.forEach(assignment => entryFor(assignment).added.push(member(assignment.userId)));
+  removed.forEach(assignment => entryFor(assignment).removed.push(member(assignment.userId)));
+
+  return {
+    from,
+    to,
+    changes: Array.from(changes.values()).sort((a, b) => {
+      if (a.service && b.service) {
+        const byService = compareServices(a.service, b.service);
+        if (byService !== 0) return byService;
+      } else if (a.service !== b.service) {
+        return a.service ? -1 : 1;
+      }
+      return (a.role?.order ?? 0) - (b.role?.order ?? 0);
+    }),
+  };
+}
@@ -1,62 +1,250 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
-import { storage } from "./storage";
+import { RosterRuleError, storage } from "./storage";
 import { ZodError } from "zod";
 import { 
-  insertAvailabilitySchema, 
-  deadlineDaySchema, 
+  setAvailabilitySchema, 
+  updateSettingsSchema, 
   User, 
   insertVerseSchema, 
   insertSpecialDaySchema,
   insertServiceRoleSchema,
-  insertRosterAssignmentSchema,
+  createRosterAssignmentSchema,
+  updateRosterAssignmentSchema,
+  insertServiceSchema,
+  updateServiceSchema,
+  insertServiceScheduleSchema,
+  updateServiceScheduleSchema,
+  generateServicesSchema,
+  acceptRosterProposalSchema,
+  setMemberQualificationSchema,
   insertFinalizedRosterSchema,
+  createSwapRequestSchema,
+  respondSwapRequestSchema,
+  decideSwapRequestSchema,
   updateProfileSchema,
   updateMemberNameSchema,
+  updateContactSchema,
+  sendRosterSchema,
+  outboxFilterSchema,
+  rosterDiffQuerySchema,
+  updateMonthDeadlineSchema,
+  availabilityRuleSchema,
+  createTimeAwaySchema,
+  sendAvailabilityRemindersSchema,
+  updateMemberRolesSchema,
+  auditLogFilterSchema,
   Verse,
+  Service,
   RosterAssignment,
-  FinalizedRoster
+  FinalizedRoster,
+  SwapRequest,
+  SwapRequestDetails,
+  SwapOptions,
+  ScheduleEntry,
+  MySchedule,
+  CalendarLinks,
+  RosterDeliverySummary,
+  RosterVersionSummary,
+  MonthDeadlineSettings,
+  CreatedTimeAway
 } from "@shared/schema";
-import nodemailer from "nodemailer";
+import { createTransporter, describeMailerConfig } from "./mailer";
+import { queueEmails, processOutbox } from "./outbox";
+import { notifyRosterFinalized } from "./roster-notifications";
+import { snapshotAssignments, buildRosterDiff } from "./roster-versions";
+import { getMonthDeadlineStatus } from "./availability-deadlines";
+import { applyRulesToOpenMonths } from "./availability-rules";
+import { applyNewTimeAway } from "./time-away";
+import { getAvailabilityResponses } from "./availability-responses";
+import { sendManualReminders } from "./reminders";
 import { renderToBuffer } from "@react-pdf/renderer";
 import { createElement } from "react";
 import { format } from "date-fns";
-import { RosterPDF } from "../client/src/components/roster-pdf";
+import { AvailableMember, RosterPDF } from "../client/src/components/roster-pdf";
+import { DEFAULT_PIN, generateTemporaryPin, generateCalendarToken } from "./pin";
+import { toSafeUser, toMemberSummary, toDirectory, withMemberSummary, toOutboxEntry, toTimeAwayEntries } from "./serializers";
+import { getAccess, requirePermission } from "./permissions";
+import { recordAudit } from "./audit";
+import { proposeRoster } from "./roster-generator";
+import { findSwapOptions } from "./swap-options";
+import { buildCalendar, CalendarEvent } from "./ical";
+import { canRosterServiceRole, hasPermission } from "@shared/permissions";
+import { createEligibilityLookup } from "@shared/qualifications";
+import { compareServices, formatServiceLabel } from "@shared/services";
+import { dateKey, parseDateKey, shiftMonth, toDateKey, todayIn } from "@shared/dates";
+import { availabilityStatus, statusColumns } from "@shared/availability";
+
+// Natural key used for roster months in the audit log, e.g. "2025-04"
+function rosterMonthKey(year: number, month: number): string {
+  return `${year}-${String(month).padStart(2, "0")}`;
+}
+
+// Today's "yyyy-MM-dd" date in the church's timezone
+async function churchToday(): Promise<string> {
+  return todayIn((await storage.getSettings()).timeZone);
+}
+
+// Whether the month containing a "yyyy-MM-dd" service date has a finalized roster
+async function isMonthFinalized(serviceDate: string): Promise<boolean> {
+  const { year, month } = parseDateKey(serviceDate);
+  const finalizedRoster = await storage.getFinalizedRoster(year, month);
+  return finalizedRoster?.isFinalized === true;
+}
+
+// Who could take over an upcoming assignment, by the rules in findSwapOptions
+async function findSwapOptionsFor(assignment: RosterAssignment) {
+  const { year, month } = parseDateKey(assignment.serviceDate);
+  const [slots, qualifications, today] = await Promise.all([
+    storage.getServicesWithPeople(year, month),
+    storage.getMemberQualifications(),
+    churchToday(),
+  ]);
+  const options = findSwapOptions(
+    slots,
+    assignment,
+    createEligibilityLookup(qualifications),
+    slot => slot.service.serviceDate >= today
+  );
+  return { ...options, slots };
+}
+
+// How far back calendar feeds go, so old entries stay in subscribers' calendars for a while
+const CALENDAR_HISTORY_MONTHS = 3;
+
+async function calendarFeedStart(): Promise<string> {
+  const today = parseDateKey(await churchToday());
+  const start = shiftMonth(today.year, today.month, -CALENDAR_HISTORY_MONTHS);
+  return dateKey(start.year, start.month, 1);
+}
+
+function calendarLinks(req: Request, token: string): CalendarLinks {
+  const base = `${req.protocol}://${req.get("host")}/api/calendar/${token}`;
+  return {
+    memberFeedUrl: `${base}/my-roster.ics`,
+    churchFeedUrl: `${base}/services.ics`
+  };
+}
+
+// Attaches the people, services and role each swap request refers to
+async function withSwapDetails(requests: SwapRequest[]): Promise<SwapRequestDetails[]> {
+  const [users, roles] = await Promise.all([storage.getAllUsers(), storage.getAllServiceRoles()]);
+  const userMap = new Map(users.map(user => [user.id, user]));
+  const roleMap = new Map(roles.map(role => [role.id, role]));
+  const serviceCache = new Map<number, Service | undefined>();
+  const findService = async (id: number | null | undefined) => {
+    if (id === null || id === undefined) return null;
+    if (!serviceCache.has(id)) serviceCache.set(id, await storage.getService(id));
+    return serviceCache.get(id) ?? null;
+  };
+  const summary = (userId: number) => {
+    const user = userMap.get(userId);
+    return user ? toMemberSummary(user) : null;
+  };
+  
+  return Promise.all(requests.map(async request => {
+    const swapAssignment = request.swapAssignmentId !== null
+      ? await storage.getRosterAssignment(request.swapAssignmentId)
+      : undefined;
+    return {
+      ...request,
+      requester: summary(request.requesterId),
+      replacement: summary(request.replacementId),
+      service: await findService(request.serviceId),
+      role: roleMap.get(request.roleId) ?? null,
+      swapService: await findService(swapAssignment?.serviceId)
+    };
+  }));
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   setupAuth(app);
 
-  // Get all users (for login dropdown)
+  // Public login directory (for login dropdown) - id and display name only
   app.get("/api/users", async (_req, res) => {
     try {
       const users = await storage.getAllUsers();
-      res.json(users);
+      res.json(await toDirectory(users));
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch users" });
     }
   });
 
-  // Admin routes
-  app.get("/api/admin/members", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
+  // Member list for signed-in users
+  app.get("/api/members", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toMemberSummary));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch members" });
     }
+  });
+
+  // Roles and permissions of the signed-in user, used to gate the UI
+  app.get("/api/user/access", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      res.json(await getAccess(req.user));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch access" });
+    }
+  });
 
+  // Admin routes
+  app.get("/api/admin/members", requirePermission("members.view"), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
-      res.json(users);
+      res.json(users.map(toSafeUser));
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch members" });
     }
   });
 
-  // Add settings endpoints
-  app.get("/api/admin/settings", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
+  app.get("/api/admin/member-roles", requirePermission("members.view"), async (req, res) => {
+    try {
+      const roles = await storage.getAllMemberRoles();
+      res.json(roles);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch member roles" });
+    }
+  });
+
+  app.put("/api/admin/members/:id/roles", requirePermission("roles.manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { roles } = updateMemberRolesSchema.parse(req.body);
+
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      if (roles.some(grant => grant.role === "team_lead" && !grant.serviceRoleId)) {
+        return res.status(400).json({ message: "A team lead must be given a service role" });
+      }
+
+      const before = await storage.getMemberRoles(id);
+      const saved = await storage.setMemberRoles(id, roles.map(grant => ({
+        role: grant.role,
+        serviceRoleId: grant.role === "team_lead" ? grant.serviceRoleId ?? null : null,
+      })));
+      await recordAudit(req, { action: "update_roles", entityType: "member", entityId: id, before, after: saved });
+      res.json(saved);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: "Invalid member roles" });
+      } else {
+        res.status(500).json({ message: "Failed to update member roles" });
+      }
     }
+  });
 
+  // Add settings endpoints
+  app.get("/api/admin/settings", requirePermission("settings.manage"), async (req, res) => {
     try {
       const settings = await storage.getSettings();
       res.json(settings);
@@ -65,40 +253,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/settings", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
-    }
-
+  app.post("/api/admin/settings", requirePermission("settings.manage"), async (req, res) => {
     try {
-      const { deadlineDay } = req.body;
-      deadlineDaySchema.parse(deadlineDay); // Validate the day is between 1-31
-      const settings = await storage.updateSettings({ deadlineDay });
+      // Validates the deadline day is between 1-31 and the PIN expiry is sensible
+      const data = updateSettingsSchema.parse(req.body);
+      const before = await storage.getSettings();
+      const settings = await storage.updateSettings(data);
+      await recordAudit(req, { action: "update", entityType: "settings", entityId: settings.id, before, after: settings });
       res.json(settings);
     } catch (err) {
       if (err instanceof ZodError) {
-        res.status(400).json({ message: "Invalid deadline day" });
+        res.status(400).json({ message: "Invalid settings" });
       } else {
         res.status(500).json({ message: "Failed to update settings" });
       }
     }
   });
 
-  app.post("/api/admin/members", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
-    }
-
+  app.post("/api/admin/members", requirePermission("members.manage"), async (req, res) => {
     try {
       console.log("Creating member with data:", req.body);
       const user = await storage.createUser({
         firstName: req.body.firstName,
         lastName: req.body.lastName,
-        pin: "000000",
+        pin: DEFAULT_PIN,
         isAdmin: false,
         firstLogin: true
       });
-      res.status(201).json(user);
+      await recordAudit(req, { action: "create", entityType: "member", entityId: user.id, after: toSafeUser(user) });
+      res.status(201).json(toSafeUser(user));
     } catch (err) {
       console.error("Error creating member:", err);
       if (err instanceof Error) {
@@ -109,13 +292,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/admin/members/:id", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
-    }
-
+  app.delete("/api/admin/members/:id", requirePermission("members.manage"), async (req, res) => {
     try {
-      await storage.deleteUser(parseInt(req.params.id));
+      const id = parseInt(req.params.id);
+      const existing = await storage.getUser(id);
+      await storage.deleteUser(id);
+      await recordAudit(req, { action: "delete", entityType: "member", entityId: id, before: existing ? toSafeUser(existing) : null });
       res.sendStatus(200);
     } catch (err) {
       if (err instanceof Error) {
@@ -127,11 +309,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Update member initials
-  app.patch("/api/admin/members/:id/initials", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
-    }
-    
+  app.patch("/api/admin/members/:id/initials", requirePermission("members.manage"), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
       const { initials } = req.body;
@@ -141,11 +319,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Update the user profile with custom initials
+      const existing = await storage.getUser(userId);
       const updatedUser = await storage.updateUserProfile(userId, {
         customInitials: initials
       });
+      await recordAudit(req, {
+        action: "update_initials",
+        entityType: "member",
+        entityId: userId,
+        before: existing ? toSafeUser(existing) : null,
+        after: toSafeUser(updatedUser)
+      });
       
-      res.json(updatedUser);
+      res.json(toSafeUser(updatedUser));
     } catch (err) {
       if (err instanceof Error) {
         res.status(400).json({ message: err.message });
@@ -156,11 +342,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Endpoint to update member name
-  app.patch("/api/admin/members/:id/name", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
-    }
-    
+  app.patch("/api/admin/members/:id/name", requirePermission("members.manage"), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
       
@@ -176,12 +358,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { firstName, lastName } = parseResult.data;
       
       // Update the user profile with new name
+      const existing = await storage.getUser(userId);
       const updatedUser = await storage.updateUserProfile(userId, {
         firstName,
         lastName
       });
+      await recordAudit(req, {
+        action: "update_name",
+        entityType: "member",
+        entityId: userId,
+        before: existing ? toSafeUser(existing) : null,
+        after: toSafeUser(updatedUser)
+      });
       
-      res.json(updatedUser);
+      res.json(toSafeUser(updatedUser));
     } catch (err) {
       console.error("Error updating member name:", err);
       if (err instanceof Error) {
@@ -192,11 +382,115 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/name-format", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
+  app.patch("/api/admin/members/:id/contact", requirePermission("members.manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const data = updateContactSchema.parse(req.body);
+
+      const existing = await storage.getUser(userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      const updatedUser = await storage.updateUserContact(userId, data);
+      await recordAudit(req, {
+        action: "update_contact",
+        entityType: "member",
+        entityId: userId,
+        before: toSafeUser(existing),
+        after: toSafeUser(updatedUser)
+      });
+
+      res.json(toSafeUser(updatedUser));
+    } catch (err) {
+      console.error("Error updating member contact details:", err);
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: err.errors[0]?.message ?? "Invalid contact details" });
+      } else if (err instanceof Error) {
+        res.status(400).json({ message: err.message });
+      } else {
+        res.status(500).json({ message: "Failed to update contact details" });
+      }
+    }
+  });
+
+  // Reset a member's PIN to a one-time temporary PIN they must change on next login
+  app.post("/api/admin/members/:id/reset-pin", requirePermission("members.manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const settings = await storage.getSettings();
+      const temporaryPin = generateTemporaryPin();
+      const expiresAt = new Date(Date.now() + settings.tempPinExpiryHours * 60 * 60 * 1000);
+
+      const updatedUser = await storage.resetUserPin(userId, temporaryPin, req.user!.id, expiresAt);
+      // The PIN itself is never written to the audit log
+      await recordAudit(req, { action: "reset_pin", entityType: "member", entityId: userId, after: { pinExpiresAt: expiresAt } });
+
+      // The temporary PIN is only ever returned here, once, to the resetting admin
+      res.json({
+        user: toSafeUser(updatedUser),
+        temporaryPin,
+        expiresAt
+      });
+    } catch (err) {
+      if (err instanceof Error) {
+        res.status(400).json({ message: err.message });
+      } else {
+        res.status(500).json({ message: "Failed to reset PIN" });
+      }
+    }
+  });
+
+  // Accounts currently locked out after too many wrong PINs
+  app.get("/api/admin/lockouts", requirePermission("members.manage"), async (req, res) => {
+    try {
+      const lockedUsers = await storage.getLockedUsers();
+      res.json(lockedUsers.map(toSafeUser));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch locked accounts" });
+    }
+  });
+
+  app.post("/api/admin/members/:id/unlock", requirePermission("members.manage"), async (req, res) => {
+    try {
+      const updatedUser = await storage.unlockUser(parseInt(req.params.id));
+      await recordAudit(req, { action: "unlock", entityType: "member", entityId: updatedUser.id });
+      res.json(toSafeUser(updatedUser));
+    } catch (err) {
+      if (err instanceof Error) {
+        res.status(400).json({ message: err.message });
+      } else {
+        res.status(500).json({ message: "Failed to unlock member" });
+      }
+    }
+  });
+
+  app.get("/api/admin/login-attempts", requirePermission("members.manage"), async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+      const attempts = await storage.getRecentLoginAttempts(limit);
+      res.json(attempts);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch login attempts" });
+    }
+  });
+
+  // Audit trail of administrative and roster changes, newest first
+  app.get("/api/admin/audit-logs", requirePermission("audit.view"), async (req, res) => {
+    try {
+      const filter = auditLogFilterSchema.parse(req.query);
+      const logs = await storage.getAuditLogs(filter);
+      res.json(logs);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: "Invalid audit log filter" });
+      } else {
+        res.status(500).json({ message: "Failed to fetch audit log" });
+      }
     }
+  });
 
+  app.get("/api/admin/name-format", requirePermission("members.view"), async (req, res) => {
     try {
       const format = storage.getNameFormat();
       res.json({ format });
@@ -205,13 +499,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/name-format", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
-    }
-
+  app.post("/api/admin/name-format", requirePermission("settings.manage"), async (req, res) => {
     try {
+      const before = storage.getNameFormat();
       const format = await storage.setNameFormat(req.body.format);
+      await recordAudit(req, { action: "update", entityType: "settings", entityId: "name_format", before: { nameFormat: before }, after: { nameFormat: format } });
       res.json({ format });
     } catch (err) {
       res.status(500).json({ message: "Failed to update name format" });
@@ -219,42 +511,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Test API for email configuration
-  app.get("/api/admin/test-email", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
-    }
-
+  app.get("/api/admin/test-email", requirePermission("email.send"), async (req, res) => {
     try {
       console.log("Testing email configuration");
-      // For Gmail with port 465, we should set secure to true
-      const port = parseInt(process.env.SMTP_PORT || "587");
-      const secure = port === 465 || process.env.SMTP_SECURE === "true";
-      
-      console.log("Email settings:", {
-        host: process.env.SMTP_HOST,
-        port,
-        secure,
-        user: process.env.SMTP_USER ? "Set" : "Not set",
-        pass: process.env.SMTP_PASS ? "Set" : "Not set",
-        from: process.env.SMTP_FROM,
-      });
+      console.log("Email settings:", describeMailerConfig());
       
-      // Configure email transporter
-      const transporter = nodemailer.createTransport({
-        host: process.env.SMTP_HOST,
-        port,
-        secure,
-        auth: {
-          user: process.env.SMTP_USER,
-          pass: process.env.SMTP_PASS,
-        },
-        debug: true,
-        logger: true, // This will log details to the console
-        tls: {
-          // Disable TLS verification (not recommended for production)
-          rejectUnauthorized: false
-        }
-      });
+      const transporter = createTransporter({ debug: true });
       
       try {
         // Verify the connection configuration
@@ -276,32 +538,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/send-roster", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
-    }
-
+  app.post("/api/admin/send-roster", requirePermission("email.send"), async (req, res) => {
     try {
-      const { email, month, viewType } = req.body;
-      if (!email) {
-        return res.status(400).json({ message: "Email address is required" });
-      }
+      const { recipients, email, month, viewType } = sendRosterSchema.parse(req.body);
 
-      // Use the selected month or default to current month
-      const selectedMonth = month ? new Date(month) : new Date();
-      console.log("Selected month for service roster:", selectedMonth.toISOString());
+      // Use the selected month or default to the current month at the church. The
+      // month is read off the string so the server's timezone cannot shift it.
+      const monthStart = month ? toDateKey(`${month.slice(0, 7)}-01`) : await churchToday();
+      const { year: rosterYear, month: rosterMonthNumber } = parseDateKey(monthStart);
+      const selectedMonth = new Date(rosterYear, rosterMonthNumber - 1, 1);
+      console.log("Selected month for service roster:", rosterMonthKey(rosterYear, rosterMonthNumber));
       
       // Get actual roster assignments with user and role data
       const assignments = await storage.getRosterAssignmentsWithUserData(
-        selectedMonth.getFullYear(), 
-        selectedMonth.getMonth() + 1
+        rosterYear,
+        rosterMonthNumber
       );
       
       console.log("Total roster assignments found:", assignments.length);
       
-      // Group assignments by service date and role
+      const monthServices = await storage.getServicesForMonth(
+        rosterYear,
+        rosterMonthNumber
+      );
+      
+      // Group assignments by service and role
       const serviceRoster: { 
-        [dateStr: string]: { 
+        [serviceId: string]: { 
           [roleName: string]: User[] 
         } 
       } = {};
@@ -309,28 +572,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Process assignments to build the service roster
       assignments.forEach(assignment => {
         // Skip if missing required data
-        if (!assignment.user || !assignment.role) return;
+        if (!assignment.user || !assignment.role || assignment.serviceId === null) return;
         
-        // Format date consistently for lookup
-        const serviceDate = new Date(assignment.serviceDate);
-        const dateStr = serviceDate.toISOString();
+        const serviceId = assignment.serviceId;
         
-        // Initialize date entry if needed
-        if (!serviceRoster[dateStr]) {
-          serviceRoster[dateStr] = {};
+        // Initialize service entry if needed
+        if (!serviceRoster[serviceId]) {
+          serviceRoster[serviceId] = {};
         }
         
         // Initialize role entry if needed
         const roleName = assignment.role.name;
-        if (!serviceRoster[dateStr][roleName]) {
-          serviceRoster[dateStr][roleName] = [];
+        if (!serviceRoster[serviceId][roleName]) {
+          serviceRoster[serviceId][roleName] = [];
         }
         
         // Add user to assigned role
-        serviceRoster[dateStr][roleName].push(assignment.user);
+        serviceRoster[serviceId][roleName].push(assignment.user);
       });
       
-      console.log("Service dates with assignments:", Object.keys(serviceRoster).length);
+      console.log("Services with assignments:", Object.keys(serviceRoster).length);
       
       // Get a random verse for the PDF
       const verse = await storage.getRandomVerse('serving');
@@ -341,8 +602,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Create PDF element using appropriate props based on viewType
       let pdfProps: {
         month: Date;
-        serviceRoster?: { [dateStr: string]: { [roleName: string]: User[] } };
-        rosterData?: { [key: string]: User[] };
+        services: Service[];
+        serviceRoster?: { [serviceId: string]: { [roleName: string]: User[] } };
+        rosterData?: { [key: string]: AvailableMember[] };
         viewType: "card" | "simple" | "roles";
         verse?: typeof verse;
       };
@@ -351,6 +613,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // For roles view, use service roster data
         pdfProps = { 
           month: selectedMonth, 
+          services: monthServices,
           serviceRoster: serviceRoster,
           viewType: "roles" as const, 
           verse: verse
@@ -361,36 +624,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const availabilityData = await storage.getAvailability();
         
         // Process availability data for the selected month
-        const rosterData: { [key: string]: User[] } = {};
+        const rosterData: { [key: string]: AvailableMember[] } = {};
         
-        // Only include records for the selected month that are marked as available
-        const availableRecords = availabilityData.filter(record => {
-          const date = new Date(record.serviceDate);
-          return date.getMonth() === selectedMonth.getMonth() && 
-                date.getFullYear() === selectedMonth.getFullYear() &&
-                record.isAvailable;
-        });
+        // Only include records for the selected month's services that are marked as available
+        const monthServiceIds = new Set(monthServices.map(service => service.id));
+        const availableRecords = availabilityData.filter(record =>
+          record.serviceId !== null &&
+          monthServiceIds.has(record.serviceId) &&
+          record.isAvailable
+        );
         
         // Process each record and get the associated user
         for (const record of availableRecords) {
-          // Format date for lookup
-          const date = new Date(record.serviceDate);
-          const dateStr = date.toISOString();
+          const serviceId = record.serviceId as number;
           
-          // Initialize date entry if needed
-          if (!rosterData[dateStr]) {
-            rosterData[dateStr] = [];
+          // Initialize service entry if needed
+          if (!rosterData[serviceId]) {
+            rosterData[serviceId] = [];
           }
           
           // Find the user for this availability record
           const user = await storage.getUser(record.userId);
           if (user) {
-            rosterData[dateStr].push(user);
+            rosterData[serviceId].push({ ...user, isMaybe: record.isMaybe, availabilityNote: record.note });
           }
         }
           
         pdfProps = { 
           month: selectedMonth, 
+          services: monthServices,
           rosterData: rosterData,
           viewType: viewType as "card" | "simple", 
           verse: verse
@@ -402,90 +664,155 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Generate PDF buffer from the component
       const pdfBuffer = await renderToBuffer(rosterPDFElement);
 
-      try {
-        // For Gmail with port 465, we should set secure to true
-        const port = parseInt(process.env.SMTP_PORT || "587");
-        const secure = port === 465 || process.env.SMTP_SECURE === "true";
-        
-        console.log("Setting up email with", {
-          host: process.env.SMTP_HOST,
-          port,
-          secure,
-          user: process.env.SMTP_USER ? "Set" : "Not set",
-          pass: process.env.SMTP_PASS ? "Set" : "Not set",
-        });
-        
-        // Configure email transporter
-        const transporter = nodemailer.createTransport({
-          host: process.env.SMTP_HOST,
-          port,
-          secure,
-          auth: {
-            user: process.env.SMTP_USER,
-            pass: process.env.SMTP_PASS,
-          },
-          // Add debug for troubleshooting
-          debug: true,
-          // Increase timeout to allow for slower connections
-          connectionTimeout: 10000, // 10 seconds
-          greetingTimeout: 10000,
-          socketTimeout: 30000, // 30 seconds
-          tls: {
-            // Do not fail on invalid certs
-            rejectUnauthorized: false
-          }
-        });
+      // Format month name and year for the email subject
+      const monthName = selectedMonth.toLocaleString('default', { month: 'long' });
+      const year = rosterYear;
 
-        // Verify the connection configuration
-        await transporter.verify();
-        console.log("Email transporter verified successfully");
-        
-        // Format month name and year for the email subject
-        const monthName = selectedMonth.toLocaleString('default', { month: 'long' });
-        const year = selectedMonth.getFullYear();
-        
-        // Send email
-        const info = await transporter.sendMail({
-          from: process.env.SMTP_FROM,
-          to: email,
-          subject: `Church Service Roster - ${monthName} ${year}`,
-          text: `Please find attached the church service roster for ${monthName} ${year}.`,
-          attachments: [
-            {
-              filename: `roster-${monthName.toLowerCase()}-${year}.pdf`,
-              content: pdfBuffer,
-            },
-          ],
-        });
-        
-        console.log("Email sent successfully:", info.messageId);
-      } catch (error) {
-        const emailError = error as Error;
-        console.error("Email sending error details:", emailError);
-        throw new Error(`Email sending failed: ${emailError.message}`);
+      const summary: RosterDeliverySummary = { queued: [], skipped: [] };
+      const addresses: { name: string; email: string }[] = [];
+
+      if (recipients === "address") {
+        addresses.push({ name: email!, email: email! });
+      } else {
+        // Members rostered this month, or every member
+        const members = recipients === "assigned"
+          ? Array.from(new Map(
+              assignments
+                .filter(assignment => assignment.user)
+                .map(assignment => [assignment.user!.id, assignment.user!])
+            ).values())
+          : await storage.getAllUsers();
+
+        for (const member of members) {
+          const name = `${member.firstName} ${member.lastName}`;
+          if (!member.email) {
+            summary.skipped.push({ name, reason: "No email address" });
+          } else if (!member.notifyRosterEmails) {
+            summary.skipped.push({ name, reason: "Opted out" });
+          } else {
+            addresses.push({ name, email: member.email });
+          }
+        }
       }
 
-      res.json({ message: "Roster sent successfully" });
+      // Each recipient gets their own message so addresses aren't shared, all
+      // referring to one stored copy of the PDF; the outbox worker delivers
+      // them and retries failures
+      const attachment = {
+        filename: `roster-${monthName.toLowerCase()}-${year}.pdf`,
+        content: pdfBuffer.toString("base64"),
+      };
+      const queued = await queueEmails(addresses.map(recipient => ({
+        category: "roster",
+        toAddress: recipient.email,
+        toName: recipients === "address" ? null : recipient.name,
+        subject: `Church Service Roster - ${monthName} ${year}`,
+        text: `Please find attached the church service roster for ${monthName} ${year}.`,
+        attachments: [attachment],
+        createdBy: req.user!.id,
+      })));
+      summary.queued = queued.map(message => ({
+        name: message.toName ?? message.toAddress,
+        email: message.toAddress,
+        outboxId: message.id,
+      }));
+
+      await recordAudit(req, {
+        action: "send_roster",
+        entityType: "finalized_roster",
+        entityId: rosterMonthKey(rosterYear, rosterMonthNumber),
+        after: {
+          recipients,
+          viewType,
+          queued: summary.queued.length,
+          skipped: summary.skipped.length
+        }
+      });
+
+      res.json(summary);
     } catch (err) {
       console.error("Error sending roster:", err);
+      if (err instanceof ZodError) {
+        return res.status(400).json({ message: err.errors[0]?.message ?? "Invalid request" });
+      }
       res.status(500).json({ message: "Failed to send roster" });
     }
   });
 
+  app.get("/api/admin/outbox", requirePermission("email.send"), async (req, res) => {
+    try {
+      const filter = outboxFilterSchema.parse(req.query);
+      const emails = await storage.getOutboxEmails(filter);
+      res.json(emails.map(toOutboxEntry));
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ message: err.errors[0]?.message ?? "Invalid filter" });
+      }
+      res.status(500).json({ message: "Failed to fetch outbox" });
+    }
+  });
+
+  // Puts a failed or sent email back in the queue with a fresh set of attempts
+  app.post("/api/admin/outbox/:id/resend", requirePermission("email.send"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getOutboxEmail(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Email not found" });
+      }
+      if (existing.status === "pending" || existing.status === "sending") {
+        return res.status(400).json({ message: "This email is already waiting to be sent" });
+      }
+
+      const updated = await storage.updateOutboxEmail(id, {
+        status: "pending",
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: new Date(),
+        sentAt: null
+      });
+      await recordAudit(req, {
+        action: "resend",
+        entityType: "email",
+        entityId: id,
+        before: { status: existing.status, attempts: existing.attempts, lastError: existing.lastError },
+        after: { status: updated.status, toAddress: updated.toAddress, subject: updated.subject }
+      });
+      void processOutbox();
+
+      res.json(toOutboxEntry(updated));
+    } catch (err) {
+      if (err instanceof Error) {
+        res.status(400).json({ message: err.message });
+      } else {
+        res.status(500).json({ message: "Failed to resend email" });
+      }
+    }
+  });
+
   app.post("/api/availability", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const data = insertAvailabilitySchema.parse(req.body);
-      const settings = await storage.getSettings();
+      const data = setAvailabilitySchema.parse(req.body);
 
-      const serviceDate = new Date(data.serviceDate);
-      const today = new Date();
+      const service = await storage.getService(data.serviceId);
+      if (!service) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+
+      const access = await getAccess(req.user);
+      const canManage = hasPermission(access, "availability.manage");
+
+      // Only coordinators may answer on behalf of someone else
+      if (data.userId !== req.user.id && !canManage) {
+        return res.sendStatus(403);
+      }
 
-      if (!req.user.isAdmin) {
-        if (serviceDate.getMonth() === today.getMonth() &&
-            serviceDate.getFullYear() === today.getFullYear() &&
-            today.getDate() > settings.deadlineDay) {
+      if (!canManage) {
+        const { year, month } = parseDateKey(service.serviceDate);
+        const deadline = await getMonthDeadlineStatus(year, month, req.user.id);
+        if (deadline.isLocked && !deadline.hasException) {
           // Return 200 status with notice type instead of 403
           return res.status(200).json({ 
             message: "Sorry, it has passed the deadline. If you want to change your availability for this month, please contact the coordinator",
@@ -494,7 +821,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      const availability = await storage.setAvailability(data);
+      if (data.status !== "no") {
+        const [away] = await storage.getTimeAway({ userId: data.userId, from: service.serviceDate, to: service.serviceDate });
+        if (away) {
+          return res.status(200).json({
+            message: "You're marked as away on this date. Remove the time away first to say you're available.",
+            type: "notice"
+          });
+        }
+      }
+
+      const availability = await storage.setAvailability({
+        userId: data.userId,
+        serviceId: data.serviceId,
+        serviceDate: service.serviceDate,
+        ...statusColumns(data.status),
+        note: data.note,
+        roleIds: data.roleIds
+      });
       res.json(availability);
     } catch (err) {
       if (err instanceof ZodError) {
@@ -505,78 +849,417 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/availability", async (req, res) => {
+  // Deadline and lock state of a month's availability for the signed-in member
+  app.get("/api/availability-deadline/:year/:month", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const availability = await storage.getAvailability();
-      res.json(availability);
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      res.json(await getMonthDeadlineStatus(year, month, req.user.id));
     } catch (err) {
-      res.status(500).json({ message: "Failed to fetch availability" });
+      res.status(500).json({ message: "Failed to fetch availability deadline" });
     }
   });
-  
-  // Verse endpoints
-  app.get("/api/verse/random", async (req, res) => {
+
+  app.get("/api/admin/availability-deadlines/:year/:month", requirePermission("availability.manage"), async (req, res) => {
     try {
-      const category = req.query.category as string || 'serving';
-      const verse = await storage.getRandomVerse(category);
-      
-      if (!verse) {
-        return res.status(404).json({ message: "No verses found" });
-      }
-      
-      res.json(verse);
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      const [status, exceptions] = await Promise.all([
+        getMonthDeadlineStatus(year, month),
+        storage.getAvailabilityExceptions(year, month)
+      ]);
+      const settings: MonthDeadlineSettings = {
+        status,
+        exceptionUserIds: exceptions.map(exception => exception.userId)
+      };
+      res.json(settings);
     } catch (err) {
-      console.error("Error fetching random verse:", err);
-      res.status(500).json({ message: "Failed to fetch random verse" });
+      console.error("Error fetching availability deadline:", err);
+      res.status(500).json({ message: "Failed to fetch availability deadline" });
     }
   });
 
-  app.get("/api/admin/verses", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
-    }
-
+  // Overrides the month's deadline, locks or reopens it, and sets which members may
+  // still change their availability once it is locked
+  app.put("/api/admin/availability-deadlines/:year/:month", requirePermission("availability.manage"), async (req, res) => {
     try {
-      const verses = await storage.getAllVerses();
-      res.json(verses);
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      const data = updateMonthDeadlineSchema.parse(req.body);
+
+      const [before, beforeExceptions] = await Promise.all([
+        storage.getAvailabilityDeadline(year, month),
+        storage.getAvailabilityExceptions(year, month)
+      ]);
+      const deadline = await storage.setAvailabilityDeadline(year, month, {
+        deadline: data.deadline,
+        lockState: data.lockState,
+        updatedBy: req.user!.id
+      });
+      const exceptions = await storage.setAvailabilityExceptions(year, month, data.exceptionUserIds, req.user!.id);
+
+      await recordAudit(req, {
+        action: "update_deadline",
+        entityType: "availability_deadline",
+        entityId: rosterMonthKey(year, month),
+        before: {
+          deadline: before?.deadline ?? null,
+          lockState: before?.lockState ?? "auto",
+          exceptionUserIds: beforeExceptions.map(exception => exception.userId)
+        },
+        after: {
+          deadline: deadline.deadline,
+          lockState: deadline.lockState,
+          exceptionUserIds: exceptions.map(exception => exception.userId)
+        }
+      });
+
+      const settings: MonthDeadlineSettings = {
+        status: await getMonthDeadlineStatus(year, month),
+        exceptionUserIds: exceptions.map(exception => exception.userId)
+      };
+      res.json(settings);
     } catch (err) {
-      res.status(500).json({ message: "Failed to fetch verses" });
+      if (err instanceof ZodError) {
+        return res.status(400).json({ message: err.errors[0]?.message ?? "Invalid deadline" });
+      }
+      console.error("Error updating availability deadline:", err);
+      res.status(500).json({ message: "Failed to update availability deadline" });
     }
   });
 
-  app.post("/api/admin/verses", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
+  // Each member's response status for the month, with totals per service
+  app.get("/api/admin/availability-responses/:year/:month", requirePermission("availability.manage"), async (req, res) => {
+    try {
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      res.json(await getAvailabilityResponses(year, month));
+    } catch (err) {
+      console.error("Error fetching availability responses:", err);
+      res.status(500).json({ message: "Failed to fetch availability responses" });
     }
+  });
 
+  // Emails an availability reminder to the chosen members now
+  app.post("/api/admin/availability-responses/:year/:month/remind", requirePermission("availability.manage"), async (req, res) => {
     try {
-      const data = insertVerseSchema.parse(req.body);
-      const verse = await storage.createVerse(data);
-      res.status(201).json(verse);
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      const { userIds } = sendAvailabilityRemindersSchema.parse(req.body);
+
+      const summary = await sendManualReminders(year, month, userIds);
+
+      await recordAudit(req, {
+        action: "send_reminders",
+        entityType: "availability_deadline",
+        entityId: rosterMonthKey(year, month),
+        after: {
+          userIds,
+          queued: summary.queued,
+          skipped: summary.skipped.length
+        }
+      });
+
+      res.json(summary);
     } catch (err) {
       if (err instanceof ZodError) {
-        res.status(400).json({ message: "Invalid verse data" });
-      } else {
-        res.status(500).json({ message: "Failed to create verse" });
+        return res.status(400).json({ message: err.errors[0]?.message ?? "Invalid reminder request" });
+      }
+      if (err instanceof Error) {
+        return res.status(400).json({ message: err.message });
       }
+      console.error("Error sending availability reminders:", err);
+      res.status(500).json({ message: "Failed to send reminders" });
     }
   });
 
-  app.delete("/api/admin/verses/:id", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
-    }
+  app.get("/api/availability", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      await storage.deleteVerse(parseInt(req.params.id));
-      res.sendStatus(200);
+      const availability = await storage.getAvailability();
+      res.json(availability);
     } catch (err) {
-      res.status(500).json({ message: "Failed to delete verse" });
+      res.status(500).json({ message: "Failed to fetch availability" });
     }
   });
-  
+
+  // The signed-in member's time away from today onwards
+  app.get("/api/time-away", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const entries = await storage.getTimeAway({ userId: req.user.id, from: await churchToday() });
+      res.json(await toTimeAwayEntries(entries));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch time away" });
+    }
+  });
+
+  // Everyone's time away from today onwards
+  app.get("/api/admin/time-away", requirePermission("availability.manage"), async (_req, res) => {
+    try {
+      const entries = await storage.getTimeAway({ from: await churchToday() });
+      res.json(await toTimeAwayEntries(entries));
+    } catch (err) {
+      console.error("Error fetching time away:", err);
+      res.status(500).json({ message: "Failed to fetch time away" });
+    }
+  });
+
+  // Members enter their own time away; coordinators may enter it on a member's behalf
+  app.post("/api/time-away", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const data = createTimeAwaySchema.parse(req.body);
+      const userId = data.userId ?? req.user.id;
+      const onBehalf = userId !== req.user.id;
+      if (onBehalf && !hasPermission(await getAccess(req.user), "availability.manage")) {
+        return res.sendStatus(403);
+      }
+      if (onBehalf && !(await storage.getUser(userId))) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      const entry = await storage.createTimeAway({
+        userId,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        reason: data.reason,
+        createdBy: req.user.id
+      });
+      const conflicts = await applyNewTimeAway(entry);
+      await recordAudit(req, { action: "create", entityType: "time_away", entityId: entry.id, after: entry });
+      const [saved] = await toTimeAwayEntries([entry]);
+      const created: CreatedTimeAway = { ...saved, conflicts };
+      res.status(201).json(created);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ message: err.errors[0]?.message || "Invalid time away" });
+      }
+      console.error("Error creating time away:", err);
+      res.status(500).json({ message: "Failed to save time away" });
+    }
+  });
+
+  app.delete("/api/time-away/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getTimeAwayEntry(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Time away not found" });
+      }
+      const onBehalf = existing.userId !== req.user.id;
+      if (onBehalf && !hasPermission(await getAccess(req.user), "availability.manage")) {
+        return res.sendStatus(403);
+      }
+
+      await storage.deleteTimeAway(id);
+      await recordAudit(req, { action: "delete", entityType: "time_away", entityId: id, before: existing });
+      res.sendStatus(200);
+    } catch (err) {
+      console.error("Error deleting time away:", err);
+      res.status(500).json({ message: "Failed to delete time away" });
+    }
+  });
+
+  // The signed-in member's standing availability rules
+  app.get("/api/availability-rules", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      res.json(await storage.getAvailabilityRules(req.user.id));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch availability rules" });
+    }
+  });
+
+  app.post("/api/availability-rules", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const data = availabilityRuleSchema.parse(req.body);
+      const rule = await storage.createAvailabilityRule(req.user.id, data);
+      await applyRulesToOpenMonths(req.user.id);
+      res.status(201).json(rule);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ message: err.errors[0]?.message || "Invalid availability rule" });
+      }
+      console.error("Error creating availability rule:", err);
+      res.status(500).json({ message: "Failed to create availability rule" });
+    }
+  });
+
+  app.put("/api/availability-rules/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getAvailabilityRule(id);
+      if (!existing || existing.userId !== req.user.id) {
+        return res.status(404).json({ message: "Availability rule not found" });
+      }
+
+      const data = availabilityRuleSchema.parse(req.body);
+      const rule = await storage.updateAvailabilityRule(id, data);
+      await applyRulesToOpenMonths(req.user.id);
+      res.json(rule);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ message: err.errors[0]?.message || "Invalid availability rule" });
+      }
+      console.error("Error updating availability rule:", err);
+      res.status(500).json({ message: "Failed to update availability rule" });
+    }
+  });
+
+  app.delete("/api/availability-rules/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getAvailabilityRule(id);
+      if (!existing || existing.userId !== req.user.id) {
+        return res.status(404).json({ message: "Availability rule not found" });
+      }
+
+      await storage.deleteAvailabilityRule(id);
+      await applyRulesToOpenMonths(req.user.id);
+      res.sendStatus(200);
+    } catch (err) {
+      console.error("Error deleting availability rule:", err);
+      res.status(500).json({ message: "Failed to delete availability rule" });
+    }
+  });
+  
+  // The signed-in member's own assignments on finalized rosters, from the start
+  // of this year onwards, and their availability for services still to come
+  app.get("/api/my-schedule", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const userId = req.user.id;
+      const today = await churchToday();
+      const yearStart = `${today.slice(0, 4)}-01-01`;
+      
+      const [assignments, finalizedRosters, roles, specialDays, availability] = await Promise.all([
+        storage.getRosterAssignmentsForUser(userId),
+        storage.getAllFinalizedRosters(),
+        storage.getAllServiceRoles(),
+        storage.getSpecialDays(),
+        storage.getAvailabilityForUser(userId)
+      ]);
+      
+      // Drafts are not shown until the month is finalized
+      const finalizedMonths = new Set(
+        finalizedRosters
+          .filter(roster => roster.isFinalized)
+          .map(roster => rosterMonthKey(roster.year, roster.month))
+      );
+      const published = assignments.filter(assignment =>
+        assignment.serviceId !== null &&
+        assignment.serviceDate >= yearStart &&
+        finalizedMonths.has(assignment.serviceDate.slice(0, 7))
+      );
+      const responses = availability.filter(record => record.serviceId !== null && record.serviceDate >= today);
+      
+      const services = await storage.getServicesByIds(Array.from(new Set([
+        ...published.map(assignment => assignment.serviceId!),
+        ...responses.map(record => record.serviceId!)
+      ])));
+      const serviceMap = new Map(services.map(service => [service.id, service]));
+      const roleMap = new Map(roles.map(role => [role.id, role]));
+      const specialDayMap = new Map(specialDays.map(day => [day.date, day]));
+      
+      const entries: ScheduleEntry[] = published
+        .filter(assignment => serviceMap.has(assignment.serviceId!))
+        .map(assignment => {
+          const service = serviceMap.get(assignment.serviceId!)!;
+          return {
+            assignment,
+            service,
+            role: roleMap.get(assignment.roleId) ?? null,
+            specialDay: specialDayMap.get(service.serviceDate) ?? null
+          };
+        })
+        .sort((a, b) => compareServices(a.service, b.service));
+      const past = entries.filter(entry => entry.service.serviceDate < today).reverse();
+      
+      const schedule: MySchedule = {
+        upcoming: entries.filter(entry => entry.service.serviceDate >= today),
+        past,
+        availability: responses
+          .filter(record => serviceMap.has(record.serviceId!))
+          .map(record => ({ service: serviceMap.get(record.serviceId!)!, status: availabilityStatus(record), note: record.note }))
+          .sort((a, b) => compareServices(a.service, b.service)),
+        servedThisYear: past.length
+      };
+      res.json(schedule);
+    } catch (err) {
+      console.error("Error fetching schedule:", err);
+      res.status(500).json({ message: "Failed to fetch schedule" });
+    }
+  });
+  
+  // Verse endpoints
+  app.get("/api/verse/random", async (req, res) => {
+    try {
+      const category = req.query.category as string || 'serving';
+      const verse = await storage.getRandomVerse(category);
+      
+      if (!verse) {
+        return res.status(404).json({ message: "No verses found" });
+      }
+      
+      res.json(verse);
+    } catch (err) {
+      console.error("Error fetching random verse:", err);
+      res.status(500).json({ message: "Failed to fetch random verse" });
+    }
+  });
+
+  app.get("/api/admin/verses", requirePermission("verses.manage"), async (req, res) => {
+    try {
+      const verses = await storage.getAllVerses();
+      res.json(verses);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch verses" });
+    }
+  });
+
+  app.post("/api/admin/verses", requirePermission("verses.manage"), async (req, res) => {
+    try {
+      const data = insertVerseSchema.parse(req.body);
+      const verse = await storage.createVerse(data);
+      await recordAudit(req, { action: "create", entityType: "verse", entityId: verse.id, after: verse });
+      res.status(201).json(verse);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: "Invalid verse data" });
+      } else {
+        res.status(500).json({ message: "Failed to create verse" });
+      }
+    }
+  });
+
+  app.delete("/api/admin/verses/:id", requirePermission("verses.manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = (await storage.getAllVerses()).find(verse => verse.id === id);
+      await storage.deleteVerse(id);
+      await recordAudit(req, { action: "delete", entityType: "verse", entityId: id, before: existing ?? null });
+      res.sendStatus(200);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to delete verse" });
+    }
+  });
+  
   // Special Days endpoints
   app.get("/api/special-days", async (req, res) => {
     try {
@@ -606,11 +1289,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/admin/special-days/:id", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
-    }
-    
+  app.get("/api/admin/special-days/:id", requirePermission("special_days.manage"), async (req, res) => {
     try {
       const specialDay = await storage.getSpecialDay(parseInt(req.params.id));
       if (!specialDay) {
@@ -622,11 +1301,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/admin/special-days", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
-    }
-    
+  app.post("/api/admin/special-days", requirePermission("special_days.manage"), async (req, res) => {
     try {
       console.log("Creating special day with data:", JSON.stringify(req.body));
       
@@ -634,16 +1309,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (req.body.date) {
         try {
           if (typeof req.body.date === 'string') {
-            // Try to parse and standardize the date format
-            const parsed = new Date(req.body.date);
-            if (!isNaN(parsed.getTime())) {
-              // If valid date, standardize format to YYYY-MM-DD
-              req.body.date = parsed.toISOString().split('T')[0];
-              console.log("Standardized date format:", req.body.date);
-            } else {
-              console.error("Invalid date format received:", req.body.date);
-              return res.status(400).json({ message: "Invalid date format" });
-            }
+            // Standardize to YYYY-MM-DD; a time after the date is dropped, not converted
+            req.body.date = toDateKey(req.body.date);
+            console.log("Standardized date format:", req.body.date);
           } else if (typeof req.body.date === 'object' && req.body.date !== null) {
             // Handle case when client sends a Date object in JSON
             console.log("Date is an object:", JSON.stringify(req.body.date));
@@ -664,6 +1332,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         const specialDay = await storage.createSpecialDay(data);
         console.log("Created special day:", JSON.stringify(specialDay));
+        await recordAudit(req, { action: "create", entityType: "special_day", entityId: specialDay.id, after: specialDay });
         
         res.status(201).json(specialDay);
       } catch (err) {
@@ -686,11 +1355,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch("/api/admin/special-days/:id", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
-    }
-    
+  app.patch("/api/admin/special-days/:id", requirePermission("special_days.manage"), async (req, res) => {
     try {
       console.log("Update special day request received for ID:", req.params.id);
       console.log("Request body:", JSON.stringify(req.body));
@@ -700,24 +1365,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate the request body format
       if (req.body.date && typeof req.body.date === 'string') {
         try {
-          // Try to parse and standardize the date format
-          const parsed = new Date(req.body.date);
-          if (!isNaN(parsed.getTime())) {
-            // If valid date, standardize format to YYYY-MM-DD
-            req.body.date = parsed.toISOString().split('T')[0];
-            console.log("Standardized date format:", req.body.date);
-          } else {
-            console.error("Invalid date format received:", req.body.date);
-            return res.status(400).json({ message: "Invalid date format" });
-          }
+          // Standardize to YYYY-MM-DD; a time after the date is dropped, not converted
+          req.body.date = toDateKey(req.body.date);
+          console.log("Standardized date format:", req.body.date);
         } catch (error) {
           console.error("Error parsing date:", error);
           return res.status(400).json({ message: "Invalid date format" });
         }
       }
       
-      const specialDay = await storage.updateSpecialDay(id, req.body);
+      const data = insertSpecialDaySchema.partial().parse(req.body);
+      const existing = await storage.getSpecialDay(id);
+      const specialDay = await storage.updateSpecialDay(id, data);
       console.log("Special day successfully updated:", JSON.stringify(specialDay));
+      await recordAudit(req, { action: "update", entityType: "special_day", entityId: id, before: existing ?? null, after: specialDay });
       res.json(specialDay);
     } catch (err) {
       console.error("Error updating special day:", err);
@@ -739,31 +1400,181 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/admin/special-days/:id", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.sendStatus(403);
-    }
-    
+  app.delete("/api/admin/special-days/:id", requirePermission("special_days.manage"), async (req, res) => {
     try {
-      await storage.deleteSpecialDay(parseInt(req.params.id));
+      const id = parseInt(req.params.id);
+      const existing = await storage.getSpecialDay(id);
+      await storage.deleteSpecialDay(id);
+      await recordAudit(req, { action: "delete", entityType: "special_day", entityId: id, before: existing ?? null });
       res.sendStatus(200);
     } catch (err) {
       res.status(500).json({ message: "Failed to delete special day" });
     }
   });
   
+  // Services endpoints
+  app.get("/api/services", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const year = parseInt(req.query.year as string) || new Date().getFullYear();
+      const month = parseInt(req.query.month as string) || new Date().getMonth() + 1;
+
+      const monthServices = await storage.getServicesForMonth(year, month);
+      res.json(monthServices);
+    } catch (err) {
+      console.error("Error fetching services:", err);
+      res.status(500).json({ message: "Failed to fetch services" });
+    }
+  });
+
+  app.post("/api/admin/services", requirePermission("services.manage"), async (req, res) => {
+    try {
+      const data = insertServiceSchema.parse(req.body);
+      const service = await storage.createService(data);
+      await recordAudit(req, { action: "create", entityType: "service", entityId: service.id, after: service });
+      res.status(201).json(service);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: err.errors[0]?.message || "Invalid service data" });
+      } else if (err instanceof Error) {
+        res.status(400).json({ message: err.message });
+      } else {
+        console.error("Error creating service:", err);
+        res.status(500).json({ message: "Failed to create service" });
+      }
+    }
+  });
+
+  app.patch("/api/admin/services/:id", requirePermission("services.manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const data = updateServiceSchema.parse(req.body);
+      const existing = await storage.getService(id);
+      const service = await storage.updateService(id, data);
+      await recordAudit(req, { action: "update", entityType: "service", entityId: id, before: existing ?? null, after: service });
+      res.json(service);
+    } catch (err) {
+      console.error("Error updating service:", err);
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: err.errors[0]?.message || "Invalid service data" });
+      } else if (err instanceof Error) {
+        res.status(400).json({ message: err.message });
+      } else {
+        res.status(500).json({ message: "Failed to update service" });
+      }
+    }
+  });
+
+  app.delete("/api/admin/services/:id", requirePermission("services.manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getService(id);
+      await storage.deleteService(id);
+      await recordAudit(req, { action: "delete", entityType: "service", entityId: id, before: existing ?? null });
+      res.sendStatus(200);
+    } catch (err) {
+      console.error("Error deleting service:", err);
+      if (err instanceof Error) {
+        res.status(400).json({ message: err.message });
+      } else {
+        res.status(500).json({ message: "Failed to delete service" });
+      }
+    }
+  });
+  
+  // Creates any scheduled services missing from a month, e.g. after the schedules change
+  app.post("/api/admin/services/generate", requirePermission("services.manage"), async (req, res) => {
+    try {
+      const { year, month } = generateServicesSchema.parse(req.body);
+      const created = await storage.materializeServicesForMonth(year, month);
+      if (created.length > 0) {
+        await recordAudit(req, { action: "generate", entityType: "service", entityId: rosterMonthKey(year, month), after: created });
+      }
+      res.json({ created });
+    } catch (err) {
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: err.errors[0]?.message || "Invalid month" });
+      } else {
+        console.error("Error generating services:", err);
+        res.status(500).json({ message: "Failed to generate services" });
+      }
+    }
+  });
+
+  // Service Schedules endpoints
+  app.get("/api/admin/service-schedules", requirePermission("services.manage"), async (_req, res) => {
+    try {
+      const schedules = await storage.getServiceSchedules();
+      res.json(schedules);
+    } catch (err) {
+      console.error("Error fetching service schedules:", err);
+      res.status(500).json({ message: "Failed to fetch service schedules" });
+    }
+  });
+
+  app.post("/api/admin/service-schedules", requirePermission("services.manage"), async (req, res) => {
+    try {
+      const data = insertServiceScheduleSchema.parse(req.body);
+      const schedule = await storage.createServiceSchedule(data);
+      await recordAudit(req, { action: "create", entityType: "service_schedule", entityId: schedule.id, after: schedule });
+      res.status(201).json(schedule);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: err.errors[0]?.message || "Invalid schedule data" });
+      } else {
+        console.error("Error creating service schedule:", err);
+        res.status(500).json({ message: "Failed to create service schedule" });
+      }
+    }
+  });
+
+  app.patch("/api/admin/service-schedules/:id", requirePermission("services.manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const data = updateServiceScheduleSchema.parse(req.body);
+      const existing = await storage.getServiceSchedule(id);
+      const schedule = await storage.updateServiceSchedule(id, data);
+      await recordAudit(req, { action: "update", entityType: "service_schedule", entityId: id, before: existing ?? null, after: schedule });
+      res.json(schedule);
+    } catch (err) {
+      console.error("Error updating service schedule:", err);
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: err.errors[0]?.message || "Invalid schedule data" });
+      } else if (err instanceof Error) {
+        res.status(400).json({ message: err.message });
+      } else {
+        res.status(500).json({ message: "Failed to update service schedule" });
+      }
+    }
+  });
+
+  app.delete("/api/admin/service-schedules/:id", requirePermission("services.manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getServiceSchedule(id);
+      await storage.deleteServiceSchedule(id);
+      await recordAudit(req, { action: "delete", entityType: "service_schedule", entityId: id, before: existing ?? null });
+      res.sendStatus(200);
+    } catch (err) {
+      console.error("Error deleting service schedule:", err);
+      res.status(500).json({ message: "Failed to delete service schedule" });
+    }
+  });
+  
   // Service Roles endpoints
   app.get("/api/service-roles", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      // Return active roles for non-admin users
-      if (!req.user.isAdmin) {
+      // Return active roles unless the user manages service roles
+      const access = await getAccess(req.user);
+      if (!hasPermission(access, "service_roles.manage")) {
         const roles = await storage.getActiveServiceRoles();
         return res.json(roles);
       }
       
-      // Return all roles for admins
+      // Return all roles, including inactive ones
       const roles = await storage.getAllServiceRoles();
       res.json(roles);
     } catch (err) {
@@ -772,12 +1583,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/admin/service-roles", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(403);
-    
+  app.post("/api/admin/service-roles", requirePermission("service_roles.manage"), async (req, res) => {
     try {
       const data = insertServiceRoleSchema.parse(req.body);
       const role = await storage.createServiceRole(data);
+      await recordAudit(req, { action: "create", entityType: "service_role", entityId: role.id, after: role });
       res.status(201).json(role);
     } catch (err) {
       if (err instanceof ZodError) {
@@ -789,12 +1599,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch("/api/admin/service-roles/:id", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(403);
-    
+  app.patch("/api/admin/service-roles/:id", requirePermission("service_roles.manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const existing = await storage.getServiceRole(id);
       const role = await storage.updateServiceRole(id, req.body);
+      await recordAudit(req, { action: "update", entityType: "service_role", entityId: id, before: existing ?? null, after: role });
       res.json(role);
     } catch (err) {
       console.error("Error updating service role:", err);
@@ -806,12 +1616,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/admin/service-roles/:id", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(403);
-    
+  app.delete("/api/admin/service-roles/:id", requirePermission("service_roles.manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const existing = await storage.getServiceRole(id);
       await storage.deleteServiceRole(id);
+      await recordAudit(req, { action: "delete", entityType: "service_role", entityId: id, before: existing ?? null });
       res.sendStatus(200);
     } catch (err) {
       console.error("Error deleting service role:", err);
@@ -823,16 +1633,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/admin/service-roles/reorder", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(403);
-    
+  app.post("/api/admin/service-roles/reorder", requirePermission("service_roles.manage"), async (req, res) => {
     try {
       const { roleIds } = req.body;
       if (!Array.isArray(roleIds)) {
         return res.status(400).json({ message: "Role IDs must be an array" });
       }
       
+      const before = await storage.getAllServiceRoles();
       const roles = await storage.reorderServiceRoles(roleIds);
+      await recordAudit(req, {
+        action: "reorder",
+        entityType: "service_role",
+        before: before.map(role => ({ id: role.id, order: role.order })),
+        after: roles.map(role => ({ id: role.id, order: role.order }))
+      });
       res.json(roles);
     } catch (err) {
       console.error("Error reordering service roles:", err);
@@ -840,10 +1655,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Member qualification endpoints
+  app.get("/api/qualifications", requirePermission("roster.view"), async (req, res) => {
+    try {
+      const qualifications = await storage.getMemberQualifications();
+      res.json(qualifications);
+    } catch (err) {
+      console.error("Error fetching qualifications:", err);
+      res.status(500).json({ message: "Failed to fetch qualifications" });
+    }
+  });
+  
+  app.put("/api/admin/qualifications", requirePermission("service_roles.manage"), async (req, res) => {
+    try {
+      const { userId, roleId, level } = setMemberQualificationSchema.parse(req.body);
+      
+      const [member, role] = await Promise.all([storage.getUser(userId), storage.getServiceRole(roleId)]);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (!role) {
+        return res.status(404).json({ message: "Service role not found" });
+      }
+      
+      const existing = (await storage.getMemberQualifications())
+        .find(q => q.userId === userId && q.roleId === roleId);
+      const qualification = await storage.setMemberQualification(userId, roleId, level);
+      await recordAudit(req, {
+        action: qualification ? (existing ? "update" : "create") : "delete",
+        entityType: "member_qualification",
+        entityId: `${userId}:${roleId}`,
+        before: existing ?? null,
+        after: qualification ?? null
+      });
+      res.json(qualification ?? null);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: err.errors[0]?.message || "Invalid qualification" });
+      } else {
+        console.error("Error saving qualification:", err);
+        res.status(500).json({ message: "Failed to save qualification" });
+      }
+    }
+  });
+  
   // Roster Assignment endpoints
-  app.get("/api/admin/roster-assignments/all", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(403);
-    
+  app.get("/api/admin/roster-assignments/all", requirePermission("roster.view"), async (req, res) => {
     try {
       const assignments = await storage.getAllRosterAssignments();
       res.json(assignments);
@@ -853,9 +1710,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/admin/roster-assignments/months", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(403);
-    
+  app.get("/api/admin/roster-assignments/months", requirePermission("roster.view"), async (req, res) => {
     try {
       // Get all assignments
       const assignments = await storage.getAllRosterAssignments();
@@ -863,9 +1718,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Extract unique months from assignments
       const months = new Set<string>();
       assignments.forEach((assignment: RosterAssignment) => {
-        const date = new Date(assignment.serviceDate);
-        const monthYear = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-        months.add(monthYear);
+        months.add(assignment.serviceDate.slice(0, 7)); // YYYY-MM, read straight off the date key
       });
       
       // Convert to array of month objects
@@ -879,11 +1732,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       // Sort by date (most recent first)
-      monthsArray.sort((a, b) => {
-        const dateA = new Date(a.year, a.month - 1, 1);
-        const dateB = new Date(b.year, b.month - 1, 1);
-        return dateB.getTime() - dateA.getTime();
-      });
+      monthsArray.sort((a, b) => (b.year - a.year) || (b.month - a.month));
       
       res.json(monthsArray);
     } catch (err) {
@@ -900,19 +1749,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const month = parseInt(req.params.month);
       
       const assignments = await storage.getRosterAssignmentsWithUserData(year, month);
-      res.json(assignments);
+      res.json(assignments.map(withMemberSummary));
     } catch (err) {
       console.error("Error fetching roster assignments:", err);
       res.status(500).json({ message: "Failed to fetch roster assignments" });
     }
   });
   
-  app.post("/api/admin/roster-assignments", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(403);
-    
+  app.post("/api/admin/roster-assignments", requirePermission("roster.edit"), async (req, res) => {
     try {
-      const data = insertRosterAssignmentSchema.parse(req.body);
-      const assignment = await storage.createRosterAssignment(data);
+      const data = createRosterAssignmentSchema.parse(req.body);
+      if (!canRosterServiceRole(req.access, data.roleId)) {
+        return res.status(403).json({ message: "You cannot roster this service role" });
+      }
+
+      const service = await storage.getService(data.serviceId);
+      if (!service) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+
+      const assignment = await storage.createRosterAssignment({
+        ...data,
+        serviceDate: service.serviceDate
+      });
+      await recordAudit(req, { action: "create", entityType: "roster_assignment", entityId: assignment.id, after: assignment });
       res.status(201).json(assignment);
     } catch (err) {
       if (err instanceof ZodError) {
@@ -928,16 +1788,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch("/api/admin/roster-assignments/:id", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(403);
-    
+  app.patch("/api/admin/roster-assignments/:id", requirePermission("roster.edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const assignment = await storage.updateRosterAssignment(id, req.body);
+      const existing = await storage.getRosterAssignment(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Roster assignment not found" });
+      }
+
+      const data = updateRosterAssignmentSchema.parse(req.body);
+      const targetRoleId = data.roleId ?? existing.roleId;
+      if (!canRosterServiceRole(req.access, existing.roleId) || !canRosterServiceRole(req.access, targetRoleId)) {
+        return res.status(403).json({ message: "You cannot roster this service role" });
+      }
+
+      const service = existing.serviceId !== null ? await storage.getService(existing.serviceId) : undefined;
+      const assignment = await storage.updateRosterAssignment(id, {
+        ...data,
+        serviceDate: service?.serviceDate ?? existing.serviceDate
+      });
+      await recordAudit(req, { action: "update", entityType: "roster_assignment", entityId: id, before: existing, after: assignment });
       res.json(assignment);
     } catch (err) {
       console.error("Error updating roster assignment:", err);
-      if (err instanceof Error) {
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: err.errors[0]?.message || "Invalid roster assignment data" });
+      } else if (err instanceof Error) {
         res.status(400).json({ message: err.message });
       } else {
         res.status(500).json({ message: "Failed to update roster assignment" });
@@ -945,12 +1821,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/admin/roster-assignments/:id", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(403);
-    
+  app.delete("/api/admin/roster-assignments/:id", requirePermission("roster.edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const existing = await storage.getRosterAssignment(id);
+      if (existing && !canRosterServiceRole(req.access, existing.roleId)) {
+        return res.status(403).json({ message: "You cannot roster this service role" });
+      }
+
       await storage.deleteRosterAssignment(id);
+      await recordAudit(req, { action: "delete", entityType: "roster_assignment", entityId: id, before: existing ?? null });
       // Return a JSON response instead of text "OK"
       res.status(200).json({ message: "Assignment deleted successfully" });
     } catch (err) {
@@ -959,65 +1839,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/admin/roster-assignments/date/:year/:month/:day", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(403);
-    
+  app.delete("/api/admin/roster-assignments/service/:serviceId", requirePermission("roster.edit"), async (req, res) => {
+    // Clearing a whole service touches every role, so team leads cannot do it
+    if (req.access?.serviceRoleIds !== null) {
+      return res.status(403).json({ message: "You cannot clear assignments for every role" });
+    }
+
     try {
-      const year = parseInt(req.params.year);
-      const month = parseInt(req.params.month) - 1; // JS months are 0-indexed
-      const day = parseInt(req.params.day);
-      
-      if (isNaN(year) || isNaN(month) || isNaN(day)) {
-        console.error(`Invalid date parameters: year=${req.params.year}, month=${req.params.month}, day=${req.params.day}`);
-        return res.status(400).json({ message: "Invalid date parameters" });
-      }
-      
-      console.log(`Clearing assignments for date: ${year}-${month+1}-${day}`);
-      const date = new Date(year, month, day);
-      
-      if (isNaN(date.getTime())) {
-        console.error(`Invalid date created: ${date}`);
-        return res.status(400).json({ message: "Invalid date" });
+      const serviceId = parseInt(req.params.serviceId);
+      if (isNaN(serviceId)) {
+        return res.status(400).json({ message: "Invalid service" });
       }
       
-      console.log(`Parsed date: ${date.toISOString()}`);
-      
-      const deletedCount = await storage.clearRosterAssignmentsForDate(date);
-      console.log(`Successfully cleared ${deletedCount} assignments`);
+      const before = await storage.getRosterAssignmentsForService(serviceId);
+      const deletedCount = await storage.clearRosterAssignmentsForService(serviceId);
+      await recordAudit(req, {
+        action: "clear_service",
+        entityType: "roster_assignment",
+        entityId: serviceId,
+        before
+      });
       
       res.status(200).json({ 
         success: true,
         deleted: deletedCount,
-        date: date.toISOString().split('T')[0] 
+        serviceId
       });
     } catch (err) {
-      console.error("Error clearing roster assignments for date:", err);
+      console.error("Error clearing roster assignments for service:", err);
       res.status(500).json({ message: "Failed to clear roster assignments" });
     }
   });
   
   // Roster Builder helper endpoints
-  app.get("/api/roster-builder/available-sundays/:year/:month", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(403);
-    
+  app.get("/api/roster-builder/services/:year/:month", requirePermission("roster.view"), async (req, res) => {
     try {
       const year = parseInt(req.params.year);
       const month = parseInt(req.params.month);
       
-      const sundays = await storage.getAvailableSundaysWithPeople(year, month);
-      res.json(sundays);
+      const monthServices = await storage.getServicesWithPeople(year, month);
+      res.json(monthServices.map(slot => ({
+        ...slot,
+        availablePeople: slot.availablePeople.map((person: User & { formattedName: string; isMaybe: boolean; availabilityNote: string | null; roleIds: number[] | null }) => ({
+          ...toMemberSummary(person),
+          formattedName: person.formattedName,
+          isMaybe: person.isMaybe,
+          availabilityNote: person.availabilityNote,
+          roleIds: person.roleIds
+        })),
+        awayPeople: slot.awayPeople.map((person: User & { formattedName: string; awayReason: string | null }) => ({
+          ...toMemberSummary(person),
+          formattedName: person.formattedName,
+          awayReason: person.awayReason
+        }))
+      })));
+    } catch (err) {
+      console.error("Error fetching services for roster builder:", err);
+      res.status(500).json({ message: "Failed to fetch services" });
+    }
+  });
+  
+  // Suggested assignments for the month's open places; nothing is saved until accepted
+  app.get("/api/roster-builder/proposal/:year/:month", requirePermission("roster.edit"), async (req, res) => {
+    try {
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      
+      const slots = await storage.getServicesWithPeople(year, month);
+      const history = await storage.getAssignmentCountsBefore(dateKey(year, month, 1));
+      const qualifications = await storage.getMemberQualifications();
+      const proposal = proposeRoster(
+        slots,
+        history,
+        createEligibilityLookup(qualifications),
+        roleId => canRosterServiceRole(req.access, roleId)
+      );
+      res.json(proposal);
+    } catch (err) {
+      console.error("Error generating roster proposal:", err);
+      res.status(500).json({ message: "Failed to generate roster proposal" });
+    }
+  });
+  
+  app.post("/api/roster-builder/proposal/:year/:month/accept", requirePermission("roster.edit"), async (req, res) => {
+    try {
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      const { assignments } = acceptRosterProposalSchema.parse(req.body);
+      
+      const finalizedRoster = await storage.getFinalizedRoster(year, month);
+      if (finalizedRoster?.isFinalized) {
+        return res.status(400).json({ message: "This roster is finalized. Revise it before making changes." });
+      }
+      if (assignments.some(assignment => !canRosterServiceRole(req.access, assignment.roleId))) {
+        return res.status(403).json({ message: "You cannot roster this service role" });
+      }
+      
+      const monthServices = new Map(
+        (await storage.getServicesForMonth(year, month)).map(service => [service.id, service])
+      );
+      const roles = new Map((await storage.getAllServiceRoles()).map(role => [role.id, role]));
+      
+      // Places may have been filled by hand since the proposal was made, so each
+      // assignment is saved on its own and the ones that no longer fit are reported
+      const created: RosterAssignment[] = [];
+      const skipped: { serviceId: number; roleId: number; userId: number; reason: string }[] = [];
+      for (const assignment of assignments) {
+        const service = monthServices.get(assignment.serviceId);
+        if (!service) {
+          skipped.push({ ...assignment, reason: "Service not found in this month" });
+          continue;
+        }
+        const filled = (await storage.getRosterAssignmentsForService(service.id))
+          .filter(existing => existing.roleId === assignment.roleId).length;
+        if (filled >= (roles.get(assignment.roleId)?.maxLimit ?? 1)) {
+          skipped.push({ ...assignment, reason: "This role is already full for this service" });
+          continue;
+        }
+        try {
+          created.push(await storage.createRosterAssignment({ ...assignment, serviceDate: service.serviceDate }));
+        } catch (err) {
+          skipped.push({ ...assignment, reason: err instanceof Error ? err.message : "Could not be assigned" });
+        }
+      }
+      
+      if (created.length > 0) {
+        await recordAudit(req, {
+          action: "auto_assign",
+          entityType: "roster_assignment",
+          entityId: rosterMonthKey(year, month),
+          after: created
+        });
+      }
+      
+      res.status(201).json({ created, skipped });
     } catch (err) {
-      console.error("Error fetching available Sundays:", err);
-      res.status(500).json({ message: "Failed to fetch available Sundays" });
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: err.errors[0]?.message || "Invalid proposal" });
+      } else {
+        console.error("Error accepting roster proposal:", err);
+        res.status(500).json({ message: "Failed to save proposed assignments" });
+      }
     }
   });
   
   // Finalized Roster Endpoints
   
   // Get all finalized rosters
-  app.get("/api/admin/finalized-rosters", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(403);
-    
+  app.get("/api/admin/finalized-rosters", requirePermission("roster.view"), async (req, res) => {
     try {
       const finalizedRosters = await storage.getAllFinalizedRosters();
       res.json(finalizedRosters);
@@ -1046,7 +2015,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json({
         finalizedRoster,
-        assignments
+        assignments: assignments.map(withMemberSummary)
       });
     } catch (err) {
       console.error("Error fetching finalized roster:", err);
@@ -1055,14 +2024,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Finalize a roster (admin only)
-  app.post("/api/admin/finalize-roster", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(403);
-    
+  app.post("/api/admin/finalize-roster", requirePermission("roster.finalize"), async (req, res) => {
     try {
       // Modify the incoming data to set the current user ID as createdBy
       const data = {
         ...req.body,
-        createdBy: req.user.id
+        createdBy: req.user!.id
       };
       
       const parseResult = insertFinalizedRosterSchema.safeParse(data);
@@ -1074,29 +2041,504 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const finalizedRoster = await storage.finalizeRoster(parseResult.data);
-      res.status(201).json(finalizedRoster);
+      const { year, month } = parseResult.data;
+      const before = await storage.getFinalizedRoster(year, month);
+      // Each finalization is kept as a numbered version of the month
+      const { finalizedRoster, version, previous } = await storage.finalizeRoster(
+        parseResult.data,
+        snapshotAssignments(await storage.getRosterAssignmentsForMonth(year, month))
+      );
+      await recordAudit(req, {
+        action: "finalize",
+        entityType: "finalized_roster",
+        entityId: rosterMonthKey(finalizedRoster.year, finalizedRoster.month),
+        before: before ?? null,
+        after: finalizedRoster
+      });
+
+      // The roster is finalized even if the notifications can't be queued
+      let notified = 0;
+      try {
+        notified = await notifyRosterFinalized(version, previous);
+      } catch (notifyError) {
+        console.error("Error notifying members of finalized roster:", notifyError);
+      }
+      res.status(201).json({ ...finalizedRoster, version: version.version, notified });
     } catch (err) {
       console.error("Error finalizing roster:", err);
       res.status(500).json({ message: "Failed to finalize roster" });
     }
   });
   
+  // Versions of a month's roster, one per finalization
+  app.get("/api/roster-versions/:year/:month", requirePermission("roster.view"), async (req, res) => {
+    try {
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      const versions = await storage.getRosterVersions(year, month);
+      const summaries: RosterVersionSummary[] = versions.map(({ assignments, ...version }) => ({
+        ...version,
+        assignmentCount: assignments.length
+      }));
+      res.json(summaries);
+    } catch (err) {
+      console.error("Error fetching roster versions:", err);
+      res.status(500).json({ message: "Failed to fetch roster versions" });
+    }
+  });
+
+  // Compares two versions, or a version with the assignments as they are now
+  // (to=draft). Without from/to, compares the latest version with the draft.
+  app.get("/api/roster-versions/:year/:month/diff", requirePermission("roster.view"), async (req, res) => {
+    try {
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      const { from, to } = rosterDiffQuerySchema.parse(req.query);
+      const versions = await storage.getRosterVersions(year, month);
+
+      const findVersion = (number: number) => versions.find(version => version.version === number);
+      const fromVersion = from !== undefined ? findVersion(from) : versions[versions.length - 1];
+      const toVersion = to !== undefined && to !== "draft" ? findVersion(to) : undefined;
+      if ((from !== undefined && !fromVersion) || (to !== undefined && to !== "draft" && !toVersion)) {
+        return res.status(404).json({ message: "Roster version not found" });
+      }
+
+      const current = toVersion
+        ? toVersion.assignments
+        : snapshotAssignments(await storage.getRosterAssignmentsForMonth(year, month));
+      const [monthServices, roles, users] = await Promise.all([
+        storage.getServicesForMonth(year, month),
+        storage.getAllServiceRoles(),
+        storage.getAllUsers()
+      ]);
+
+      res.json(buildRosterDiff(
+        fromVersion?.version ?? null,
+        toVersion?.version ?? "draft",
+        fromVersion?.assignments ?? [],
+        current,
+        { services: monthServices, roles, users }
+      ));
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ message: err.errors[0]?.message ?? "Invalid versions" });
+      }
+      console.error("Error comparing roster versions:", err);
+      res.status(500).json({ message: "Failed to compare roster versions" });
+    }
+  });
+  
   // Unfinalize a roster (admin only)
-  app.delete("/api/admin/finalize-roster/:year/:month", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(403);
-    
+  app.delete("/api/admin/finalize-roster/:year/:month", requirePermission("roster.finalize"), async (req, res) => {
     try {
       const year = parseInt(req.params.year);
       const month = parseInt(req.params.month);
       
+      const before = await storage.getFinalizedRoster(year, month);
       await storage.unfinalizeRoster(year, month);
+      await recordAudit(req, {
+        action: "unfinalize",
+        entityType: "finalized_roster",
+        entityId: rosterMonthKey(year, month),
+        before: before ?? null
+      });
       res.status(200).json({ message: "Roster unfinalized successfully" });
     } catch (err) {
       console.error("Error unfinalizing roster:", err);
       res.status(500).json({ message: "Failed to unfinalize roster" });
     }
   });
+  
+  // Calendar Feed Endpoints
+  // The feeds are fetched by calendar apps without a session, so they are
+  // authenticated by the secret token in the URL instead
+  
+  app.get("/api/calendar/links", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      let token = req.user.calendarToken;
+      if (!token) {
+        token = generateCalendarToken();
+        await storage.setCalendarToken(req.user.id, token);
+      }
+      
+      res.json(calendarLinks(req, token));
+    } catch (err) {
+      console.error("Error creating calendar links:", err);
+      res.status(500).json({ message: "Failed to create calendar links" });
+    }
+  });
+  
+  // Replaces the token so previously shared links stop working
+  app.post("/api/calendar/links/reset", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const token = generateCalendarToken();
+      await storage.setCalendarToken(req.user.id, token);
+      
+      res.json(calendarLinks(req, token));
+    } catch (err) {
+      console.error("Error resetting calendar links:", err);
+      res.status(500).json({ message: "Failed to reset calendar links" });
+    }
+  });
+  
+  // The member's assignments on finalized rosters
+  app.get("/api/calendar/:token/my-roster.ics", async (req, res) => {
+    try {
+      const user = await storage.getUserByCalendarToken(req.params.token);
+      if (!user) return res.sendStatus(404);
+      
+      const from = await calendarFeedStart();
+      const [assignments, finalizedRosters, roles] = await Promise.all([
+        storage.getRosterAssignmentsForUser(user.id),
+        storage.getAllFinalizedRosters(),
+        storage.getAllServiceRoles()
+      ]);
+      const finalizedMonths = new Set(
+        finalizedRosters
+          .filter(roster => roster.isFinalized)
+          .map(roster => rosterMonthKey(roster.year, roster.month))
+      );
+      const published = assignments.filter(assignment =>
+        assignment.serviceId !== null &&
+        assignment.serviceDate >= from &&
+        finalizedMonths.has(assignment.serviceDate.slice(0, 7))
+      );
+      
+      const services = await storage.getServicesByIds(published.map(assignment => assignment.serviceId!));
+      const serviceMap = new Map(services.map(service => [service.id, service]));
+      const roleMap = new Map(roles.map(role => [role.id, role]));
+      
+      const events: CalendarEvent[] = published
+        .filter(assignment => serviceMap.has(assignment.serviceId!))
+        .map(assignment => {
+          const service = serviceMap.get(assignment.serviceId!)!;
+          const roleName = roleMap.get(assignment.roleId)?.name ?? "Serving";
+          return {
+            uid: `assignment-${assignment.id}@elserve`,
+            summary: `${roleName} – ${service.name}`,
+            description: assignment.notes,
+            location: service.location,
+            date: service.serviceDate,
+            startTime: service.startTime,
+            lastModified: assignment.updatedAt
+          };
+        });
+      
+      const { timeZone } = await storage.getSettings();
+      res.type("text/calendar; charset=utf-8");
+      res.send(buildCalendar(`${user.firstName}'s Roster`, events, timeZone));
+    } catch (err) {
+      console.error("Error building member calendar:", err);
+      res.status(500).send("Failed to build calendar");
+    }
+  });
+  
+  // Every service and special day, for anyone with a calendar token
+  app.get("/api/calendar/:token/services.ics", async (req, res) => {
+    try {
+      const user = await storage.getUserByCalendarToken(req.params.token);
+      if (!user) return res.sendStatus(404);
+      
+      // Only services an admin has already generated; polling the feed never creates any
+      const from = await calendarFeedStart();
+      const [services, specialDays] = await Promise.all([
+        storage.getServicesFrom(from),
+        storage.getSpecialDays()
+      ]);
+      
+      const events: CalendarEvent[] = [
+        ...services.map(service => ({
+          uid: `service-${service.id}@elserve`,
+          summary: service.name,
+          description: formatServiceLabel(service),
+          location: service.location,
+          date: service.serviceDate,
+          startTime: service.startTime
+        })),
+        ...specialDays
+          .filter(day => day.date >= from)
+          .map(day => ({
+            uid: `special-day-${day.id}@elserve`,
+            summary: day.name,
+            description: day.description,
+            date: day.date
+          }))
+      ];
+      
+      const { timeZone } = await storage.getSettings();
+      res.type("text/calendar; charset=utf-8");
+      res.send(buildCalendar("Church Services", events, timeZone));
+    } catch (err) {
+      console.error("Error building services calendar:", err);
+      res.status(500).send("Failed to build calendar");
+    }
+  });
+  
+  // Swap Request Endpoints
+  // Members hand over assignments in a finalized month; the replacement accepts,
+  // then a coordinator approves unless settings.swapApprovalRequired is off
+  
+  // Requests the signed-in member made or was asked to cover
+  app.get("/api/swap-requests", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const requests = await storage.getSwapRequests({ userId: req.user.id });
+      res.json(await withSwapDetails(requests));
+    } catch (err) {
+      console.error("Error fetching swap requests:", err);
+      res.status(500).json({ message: "Failed to fetch swap requests" });
+    }
+  });
+  
+  // Who could take one of the signed-in member's assignments
+  app.get("/api/swap-requests/options/:assignmentId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const assignment = await storage.getRosterAssignment(parseInt(req.params.assignmentId));
+      if (!assignment || assignment.userId !== req.user.id || assignment.serviceId === null) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      
+      const { substituteIds, swapAssignments, slots } = await findSwapOptionsFor(assignment);
+      
+      const [users, roles] = await Promise.all([storage.getAllUsers(), storage.getAllServiceRoles()]);
+      const userMap = new Map(users.map(user => [user.id, user]));
+      const roleMap = new Map(roles.map(role => [role.id, role]));
+      const serviceMap = new Map(slots.map(slot => [slot.service.id, slot.service as Service]));
+      
+      const options: SwapOptions = {
+        substitutes: substituteIds
+          .filter(userId => userMap.has(userId))
+          .map(userId => toMemberSummary(userMap.get(userId)!)),
+        swaps: swapAssignments
+          .filter(other => userMap.has(other.userId) && roleMap.has(other.roleId) && serviceMap.has(other.serviceId!))
+          .map(other => ({
+            assignmentId: other.id,
+            user: toMemberSummary(userMap.get(other.userId)!),
+            service: serviceMap.get(other.serviceId!)!,
+            role: roleMap.get(other.roleId)!
+          }))
+      };
+      res.json(options);
+    } catch (err) {
+      console.error("Error finding swap options:", err);
+      res.status(500).json({ message: "Failed to find swap options" });
+    }
+  });
+  
+  app.post("/api/swap-requests", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const data = createSwapRequestSchema.parse(req.body);
+      
+      const assignment = await storage.getRosterAssignment(data.assignmentId);
+      if (!assignment || assignment.userId !== req.user.id || assignment.serviceId === null) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      if (assignment.serviceDate < await churchToday()) {
+        return res.status(400).json({ message: "This service has already taken place" });
+      }
+      if (!(await isMonthFinalized(assignment.serviceDate))) {
+        return res.status(400).json({ message: "Swaps can only be requested once the roster is finalized" });
+      }
+      if (data.replacementId === req.user.id) {
+        return res.status(400).json({ message: "Choose someone else to take your place" });
+      }
+      
+      const open = await storage.getSwapRequests({ userId: req.user.id, statuses: ["pending", "accepted"] });
+      if (open.some(request => request.assignmentId === assignment.id)) {
+        return res.status(400).json({ message: "There is already an open request for this assignment" });
+      }
+      
+      // Only members the swap options would have offered
+      const { substituteIds, swapAssignments } = await findSwapOptionsFor(assignment);
+      if (data.swapAssignmentId) {
+        const offered = swapAssignments.some(other => other.id === data.swapAssignmentId && other.userId === data.replacementId);
+        if (!offered) {
+          return res.status(400).json({ message: "This swap isn't possible: both members must be available and qualified for each other's place" });
+        }
+      } else if (!substituteIds.includes(data.replacementId)) {
+        return res.status(400).json({ message: "This member can't take your place: they must be available, offer the role, be qualified and not already be serving" });
+      }
+      
+      const request = await storage.createSwapRequest({
+        assignmentId: assignment.id,
+        serviceId: assignment.serviceId,
+        roleId: assignment.roleId,
+        requesterId: req.user.id,
+        replacementId: data.replacementId,
+        swapAssignmentId: data.swapAssignmentId ?? null,
+        reason: data.reason || null,
+        status: "pending"
+      });
+      await recordAudit(req, { action: "create", entityType: "swap_request", entityId: request.id, after: request });
+      
+      const [details] = await withSwapDetails([request]);
+      res.status(201).json(details);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: err.errors[0]?.message || "Invalid swap request" });
+      } else {
+        console.error("Error creating swap request:", err);
+        res.status(500).json({ message: "Failed to create swap request" });
+      }
+    }
+  });
+  
+  // The replacement accepts or declines
+  app.post("/api/swap-requests/:id/respond", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { accept } = respondSwapRequestSchema.parse(req.body);
+      const id = parseInt(req.params.id);
+      
+      const before = await storage.getSwapRequest(id);
+      if (!before || before.replacementId !== req.user.id) {
+        return res.status(404).json({ message: "Swap request not found" });
+      }
+      if (before.status !== "pending") {
+        return res.status(400).json({ message: "This request has already been answered" });
+      }
+      
+      // Without approval the roster changes as soon as the replacement agrees. The request
+      // is accepted in the same transaction, so it stays pending if the swap can't be made.
+      const { swapApprovalRequired } = await storage.getSettings();
+      let request: SwapRequest;
+      if (accept && !swapApprovalRequired) {
+        const applied = await storage.applySwapRequest(id, null, true);
+        request = applied.request;
+        await recordAudit(req, { action: "accept", entityType: "swap_request", entityId: id, before, after: request });
+        await recordAudit(req, {
+          action: "swap",
+          entityType: "roster_assignment",
+          entityId: before.assignmentId,
+          before: applied.before,
+          after: applied.after
+        });
+      } else {
+        // Only while still pending, as the requester may have cancelled meanwhile
+        const answered = await storage.updateSwapRequest(id, ["pending"], {
+          status: accept ? "accepted" : "declined",
+          respondedAt: new Date()
+        });
+        if (!answered) {
+          return res.status(400).json({ message: "This request has already been answered" });
+        }
+        request = answered;
+        await recordAudit(req, { action: accept ? "accept" : "decline", entityType: "swap_request", entityId: id, before, after: request });
+      }
+      
+      const [details] = await withSwapDetails([request]);
+      res.json(details);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: err.errors[0]?.message || "Invalid response" });
+      } else if (err instanceof RosterRuleError) {
+        res.status(400).json({ message: err.message });
+      } else {
+        console.error("Error responding to swap request:", err);
+        res.status(500).json({ message: "Failed to respond to swap request" });
+      }
+    }
+  });
+  
+  // The requester withdraws a request that has not been settled
+  app.post("/api/swap-requests/:id/cancel", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const id = parseInt(req.params.id);
+      const before = await storage.getSwapRequest(id);
+      if (!before || before.requesterId !== req.user.id) {
+        return res.status(404).json({ message: "Swap request not found" });
+      }
+      if (before.status !== "pending" && before.status !== "accepted") {
+        return res.status(400).json({ message: "This request has already been settled" });
+      }
+      
+      const request = await storage.updateSwapRequest(id, ["pending", "accepted"], { status: "cancelled", decidedAt: new Date() });
+      if (!request) {
+        return res.status(400).json({ message: "This request has already been settled" });
+      }
+      await recordAudit(req, { action: "cancel", entityType: "swap_request", entityId: id, before, after: request });
+      
+      const [details] = await withSwapDetails([request]);
+      res.json(details);
+    } catch (err) {
+      console.error("Error cancelling swap request:", err);
+      res.status(500).json({ message: "Failed to cancel swap request" });
+    }
+  });
+  
+  // Every swap request, newest first, for coordinators to approve and review
+  app.get("/api/admin/swap-requests", requirePermission("roster.finalize"), async (req, res) => {
+    try {
+      const requests = await storage.getSwapRequests();
+      res.json(await withSwapDetails(requests));
+    } catch (err) {
+      console.error("Error fetching swap requests:", err);
+      res.status(500).json({ message: "Failed to fetch swap requests" });
+    }
+  });
+  
+  app.post("/api/admin/swap-requests/:id/decide", requirePermission("roster.finalize"), async (req, res) => {
+    try {
+      const { approve } = decideSwapRequestSchema.parse(req.body);
+      const id = parseInt(req.params.id);
+      
+      const before = await storage.getSwapRequest(id);
+      if (!before) {
+        return res.status(404).json({ message: "Swap request not found" });
+      }
+      if (before.status !== "accepted") {
+        return res.status(400).json({ message: "Only requests the replacement has accepted can be decided" });
+      }
+      
+      let request: SwapRequest;
+      if (approve) {
+        const applied = await storage.applySwapRequest(id, req.user!.id);
+        request = applied.request;
+        await recordAudit(req, {
+          action: "swap",
+          entityType: "roster_assignment",
+          entityId: before.assignmentId,
+          before: applied.before,
+          after: applied.after
+        });
+      } else {
+        const rejected = await storage.updateSwapRequest(id, ["accepted"], {
+          status: "rejected",
+          decidedAt: new Date(),
+          decidedBy: req.user!.id
+        });
+        if (!rejected) {
+          return res.status(400).json({ message: "Only requests the replacement has accepted can be decided" });
+        }
+        request = rejected;
+      }
+      await recordAudit(req, { action: approve ? "approve" : "reject", entityType: "swap_request", entityId: id, before, after: request });
+      
+      const [details] = await withSwapDetails([request]);
+      res.json(details);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        res.status(400).json({ message: err.errors[0]?.message || "Invalid decision" });
+      } else if (err instanceof RosterRuleError) {
+        res.status(400).json({ message: err.message });
+      } else {
+        console.error("Error deciding swap request:", err);
+        res.status(500).json({ message: "Failed to decide swap request" });
+      }
+    }
+  });
 
   const httpServer = createServer(app);
   return httpServer;
@@ -0,0 +1,56 @@
+import { User, SafeUser, MemberSummary, DirectoryEntry, OutboxEmail, OutboxEntry, TimeAway, TimeAwayEntry } from "@shared/schema";
+import { storage } from "./storage";
+
+// Every route that returns user data must go through one of these projections
+// so that the stored PIN hash never leaves the server.
+
+// The signed-in user themselves, or an admin viewing member records
+export function toSafeUser(user: User): SafeUser {
+  const { pin: _pin, calendarToken: _calendarToken, ...safeUser } = user;
+  return safeUser;
+}
+
+// Other members as seen by any authenticated user
+export function toMemberSummary(user: User): MemberSummary {
+  return {
+    id: user.id,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    initials: user.initials,
+  };
+}
+
+// Unauthenticated login picker: only an id and the configured display name
+export async function toDirectory(users: User[]): Promise<DirectoryEntry[]> {
+  const { nameFormat } = await storage.getSettings();
+  return users.map(user => ({
+    id: user.id,
+    name: storage.formatUserName(user, nameFormat),
+  }));
+}
+
+// Attach a member summary in place of the full user on joined assignment rows
+export function withMemberSummary<T extends { user?: User }>(row: T): Omit<T, "user"> & { user?: MemberSummary } {
+  return {
+    ...row,
+    user: row.user ? toMemberSummary(row.user) : undefined,
+  };
+}
+
+// Outbox emails without their attachment contents, which only the worker needs
+export function toOutboxEntry(email: OutboxEmail): OutboxEntry {
+  const { attachments, ...entry } = email;
+  return {
+    ...entry,
+    attachmentNames: attachments.map(attachment => attachment.filename),
+  };
+}
+
+// Time away with the member it belongs to; entries of removed members are dropped
+export async function toTimeAwayEntries(entries: TimeAway[]): Promise<TimeAwayEntry[]> {
+  const users = new Map((await storage.getAllUsers()).map(user => [user.id, user]));
+  return entries.flatMap(entry => {
+    const user = users.get(entry.userId);
+    return user ? [{ ...entry, member: toMemberSummary(user) }] : [];
+  });
+}
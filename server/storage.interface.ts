@@ -1,13 +1,24 @@
 import { Store } from "express-session";
 import { 
   User, InsertUser, 
-  Availability, InsertAvailability, 
+  LoginAttempt, InsertLoginAttempt,
+  AuditLog, InsertAuditLog, AuditLogFilter,
+  MemberRole, InsertMemberRole,
+  Service, InsertService,
+  ServiceSchedule, InsertServiceSchedule,
+  Availability, InsertAvailability, AvailabilityRule, SaveAvailabilityRule, TimeAway,
   Settings,
   Verse, InsertVerse,
   SpecialDay, InsertSpecialDay,
   ServiceRole, InsertServiceRole,
+  MemberQualification, QualificationLevel,
   RosterAssignment, InsertRosterAssignment,
-  FinalizedRoster, InsertFinalizedRoster,
+  FinalizedRoster, InsertFinalizedRoster, PublishedAssignment, RosterVersion,
+  SwapRequest, InsertSwapRequest, SwapRequestStatus,
+  OutboxEmail, OutboxFilter, QueueEmail, EmailAttachment,
+  AvailabilityReminder, AvailabilityReminderKind,
+  AvailabilityDeadline, AvailabilityException, LockState,
+  ContactDetails,
   UpdateProfile
 } from "@shared/schema";
 
@@ -17,15 +28,70 @@ export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByName(firstName: string, lastName: string): Promise<User | undefined>;
+  getUserByCalendarToken(token: string): Promise<User | undefined>;
+  setCalendarToken(id: number, token: string): Promise<User>;
   createUser(insertUser: InsertUser): Promise<User>;
   deleteUser(id: number): Promise<void>;
   updateUserPin(id: number, pin: string): Promise<User>;
+  rehashUserPin(id: number, pin: string): Promise<User>;
+  resetUserPin(id: number, temporaryPin: string, resetBy: number, expiresAt: Date): Promise<User>; // Also signs the member out everywhere
+  destroyUserSessions(userId: number): Promise<void>;
+  updateLoginLockout(id: number, data: Pick<User, "failedPinAttempts" | "lastFailedLoginAt" | "lockedUntil">): Promise<User>;
+  recordFailedPin(id: number, now?: Date): Promise<User>; // Adds one wrong PIN and locks the account once there are too many
+  getLockedUsers(): Promise<User[]>;
+  unlockUser(id: number): Promise<User>;
   updateUserProfile(id: number, data: Partial<UpdateProfile>): Promise<User>;
+  updateUserContact(id: number, data: Partial<ContactDetails>): Promise<User>;
   getAllUsers(): Promise<User[]>;
   
+  // Member role operations
+  getMemberRoles(userId: number): Promise<MemberRole[]>;
+  getAllMemberRoles(): Promise<MemberRole[]>;
+  setMemberRoles(userId: number, roles: Omit<InsertMemberRole, "userId">[]): Promise<MemberRole[]>;
+  
+  // Login attempt operations
+  recordLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt>;
+  countFailedLoginAttemptsByIp(ipAddress: string, since: Date): Promise<number>;
+  pruneLoginAttempts(before: Date): Promise<number>;
+  getRecentLoginAttempts(limit: number): Promise<LoginAttempt[]>;
+  
+  // Audit log operations
+  recordAudit(entry: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(filter: AuditLogFilter): Promise<AuditLog[]>;
+  
   // Availability operations
   setAvailability(data: InsertAvailability): Promise<Availability>;
   getAvailability(): Promise<Availability[]>;
+  getAvailabilityForUser(userId: number): Promise<Availability[]>;
+  getAvailabilityForServices(serviceIds: number[]): Promise<Availability[]>;
+  
+  // Availability rule operations
+  getAvailabilityRules(userId: number): Promise<AvailabilityRule[]>;
+  getAvailabilityRule(id: number): Promise<AvailabilityRule | undefined>;
+  createAvailabilityRule(userId: number, rule: SaveAvailabilityRule): Promise<AvailabilityRule>;
+  updateAvailabilityRule(id: number, rule: SaveAvailabilityRule): Promise<AvailabilityRule>;
+  deleteAvailabilityRule(id: number): Promise<void>;
+  // Answers for the services from members' rules; all members with rules unless userIds is given
+  applyAvailabilityRules(services: Service[], userIds?: number[]): Promise<void>;
+  
+  // Time away operations
+  getTimeAway(filter?: { userId?: number; from?: string; to?: string }): Promise<TimeAway[]>; // Entries overlapping from-to
+  getTimeAwayEntry(id: number): Promise<TimeAway | undefined>;
+  createTimeAway(data: { userId: number; startDate: string; endDate: string; reason: string | null; createdBy: number }): Promise<TimeAway>; // Answers are left to applyTimeAway
+  deleteTimeAway(id: number): Promise<void>;
+  // Answers the services as unavailable for members away on their dates; all members unless userIds is given
+  applyTimeAway(services: Service[], userIds?: number[]): Promise<void>;
+  
+  // Availability deadline operations
+  getAvailabilityDeadline(year: number, month: number): Promise<AvailabilityDeadline | undefined>;
+  setAvailabilityDeadline(year: number, month: number, data: { deadline: string | null; lockState: LockState; updatedBy: number }): Promise<AvailabilityDeadline>;
+  getAvailabilityExceptions(year: number, month: number): Promise<AvailabilityException[]>;
+  // Replaces the month's exceptions with the given members
+  setAvailabilityExceptions(year: number, month: number, userIds: number[], grantedBy: number): Promise<AvailabilityException[]>;
+  
+  // Availability reminder operations
+  getAvailabilityReminders(year: number, month: number): Promise<AvailabilityReminder[]>;
+  recordAvailabilityReminder(data: { userId: number; year: number; month: number; kind: AvailabilityReminderKind; outboxId: number | null }): Promise<AvailabilityReminder>;
   
   // Settings operations
   getSettings(): Promise<Settings>;
@@ -34,7 +100,7 @@ export interface IStorage {
   // Name format operations
   getNameFormat(): string;
   setNameFormat(format: string): Promise<string>;
-  formatUserName(user: User): string;
+  formatUserName(user: User, format?: string): string;
   
   // Verse operations
   getAllVerses(): Promise<Verse[]>;
@@ -50,6 +116,24 @@ export interface IStorage {
   updateSpecialDay(id: number, specialDay: Partial<InsertSpecialDay>): Promise<SpecialDay>;
   deleteSpecialDay(id: number): Promise<void>;
   
+  // Service operations
+  getServicesForMonth(year: number, month: number): Promise<Service[]>; // Read-only; months are generated by materializeServicesForMonth
+  materializeServicesForMonth(year: number, month: number): Promise<Service[]>; // Returns only the services it created
+  getService(id: number): Promise<Service | undefined>;
+  getServicesByIds(ids: number[]): Promise<Service[]>;
+  getServicesFrom(date: string): Promise<Service[]>; // Services on or after a "yyyy-MM-dd" date, in order
+  getServicesBetween(from: string, to: string): Promise<Service[]>; // Services from-to inclusive, in order
+  createService(service: InsertService): Promise<Service>;
+  updateService(id: number, service: Partial<InsertService>): Promise<Service>;
+  deleteService(id: number): Promise<void>;
+  
+  // Service Schedule operations
+  getServiceSchedules(): Promise<ServiceSchedule[]>;
+  getServiceSchedule(id: number): Promise<ServiceSchedule | undefined>;
+  createServiceSchedule(schedule: InsertServiceSchedule): Promise<ServiceSchedule>;
+  updateServiceSchedule(id: number, schedule: Partial<InsertServiceSchedule>): Promise<ServiceSchedule>;
+  deleteServiceSchedule(id: number): Promise<void>;
+  
   // Service Roles operations
   getAllServiceRoles(): Promise<ServiceRole[]>;
   getActiveServiceRoles(): Promise<ServiceRole[]>;
@@ -59,22 +143,59 @@ export interface IStorage {
   deleteServiceRole(id: number): Promise<void>;
   reorderServiceRoles(roleIds: number[]): Promise<ServiceRole[]>;
   
+  // Member qualification operations
+  getMemberQualifications(): Promise<MemberQualification[]>;
+  // A null level removes the qualification; returns the saved row, if any
+  setMemberQualification(userId: number, roleId: number, level: QualificationLevel | null): Promise<MemberQualification | undefined>;
+  
   // Roster Assignment operations
   getAllRosterAssignments(): Promise<RosterAssignment[]>;
-  getRosterAssignmentsForDate(date: Date): Promise<RosterAssignment[]>;
+  getRosterAssignment(id: number): Promise<RosterAssignment | undefined>;
+  getRosterAssignmentsForService(serviceId: number): Promise<RosterAssignment[]>;
   getRosterAssignmentsForMonth(year: number, month: number): Promise<RosterAssignment[]>;
+  getRosterAssignmentsForUser(userId: number): Promise<RosterAssignment[]>;
+  getAssignmentCountsBefore(date: string): Promise<{ userId: number; roleId: number; count: number }[]>; // Per member and role, for fair rotation
   getRosterAssignmentsWithUserData(year: number, month: number): Promise<any[]>;  // Returns assignments with user and role data
   createRosterAssignment(assignment: InsertRosterAssignment): Promise<RosterAssignment>;
   updateRosterAssignment(id: number, assignment: Partial<InsertRosterAssignment>): Promise<RosterAssignment>;
   deleteRosterAssignment(id: number): Promise<void>;
-  clearRosterAssignmentsForDate(date: Date): Promise<number>; // Returns the number of assignments that were deleted
+  clearRosterAssignmentsForService(serviceId: number): Promise<number>; // Returns the number of assignments that were deleted
   
   // Roster Builder Helper methods
-  getAvailableSundaysWithPeople(year: number, month: number): Promise<any[]>;  // Returns Sundays with available people
+  getServicesWithPeople(year: number, month: number): Promise<any[]>;  // Returns the month's services with available people
   
   // Finalized roster operations
   getFinalizedRoster(year: number, month: number): Promise<FinalizedRoster | undefined>;
-  finalizeRoster(data: InsertFinalizedRoster): Promise<FinalizedRoster>;
+  // Also snapshots the assignments as the month's next version; `previous` is the version before it
+  finalizeRoster(
+    data: InsertFinalizedRoster,
+    assignments: PublishedAssignment[]
+  ): Promise<{ finalizedRoster: FinalizedRoster; version: RosterVersion; previous: RosterVersion | null }>;
   unfinalizeRoster(year: number, month: number): Promise<void>;
   getAllFinalizedRosters(): Promise<FinalizedRoster[]>;
+  
+  // Roster version operations
+  getRosterVersions(year: number, month: number): Promise<RosterVersion[]>; // Oldest first
+  
+  // Swap request operations
+  getSwapRequest(id: number): Promise<SwapRequest | undefined>;
+  // Newest first; userId matches either the requester or the replacement
+  getSwapRequests(filter?: { userId?: number; statuses?: SwapRequestStatus[] }): Promise<SwapRequest[]>;
+  createSwapRequest(request: InsertSwapRequest): Promise<SwapRequest>;
+  // Only while the request is in one of fromStatuses, so it can't be settled twice; undefined once it has moved on
+  updateSwapRequest(id: number, fromStatuses: SwapRequestStatus[], request: Partial<InsertSwapRequest>): Promise<SwapRequest | undefined>;
+  // Hands the assignment (and, for a swap, the partner's assignment) over and marks the request approved
+  applySwapRequest(id: number, decidedBy: number | null, accepting?: boolean): Promise<{ request: SwapRequest; before: RosterAssignment[]; after: RosterAssignment[] }>;
+  
+  // Email outbox operations
+  queueEmails(emails: QueueEmail[]): Promise<OutboxEmail[]>;
+  getEmailAttachment(id: number): Promise<EmailAttachment | undefined>;
+  getOutboxEmail(id: number): Promise<OutboxEmail | undefined>;
+  // Newest first
+  getOutboxEmails(filter: OutboxFilter): Promise<OutboxEmail[]>;
+  updateOutboxEmail(id: number, data: Partial<Omit<OutboxEmail, "id">>): Promise<OutboxEmail>;
+  // Marks pending emails that are due as sending and returns them, oldest first
+  claimDueEmails(limit: number): Promise<OutboxEmail[]>;
+  // Returns emails left sending by a stopped worker to the queue
+  releaseSendingEmails(): Promise<number>;
 }
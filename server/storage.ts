@@ -1,24 +1,61 @@
 import { IStorage } from "./storage.interface";
 import { 
-  users, availability, settings, verses, specialDays, serviceRoles, rosterAssignments, finalizedRosters,
+  users, availability, settings, verses, specialDays, serviceRoles, rosterAssignments, finalizedRosters, loginAttempts, memberRoles, auditLogs, services, serviceSchedules, memberQualifications, swapRequests, emailOutbox, emailAttachments, availabilityReminders, rosterVersions, availabilityDeadlines, availabilityExceptions, availabilityRules, timeAway,
   InsertUser, User, 
-  InsertAvailability, Availability, 
+  LoginAttempt, InsertLoginAttempt,
+  AuditLog, InsertAuditLog, AuditLogFilter,
+  MemberRole, InsertMemberRole,
+  Service, InsertService,
+  ServiceSchedule, InsertServiceSchedule,
+  InsertAvailability, Availability, AvailabilityRule, SaveAvailabilityRule, TimeAway,
   Settings,
   Verse, InsertVerse,
   SpecialDay, InsertSpecialDay,
   ServiceRole, InsertServiceRole,
+  MemberQualification, QualificationLevel,
   RosterAssignment, InsertRosterAssignment,
-  FinalizedRoster, InsertFinalizedRoster,
+  FinalizedRoster, InsertFinalizedRoster, PublishedAssignment, RosterVersion,
+  SwapRequest, InsertSwapRequest, SwapRequestStatus,
+  OutboxEmail, OutboxFilter, QueueEmail, OutboxAttachment, EmailAttachment,
+  AvailabilityReminder, AvailabilityReminderKind,
+  AvailabilityDeadline, AvailabilityException, LockState,
+  ContactDetails,
   UpdateProfile
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, ne, and, or, sql, gt, gte, lt, lte, desc, isNull, inArray } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
+import { hashPin, verifyPin, DEFAULT_PIN } from "./pin";
+import { FAILED_LOGIN_OUTCOMES, lockoutUntil } from "./login-throttle";
+import { DEFAULT_SERVICE_SCHEDULE, compareServices, getScheduleDates } from "@shared/services";
+import { fromDateKey, monthBounds, parseDateKey, toDateKey } from "@shared/dates";
+import { answerFromRules } from "@shared/availability-rules";
+import { releaseTimeAwayAnswers } from "@shared/availability";
 
 const PostgresSessionStore = connectPg(session);
 
+// Columns for a rule, clearing the ones its kind does not use
+function toRuleColumns(rule: SaveAvailabilityRule) {
+  return rule.kind === "weekday"
+    ? { kind: rule.kind, isAvailable: rule.isAvailable, dayOfWeek: rule.dayOfWeek, weeksOfMonth: rule.weeksOfMonth, startDate: null, endDate: null }
+    : { kind: rule.kind, isAvailable: false, dayOfWeek: null, weeksOfMonth: [], startDate: rule.startDate, endDate: rule.endDate };
+}
+
+// Postgres rejected a row because it would duplicate a unique index
+function isUniqueViolation(err: unknown): boolean {
+  return typeof err === "object" && err !== null && (err as { code?: string }).code === "23505";
+}
+
+// Times finalizeRoster tries again when another finalization took its version number
+const VERSION_ATTEMPTS = 3;
+
+const DUPLICATE_SERVICE_MESSAGE = "There is already a service with this name at that date and time";
+
+// A roster change that breaks one of the roster's rules, with a message for the user
+export class RosterRuleError extends Error {}
+
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
 
@@ -35,16 +72,13 @@ export class DatabaseStorage implements IStorage {
     return (firstName.charAt(0) + lastName.charAt(0)).toUpperCase();
   }
   
-  // Helper function to safely format dates
+  // Normalizes a date to its "yyyy-MM-dd" key without going through UTC, which
+  // would move it a day in timezones ahead of or behind UTC
   formatDateToString(date: unknown): string {
-    if (date instanceof Date) {
-      return date.toISOString().split('T')[0];
-    } else if (typeof date === 'string') {
-      const parsedDate = new Date(date);
-      return parsedDate.toISOString().split('T')[0];
-    } else {
-      throw new Error("Invalid date format");
+    if (date instanceof Date || typeof date === 'string') {
+      return toDateKey(date);
     }
+    throw new Error("Invalid date format");
   }
 
   // Check if initials already exist in the database
@@ -59,7 +93,6 @@ export class DatabaseStorage implements IStorage {
 
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
-    console.log(`Retrieved user: ${JSON.stringify(user)}`);
     return user;
   }
 
@@ -68,6 +101,21 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.calendarToken, token));
+    return user;
+  }
+
+  async setCalendarToken(id: number, token: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ calendarToken: token })
+      .where(eq(users.id, id))
+      .returning();
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     try {
       console.log(`Attempting to create user with data: ${JSON.stringify(insertUser)}`);
@@ -105,11 +153,11 @@ export class DatabaseStorage implements IStorage {
         .values({
           ...insertUser,
           firstLogin: true,
-          pin: "000000"
+          pin: await hashPin(DEFAULT_PIN)
         })
         .returning();
         
-      console.log(`Created new user: ${JSON.stringify(user)}`);
+      console.log(`Created new user ${user.id}`);
       return user;
     } catch (error) {
       console.error("Error in createUser:", error);
@@ -129,8 +177,14 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Cannot delete the last admin user");
     }
 
-    // Delete user's availability records first
+    // Delete user's availability records, reminders, role grants and qualifications first
     await db.delete(availability).where(eq(availability.userId, id));
+    await db.delete(availabilityReminders).where(eq(availabilityReminders.userId, id));
+    await db.delete(availabilityExceptions).where(eq(availabilityExceptions.userId, id));
+    await db.delete(availabilityRules).where(eq(availabilityRules.userId, id));
+    await db.delete(timeAway).where(eq(timeAway.userId, id));
+    await db.delete(memberRoles).where(eq(memberRoles.userId, id));
+    await db.delete(memberQualifications).where(eq(memberQualifications.userId, id));
     // Then delete the user
     await db.delete(users).where(eq(users.id, id));
   }
@@ -140,17 +194,207 @@ export class DatabaseStorage implements IStorage {
     const [user] = await db
       .update(users)
       .set({ 
-        pin,
-        firstLogin: false 
+        pin: await hashPin(pin),
+        firstLogin: false,
+        pinExpiresAt: null
       })
       .where(eq(users.id, id))
       .returning();
 
     if (!user) throw new Error("User not found");
-    console.log(`Updated user PIN: ${JSON.stringify(user)}`);
+    console.log(`Updated PIN for user ${user.id}`);
+    return user;
+  }
+
+  async rehashUserPin(id: number, pin: string): Promise<User> {
+    // Replaces a legacy plaintext PIN with its hash without touching firstLogin
+    const [user] = await db
+      .update(users)
+      .set({ pin: await hashPin(pin) })
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!user) throw new Error("User not found");
+    console.log(`Upgraded stored PIN to hash for user ${id}`);
     return user;
   }
+
+  async resetUserPin(id: number, temporaryPin: string, resetBy: number, expiresAt: Date): Promise<User> {
+    // Issue a temporary PIN that must be changed on next login; also clears any lockout
+    const [user] = await db
+      .update(users)
+      .set({
+        pin: await hashPin(temporaryPin),
+        firstLogin: true,
+        pinExpiresAt: expiresAt,
+        pinResetAt: new Date(),
+        pinResetBy: resetBy,
+        failedPinAttempts: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null
+      })
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!user) throw new Error("User not found");
+    console.log(`PIN for user ${id} reset by user ${resetBy}`);
+
+    // Whoever is signed in with the old PIN is signed out
+    await this.destroyUserSessions(id);
+    return user;
+  }
+
+  async destroyUserSessions(userId: number): Promise<void> {
+    // Rows of the connect-pg-simple store; passport keeps the member id in the session
+    await db.execute(sql`DELETE FROM "session" WHERE (sess->'passport'->>'user')::int = ${userId}`);
+  }
+
+  async updateLoginLockout(
+    id: number,
+    data: Pick<User, "failedPinAttempts" | "lastFailedLoginAt" | "lockedUntil">
+  ): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set(data)
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+
+  async recordFailedPin(id: number, now: Date = new Date()): Promise<User> {
+    // Counted in SQL so wrong PINs submitted at the same moment each add one;
+    // a lock that has already expired starts the count again
+    const lockExpired = sql`${users.lockedUntil} <= ${sql.param(now, users.lockedUntil)}`;
+    const [counted] = await db
+      .update(users)
+      .set({
+        failedPinAttempts: sql`CASE WHEN ${lockExpired} THEN 1 ELSE ${users.failedPinAttempts} + 1 END`,
+        lastFailedLoginAt: now,
+        lockedUntil: sql`CASE WHEN ${lockExpired} THEN NULL ELSE ${users.lockedUntil} END`,
+      })
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!counted) throw new Error("User not found");
+
+    const lockedUntil = lockoutUntil(counted.failedPinAttempts, now);
+    if (!lockedUntil) return counted;
+
+    const [locked] = await db
+      .update(users)
+      .set({ lockedUntil })
+      .where(eq(users.id, id))
+      .returning();
+    return locked;
+  }
+
+  async getLockedUsers(): Promise<User[]> {
+    return db
+      .select()
+      .from(users)
+      .where(gt(users.lockedUntil, new Date()));
+  }
+
+  async unlockUser(id: number): Promise<User> {
+    return this.updateLoginLockout(id, {
+      failedPinAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null
+    });
+  }
+
+  // Member role grants
+  async getMemberRoles(userId: number): Promise<MemberRole[]> {
+    return db.select().from(memberRoles).where(eq(memberRoles.userId, userId));
+  }
+
+  async getAllMemberRoles(): Promise<MemberRole[]> {
+    return db.select().from(memberRoles);
+  }
+
+  async setMemberRoles(userId: number, roles: Omit<InsertMemberRole, "userId">[]): Promise<MemberRole[]> {
+    // Replace the member's grants wholesale
+    await db.delete(memberRoles).where(eq(memberRoles.userId, userId));
+    if (roles.length === 0) return [];
+
+    return db
+      .insert(memberRoles)
+      .values(roles.map(role => ({ ...role, userId })))
+      .returning();
+  }
+
+  // Login attempt log
+  async recordLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    const [created] = await db
+      .insert(loginAttempts)
+      .values(attempt)
+      .returning();
+    return created;
+  }
+
+  async countFailedLoginAttemptsByIp(ipAddress: string, since: Date): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(loginAttempts)
+      .where(
+        and(
+          eq(loginAttempts.ipAddress, ipAddress),
+          gte(loginAttempts.attemptedAt, since),
+          inArray(loginAttempts.outcome, FAILED_LOGIN_OUTCOMES)
+        )
+      );
+    return count;
+  }
+
+  async pruneLoginAttempts(before: Date): Promise<number> {
+    const pruned = await db
+      .delete(loginAttempts)
+      .where(lt(loginAttempts.attemptedAt, before))
+      .returning({ id: loginAttempts.id });
+    return pruned.length;
+  }
+
+  async getRecentLoginAttempts(limit: number): Promise<LoginAttempt[]> {
+    return db
+      .select()
+      .from(loginAttempts)
+      .orderBy(desc(loginAttempts.attemptedAt))
+      .limit(limit);
+  }
+
+  // Audit entries are only ever inserted; there is deliberately no update or delete
+  async recordAudit(entry: InsertAuditLog): Promise<AuditLog> {
+    const [log] = await db.insert(auditLogs).values(entry).returning();
+    return log;
+  }
+
+  async getAuditLogs(filter: AuditLogFilter): Promise<AuditLog[]> {
+    const conditions = [];
+    if (filter.actorId !== undefined) conditions.push(eq(auditLogs.actorId, filter.actorId));
+    if (filter.entityType) conditions.push(eq(auditLogs.entityType, filter.entityType));
+    if (filter.from) conditions.push(gte(auditLogs.createdAt, filter.from));
+    if (filter.to) conditions.push(lte(auditLogs.createdAt, filter.to));
+
+    return db
+      .select()
+      .from(auditLogs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLogs.createdAt))
+      .limit(filter.limit);
+  }
   
+  async updateUserContact(id: number, data: Partial<ContactDetails>): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set(data)
+      .where(eq(users.id, id))
+      .returning();
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+
   async updateUserProfile(id: number, data: Partial<UpdateProfile>): Promise<User> {
     console.log(`Updating profile for user ${id}`);
     
@@ -195,11 +439,12 @@ export class DatabaseStorage implements IStorage {
     // Update PIN if provided and validated
     if (data.newPin) {
       // Check if current PIN matches
-      if (data.currentPin !== existingUser.pin) {
+      if (!data.currentPin || !(await verifyPin(data.currentPin, existingUser.pin))) {
         throw new Error("Current PIN is incorrect");
       }
-      updateData.pin = data.newPin;
+      updateData.pin = await hashPin(data.newPin);
       updateData.firstLogin = false; // No longer first login after PIN change
+      updateData.pinExpiresAt = null; // A chosen PIN never expires
     }
     
     // Perform update
@@ -210,52 +455,270 @@ export class DatabaseStorage implements IStorage {
       .returning();
     
     if (!updatedUser) throw new Error("Failed to update user profile");
-    console.log(`Updated user profile: ${JSON.stringify(updatedUser)}`);
+    console.log(`Updated profile for user ${updatedUser.id}`);
     return updatedUser;
   }
 
   async setAvailability(data: InsertAvailability): Promise<Availability> {
-    // Convert date string to Date object for comparison
-    const dateStr = new Date(data.serviceDate).toISOString().split('T')[0];
+    // A member has one answer per service, so saving twice at once can't add a second
+    const [saved] = await db
+      .insert(availability)
+      .values({
+        ...data,
+        serviceDate: this.formatDateToString(data.serviceDate),
+        lastUpdated: new Date()
+      })
+      .onConflictDoUpdate({
+        target: [availability.userId, availability.serviceId],
+        set: {
+          isAvailable: data.isAvailable,
+          isMaybe: data.isMaybe ?? false,
+          note: data.note, // Left as it is when not given
+          roleIds: data.roleIds,
+          ruleId: data.ruleId ?? null, // An answer given by the member replaces one from a rule
+          timeAwayId: data.timeAwayId ?? null, // or from time away
+          lastUpdated: new Date()
+        }
+      })
+      .returning();
+    return saved;
+  }
 
-    // Find existing availability
-    const [existing] = await db
+  async getAvailability(): Promise<Availability[]> {
+    return db.select().from(availability);
+  }
+
+  async getAvailabilityForUser(userId: number): Promise<Availability[]> {
+    return db.select().from(availability).where(eq(availability.userId, userId));
+  }
+
+  async getAvailabilityForServices(serviceIds: number[]): Promise<Availability[]> {
+    if (serviceIds.length === 0) return [];
+    return db
       .select()
       .from(availability)
-      .where(
-        and(
-          eq(availability.userId, data.userId),
-          eq(availability.serviceDate, dateStr)
-        )
-      );
+      .where(inArray(availability.serviceId, serviceIds));
+  }
+
+  async getAvailabilityRules(userId: number): Promise<AvailabilityRule[]> {
+    return db
+      .select()
+      .from(availabilityRules)
+      .where(eq(availabilityRules.userId, userId))
+      .orderBy(availabilityRules.createdAt);
+  }
+
+  async getAvailabilityRule(id: number): Promise<AvailabilityRule | undefined> {
+    const [rule] = await db.select().from(availabilityRules).where(eq(availabilityRules.id, id));
+    return rule;
+  }
+
+  async createAvailabilityRule(userId: number, rule: SaveAvailabilityRule): Promise<AvailabilityRule> {
+    const [created] = await db
+      .insert(availabilityRules)
+      .values({ userId, ...toRuleColumns(rule) })
+      .returning();
+    return created;
+  }
+
+  async updateAvailabilityRule(id: number, rule: SaveAvailabilityRule): Promise<AvailabilityRule> {
+    const [updated] = await db
+      .update(availabilityRules)
+      .set(toRuleColumns(rule))
+      .where(eq(availabilityRules.id, id))
+      .returning();
+    if (!updated) throw new Error("Availability rule not found");
+    return updated;
+  }
+
+  async deleteAvailabilityRule(id: number): Promise<void> {
+    await db.delete(availabilityRules).where(eq(availabilityRules.id, id));
+  }
+
+  // Answers a member gave themselves are left alone. Answers from rules are brought
+  // up to date with the rules as they are now, and removed once no rule covers the date.
+  async applyAvailabilityRules(targetServices: Service[], userIds?: number[]): Promise<void> {
+    const serviceIds = targetServices.map(service => service.id);
+    if (serviceIds.length === 0 || userIds?.length === 0) return;
+
+    const rules = userIds
+      ? await db.select().from(availabilityRules).where(inArray(availabilityRules.userId, userIds))
+      : await db.select().from(availabilityRules);
+    const rulesByUser = new Map<number, AvailabilityRule[]>();
+    for (const rule of rules) {
+      rulesByUser.set(rule.userId, [...(rulesByUser.get(rule.userId) ?? []), rule]);
+    }
+
+    const memberIds = userIds ?? Array.from(rulesByUser.keys());
+    if (memberIds.length === 0) return;
+
+    const existing = await db
+      .select()
+      .from(availability)
+      .where(and(inArray(availability.serviceId, serviceIds), inArray(availability.userId, memberIds)));
+    const existingByKey = new Map(existing.map(row => [`${row.userId}:${row.serviceId}`, row]));
+
+    for (const userId of memberIds) {
+      const memberRules = rulesByUser.get(userId) ?? [];
+      for (const service of targetServices) {
+        const row = existingByKey.get(`${userId}:${service.id}`);
+        if (row && row.ruleId === null) continue;
+
+        const answer = answerFromRules(memberRules, service.serviceDate);
+        if (!answer) {
+          if (row) await db.delete(availability).where(eq(availability.id, row.id));
+        } else if (!row) {
+          await db.insert(availability).values({
+            userId,
+            serviceId: service.id,
+            serviceDate: service.serviceDate,
+            isAvailable: answer.isAvailable,
+            ruleId: answer.ruleId,
+          });
+        } else if (row.isAvailable !== answer.isAvailable || row.isMaybe || row.ruleId !== answer.ruleId) {
+          await db
+            .update(availability)
+            .set({ isAvailable: answer.isAvailable, isMaybe: false, ruleId: answer.ruleId, lastUpdated: new Date() })
+            .where(eq(availability.id, row.id));
+        }
+      }
+    }
+  }
+
+  async getTimeAway(filter: { userId?: number; from?: string; to?: string } = {}): Promise<TimeAway[]> {
+    const conditions = [];
+    if (filter.userId !== undefined) conditions.push(eq(timeAway.userId, filter.userId));
+    if (filter.from) conditions.push(gte(timeAway.endDate, filter.from));
+    if (filter.to) conditions.push(lte(timeAway.startDate, filter.to));
+    return db
+      .select()
+      .from(timeAway)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(timeAway.startDate);
+  }
+
+  async getTimeAwayEntry(id: number): Promise<TimeAway | undefined> {
+    const [entry] = await db.select().from(timeAway).where(eq(timeAway.id, id));
+    return entry;
+  }
+
+  async createTimeAway(data: { userId: number; startDate: string; endDate: string; reason: string | null; createdBy: number }): Promise<TimeAway> {
+    const [created] = await db.insert(timeAway).values(data).returning();
+    return created;
+  }
+
+  // Answers filled in from the time away are cleared, unless the member's other time
+  // away covers the date, and the member's rules then answer for those services again
+  async deleteTimeAway(id: number): Promise<void> {
+    const released = await db.transaction(async (tx) => {
+      const [entry] = await tx.delete(timeAway).where(eq(timeAway.id, id)).returning();
+      if (!entry) return null;
+
+      const answers = await tx.select().from(availability).where(eq(availability.timeAwayId, id));
+      const others = await tx.select().from(timeAway).where(eq(timeAway.userId, entry.userId));
+      const { clearedIds, moved } = releaseTimeAwayAnswers(answers, others);
+      if (clearedIds.length > 0) await tx.delete(availability).where(inArray(availability.id, clearedIds));
+      for (const { id: answerId, timeAwayId } of moved) {
+        await tx.update(availability).set({ timeAwayId, lastUpdated: new Date() }).where(eq(availability.id, answerId));
+      }
+
+      const serviceIds = answers
+        .filter(answer => clearedIds.includes(answer.id) && answer.serviceId !== null)
+        .map(answer => answer.serviceId as number);
+      return { userId: entry.userId, serviceIds };
+    });
+    if (!released) return;
+
+    await this.applyAvailabilityRules(await this.getServicesByIds(released.serviceIds), [released.userId]);
+  }
 
+  // Answers the services as unavailable for members away on their dates, replacing
+  // any answer they had given
+  async applyTimeAway(targetServices: Service[], userIds?: number[]): Promise<void> {
+    if (targetServices.length === 0 || userIds?.length === 0) return;
+    const dates = targetServices.map(service => service.serviceDate).sort();
+    const entries = (await this.getTimeAway({ from: dates[0], to: dates[dates.length - 1] }))
+      .filter(entry => !userIds || userIds.includes(entry.userId));
+
+    for (const entry of entries) {
+      for (const service of targetServices) {
+        if (service.serviceDate < entry.startDate || service.serviceDate > entry.endDate) continue;
+        await this.setAvailability({
+          userId: entry.userId,
+          serviceId: service.id,
+          serviceDate: service.serviceDate,
+          isAvailable: false,
+          timeAwayId: entry.id,
+        });
+      }
+    }
+  }
+
+  async getAvailabilityDeadline(year: number, month: number): Promise<AvailabilityDeadline | undefined> {
+    const [deadline] = await db
+      .select()
+      .from(availabilityDeadlines)
+      .where(and(eq(availabilityDeadlines.year, year), eq(availabilityDeadlines.month, month)));
+    return deadline;
+  }
+
+  async setAvailabilityDeadline(year: number, month: number, data: { deadline: string | null; lockState: LockState; updatedBy: number }): Promise<AvailabilityDeadline> {
+    const existing = await this.getAvailabilityDeadline(year, month);
     if (existing) {
-      // Update existing record
       const [updated] = await db
-        .update(availability)
-        .set({ 
-          isAvailable: data.isAvailable,
-          lastUpdated: new Date()
-        })
-        .where(eq(availability.id, existing.id))
+        .update(availabilityDeadlines)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(availabilityDeadlines.id, existing.id))
         .returning();
       return updated;
-    } else {
-      // Insert new record
-      const [created] = await db
-        .insert(availability)
-        .values({
-          ...data,
-          serviceDate: dateStr,
-          lastUpdated: new Date()
-        })
-        .returning();
-      return created;
     }
+    const [created] = await db
+      .insert(availabilityDeadlines)
+      .values({ year, month, ...data })
+      .returning();
+    return created;
   }
 
-  async getAvailability(): Promise<Availability[]> {
-    return db.select().from(availability);
+  async getAvailabilityExceptions(year: number, month: number): Promise<AvailabilityException[]> {
+    return db
+      .select()
+      .from(availabilityExceptions)
+      .where(and(eq(availabilityExceptions.year, year), eq(availabilityExceptions.month, month)));
+  }
+
+  async setAvailabilityExceptions(year: number, month: number, userIds: number[], grantedBy: number): Promise<AvailabilityException[]> {
+    return db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(availabilityExceptions)
+        .where(and(eq(availabilityExceptions.year, year), eq(availabilityExceptions.month, month)));
+      const wanted = new Set(userIds);
+      const kept = existing.filter(exception => wanted.has(exception.userId));
+      const removedIds = existing.filter(exception => !wanted.has(exception.userId)).map(exception => exception.id);
+      if (removedIds.length > 0) {
+        await tx.delete(availabilityExceptions).where(inArray(availabilityExceptions.id, removedIds));
+      }
+
+      // Members who already had an exception keep their original grant
+      const keptIds = new Set(kept.map(exception => exception.userId));
+      const newIds = Array.from(wanted).filter(userId => !keptIds.has(userId));
+      const created = newIds.length > 0
+        ? await tx.insert(availabilityExceptions).values(newIds.map(userId => ({ year, month, userId, grantedBy }))).returning()
+        : [];
+      return [...kept, ...created];
+    });
+  }
+
+  async getAvailabilityReminders(year: number, month: number): Promise<AvailabilityReminder[]> {
+    return db
+      .select()
+      .from(availabilityReminders)
+      .where(and(eq(availabilityReminders.year, year), eq(availabilityReminders.month, month)));
+  }
+
+  async recordAvailabilityReminder(data: { userId: number; year: number; month: number; kind: AvailabilityReminderKind; outboxId: number | null }): Promise<AvailabilityReminder> {
+    const [reminder] = await db.insert(availabilityReminders).values(data).returning();
+    return reminder;
   }
 
   async getAllUsers(): Promise<User[]> {
@@ -299,6 +762,7 @@ export class DatabaseStorage implements IStorage {
     const [created] = await db
       .insert(settings)
       .values({
+        ...data,
         deadlineDay: data.deadlineDay ?? 20,
         nameFormat: data.nameFormat ?? 'full'
       })
@@ -314,11 +778,13 @@ export class DatabaseStorage implements IStorage {
 
   async setNameFormat(format: string): Promise<string> {
     this.nameFormat = format;
+    // Persist so the public login directory uses the same format
+    await this.updateSettings({ nameFormat: format });
     return format;
   }
 
-  formatUserName(user: User): string {
-    switch (this.nameFormat) {
+  formatUserName(user: User, format: string = this.nameFormat): string {
+    switch (format) {
       case 'first':
         return user.firstName;
       case 'last':
@@ -378,15 +844,9 @@ export class DatabaseStorage implements IStorage {
       // Filter in memory for the specified month (adjust for JavaScript's 0-based months)
       const filteredDays = allSpecialDays.filter(day => {
         try {
-          // Ensure proper Date object
-          const dayDate = new Date(day.date);
-          
-          // Log for debugging
-          console.log(`Checking date ${day.date}, parsed as ${dayDate.toISOString()}`);
-          console.log(`Year: ${dayDate.getFullYear()}, Month: ${dayDate.getMonth() + 1}`);
-          
-          // Return true if the date matches year and month
-          return dayDate.getFullYear() === year && dayDate.getMonth() === month - 1;
+          // Compare the parts of the date key; no timezone is involved
+          const dayDate = parseDateKey(day.date);
+          return dayDate.year === year && dayDate.month === month;
         } catch (error) {
           console.error(`Error parsing date ${day.date}:`, error);
           return false; // Skip this day if we can't parse the date
@@ -414,14 +874,10 @@ export class DatabaseStorage implements IStorage {
       
       if (typeof specialDay.date === 'object' && specialDay.date !== null && 'toISOString' in specialDay.date) {
         // Handle Date object
-        dateStr = (specialDay.date as Date).toISOString().split('T')[0];
+        dateStr = this.formatDateToString(specialDay.date);
       } else if (typeof specialDay.date === 'string') {
-        // If it's already a string, try to ensure it's in YYYY-MM-DD format
-        const parsedDate = new Date(specialDay.date);
-        if (isNaN(parsedDate.getTime())) {
-          throw new Error(`Invalid date format: ${specialDay.date}`);
-        }
-        dateStr = parsedDate.toISOString().split('T')[0];
+        // If it's already a string, ensure it's in YYYY-MM-DD format
+        dateStr = this.formatDateToString(specialDay.date);
       } else {
         // Handle unexpected type
         throw new Error(`Unexpected date type: ${typeof specialDay.date}`);
@@ -453,17 +909,8 @@ export class DatabaseStorage implements IStorage {
       const updateData: Partial<InsertSpecialDay> = { ...specialDay };
       
       if (updateData.date) {
-        if (typeof updateData.date === 'object' && updateData.date !== null && 'toISOString' in updateData.date) {
-          // Handle Date object
-          updateData.date = (updateData.date as Date).toISOString().split('T')[0];
-        } else if (typeof updateData.date === 'string') {
-          // If it's already a string, try to ensure it's in YYYY-MM-DD format
-          const parsedDate = new Date(updateData.date);
-          if (isNaN(parsedDate.getTime())) {
-            throw new Error(`Invalid date format: ${updateData.date}`);
-          }
-          updateData.date = parsedDate.toISOString().split('T')[0];
-        }
+        // Handles Date objects and strings alike, ensuring YYYY-MM-DD format
+        updateData.date = this.formatDateToString(updateData.date);
       }
       
       console.log(`Processed update data:`, JSON.stringify(updateData));
@@ -488,6 +935,200 @@ export class DatabaseStorage implements IStorage {
     await db.delete(specialDays).where(eq(specialDays.id, id));
   }
   
+  // Service operations
+  async getServicesForMonth(year: number, month: number): Promise<Service[]> {
+    const { start: startDateStr, end: endDateStr } = monthBounds(year, month);
+
+    const monthServices = await db
+      .select()
+      .from(services)
+      .where(and(gte(services.serviceDate, startDateStr), lte(services.serviceDate, endDateStr)));
+
+    return monthServices.sort(compareServices);
+  }
+
+  // Creates the month's services from the schedules and from special days that add
+  // a service, skipping days whose special day cancels services and occurrences that
+  // already exist. Availability or assignments saved against those dates before
+  // services existed are attached to the new services. Occurrences are unique, so
+  // two runs at once create each service only once and only the run that created a
+  // service fills in answers for it.
+  async materializeServicesForMonth(year: number, month: number): Promise<Service[]> {
+    const allSchedules = await this.getServiceSchedules();
+    const schedules = allSchedules.length > 0
+      ? allSchedules.filter(schedule => schedule.isActive)
+      : [DEFAULT_SERVICE_SCHEDULE];
+
+    const monthSpecialDays = await this.getSpecialDaysByMonth(year, month);
+    const cancelledDates = new Set(
+      monthSpecialDays
+        .filter(day => day.serviceEffect === "cancel")
+        .map(day => this.formatDateToString(day.date))
+    );
+
+    const occurrences: InsertService[] = [];
+    for (const schedule of schedules) {
+      for (const serviceDate of getScheduleDates(schedule, year, month)) {
+        if (cancelledDates.has(serviceDate)) continue;
+        occurrences.push({
+          serviceDate,
+          startTime: schedule.startTime,
+          name: schedule.name,
+          location: schedule.location,
+        });
+      }
+    }
+    for (const day of monthSpecialDays.filter(day => day.serviceEffect === "add")) {
+      occurrences.push({
+        serviceDate: this.formatDateToString(day.date),
+        startTime: day.serviceStartTime ?? DEFAULT_SERVICE_SCHEDULE.startTime,
+        name: day.name,
+        location: null,
+      });
+    }
+
+    const created = await db.transaction(async (tx) => {
+      const inserted: Service[] = [];
+      for (const occurrence of occurrences) {
+        const [service] = await tx
+          .insert(services)
+          .values(occurrence)
+          .onConflictDoNothing({ target: [services.serviceDate, services.startTime, services.name] })
+          .returning();
+        if (!service) continue; // Already exists
+
+        await tx
+          .update(availability)
+          .set({ serviceId: service.id })
+          .where(and(eq(availability.serviceDate, service.serviceDate), isNull(availability.serviceId)));
+        await tx
+          .update(rosterAssignments)
+          .set({ serviceId: service.id })
+          .where(and(eq(rosterAssignments.serviceDate, service.serviceDate), isNull(rosterAssignments.serviceId)));
+
+        inserted.push(service);
+      }
+      return inserted;
+    });
+
+    // Members' standing availability answers for the new services, then time away
+    await this.applyAvailabilityRules(created);
+    await this.applyTimeAway(created);
+
+    return created.sort(compareServices);
+  }
+
+  async getService(id: number): Promise<Service | undefined> {
+    const [service] = await db.select().from(services).where(eq(services.id, id));
+    return service;
+  }
+
+  async getServicesByIds(ids: number[]): Promise<Service[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(services).where(inArray(services.id, ids));
+  }
+
+  async getServicesFrom(date: string): Promise<Service[]> {
+    return db
+      .select()
+      .from(services)
+      .where(gte(services.serviceDate, date))
+      .orderBy(services.serviceDate, services.startTime);
+  }
+
+  async getServicesBetween(from: string, to: string): Promise<Service[]> {
+    return db
+      .select()
+      .from(services)
+      .where(and(gte(services.serviceDate, from), lte(services.serviceDate, to)))
+      .orderBy(services.serviceDate, services.startTime);
+  }
+
+  async createService(service: InsertService): Promise<Service> {
+    const [created] = await db
+      .insert(services)
+      .values({
+        ...service,
+        serviceDate: this.formatDateToString(service.serviceDate)
+      })
+      .onConflictDoNothing({ target: [services.serviceDate, services.startTime, services.name] })
+      .returning();
+    if (!created) throw new Error(DUPLICATE_SERVICE_MESSAGE);
+
+    await this.applyAvailabilityRules([created]);
+    await this.applyTimeAway([created]);
+    return created;
+  }
+
+  async updateService(id: number, service: Partial<InsertService>): Promise<Service> {
+    const updateData: Partial<InsertService> = { ...service };
+    if (updateData.serviceDate) {
+      updateData.serviceDate = this.formatDateToString(updateData.serviceDate);
+    }
+
+    let updated: Service | undefined;
+    try {
+      [updated] = await db
+        .update(services)
+        .set(updateData)
+        .where(eq(services.id, id))
+        .returning();
+    } catch (err) {
+      if (isUniqueViolation(err)) throw new Error(DUPLICATE_SERVICE_MESSAGE);
+      throw err;
+    }
+
+    if (!updated) throw new Error("Service not found");
+
+    // Keep the denormalised dates on availability and assignments in step
+    if (updateData.serviceDate) {
+      await db.update(availability).set({ serviceDate: updated.serviceDate }).where(eq(availability.serviceId, id));
+      await db.update(rosterAssignments).set({ serviceDate: updated.serviceDate }).where(eq(rosterAssignments.serviceId, id));
+    }
+
+    return updated;
+  }
+
+  async deleteService(id: number): Promise<void> {
+    const assignments = await this.getRosterAssignmentsForService(id);
+    if (assignments.length > 0) {
+      throw new Error("Cannot delete a service that has roster assignments");
+    }
+
+    await db.delete(availability).where(eq(availability.serviceId, id));
+    await db.delete(services).where(eq(services.id, id));
+  }
+  
+  // Service Schedule operations
+  async getServiceSchedules(): Promise<ServiceSchedule[]> {
+    return db.select().from(serviceSchedules).orderBy(serviceSchedules.dayOfWeek, serviceSchedules.startTime);
+  }
+
+  async getServiceSchedule(id: number): Promise<ServiceSchedule | undefined> {
+    const [schedule] = await db.select().from(serviceSchedules).where(eq(serviceSchedules.id, id));
+    return schedule;
+  }
+
+  async createServiceSchedule(schedule: InsertServiceSchedule): Promise<ServiceSchedule> {
+    const [created] = await db.insert(serviceSchedules).values(schedule).returning();
+    return created;
+  }
+
+  async updateServiceSchedule(id: number, schedule: Partial<InsertServiceSchedule>): Promise<ServiceSchedule> {
+    const [updated] = await db
+      .update(serviceSchedules)
+      .set(schedule)
+      .where(eq(serviceSchedules.id, id))
+      .returning();
+
+    if (!updated) throw new Error("Service schedule not found");
+    return updated;
+  }
+
+  async deleteServiceSchedule(id: number): Promise<void> {
+    await db.delete(serviceSchedules).where(eq(serviceSchedules.id, id));
+  }
+  
   // Service Roles operations
   async getAllServiceRoles(): Promise<ServiceRole[]> {
     return db.select().from(serviceRoles).orderBy(serviceRoles.order);
@@ -543,6 +1184,7 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Cannot delete a role that is used in roster assignments");
     }
     
+    await db.delete(memberQualifications).where(eq(memberQualifications.roleId, id));
     await db.delete(serviceRoles).where(eq(serviceRoles.id, id));
   }
   
@@ -561,6 +1203,39 @@ export class DatabaseStorage implements IStorage {
     return this.getAllServiceRoles();
   }
   
+  // Member qualification operations
+  async getMemberQualifications(): Promise<MemberQualification[]> {
+    return db.select().from(memberQualifications);
+  }
+  
+  async setMemberQualification(userId: number, roleId: number, level: QualificationLevel | null): Promise<MemberQualification | undefined> {
+    const match = and(
+      eq(memberQualifications.userId, userId),
+      eq(memberQualifications.roleId, roleId)
+    );
+    
+    if (level === null) {
+      await db.delete(memberQualifications).where(match);
+      return undefined;
+    }
+    
+    const [existing] = await db.select().from(memberQualifications).where(match);
+    if (existing) {
+      const [updated] = await db
+        .update(memberQualifications)
+        .set({ level })
+        .where(eq(memberQualifications.id, existing.id))
+        .returning();
+      return updated;
+    }
+    
+    const [created] = await db
+      .insert(memberQualifications)
+      .values({ userId, roleId, level })
+      .returning();
+    return created;
+  }
+  
   // Roster Assignment operations
   async getAllRosterAssignments(): Promise<RosterAssignment[]> {
     try {
@@ -572,22 +1247,21 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  async getRosterAssignmentsForDate(date: Date): Promise<RosterAssignment[]> {
-    const dateStr = date.toISOString().split('T')[0];
-    
+  async getRosterAssignment(id: number): Promise<RosterAssignment | undefined> {
+    const [assignment] = await db.select().from(rosterAssignments).where(eq(rosterAssignments.id, id));
+    return assignment;
+  }
+  
+  async getRosterAssignmentsForService(serviceId: number): Promise<RosterAssignment[]> {
     return db
       .select()
       .from(rosterAssignments)
-      .where(eq(rosterAssignments.serviceDate, dateStr));
+      .where(eq(rosterAssignments.serviceId, serviceId));
   }
   
   async getRosterAssignmentsForMonth(year: number, month: number): Promise<RosterAssignment[]> {
-    // Create date range for the month (adjust for JavaScript's 0-based months)
-    const startDate = new Date(year, month - 1, 1);
-    const endDate = new Date(year, month, 0); // Last day of the month
-    
-    const startDateStr = this.formatDateToString(startDate);
-    const endDateStr = this.formatDateToString(endDate);
+    // Date range for the month
+    const { start: startDateStr, end: endDateStr } = monthBounds(year, month);
     
     // Select assignments within the date range
     return db
@@ -596,6 +1270,27 @@ export class DatabaseStorage implements IStorage {
       .where(sql`${rosterAssignments.serviceDate} >= ${startDateStr} AND ${rosterAssignments.serviceDate} <= ${endDateStr}`);
   }
   
+  async getRosterAssignmentsForUser(userId: number): Promise<RosterAssignment[]> {
+    return db
+      .select()
+      .from(rosterAssignments)
+      .where(eq(rosterAssignments.userId, userId))
+      .orderBy(rosterAssignments.serviceDate);
+  }
+  
+  // Number of assignments per member and role on services before the given date
+  async getAssignmentCountsBefore(date: string): Promise<{ userId: number; roleId: number; count: number }[]> {
+    return db
+      .select({
+        userId: rosterAssignments.userId,
+        roleId: rosterAssignments.roleId,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(rosterAssignments)
+      .where(sql`${rosterAssignments.serviceDate} < ${date}`)
+      .groupBy(rosterAssignments.userId, rosterAssignments.roleId);
+  }
+  
   async getRosterAssignmentsWithUserData(year: number, month: number): Promise<any[]> {
     // Get assignments for the month
     const assignments = await this.getRosterAssignmentsForMonth(year, month);
@@ -616,24 +1311,53 @@ export class DatabaseStorage implements IStorage {
     }));
   }
   
+  // The checks read through the transaction when they guard a change made in one
+  private async assertNotAway(userId: number, serviceDate: string, executor: Pick<typeof db, "select"> = db): Promise<void> {
+    const [away] = await executor
+      .select()
+      .from(timeAway)
+      .where(and(eq(timeAway.userId, userId), lte(timeAway.startDate, serviceDate), gte(timeAway.endDate, serviceDate)));
+    if (away) {
+      throw new RosterRuleError("This member is away on this date");
+    }
+  }
+
+  // A member who limited their answer for the service to some roles can't be given another
+  private async assertOffersRole(userId: number, serviceId: number | null | undefined, serviceDate: string, roleId: number, executor: Pick<typeof db, "select"> = db): Promise<void> {
+    const [answer] = await executor
+      .select()
+      .from(availability)
+      .where(and(
+        eq(availability.userId, userId),
+        serviceId ? eq(availability.serviceId, serviceId) : eq(availability.serviceDate, serviceDate)
+      ));
+    if (answer?.roleIds && !answer.roleIds.includes(roleId)) {
+      throw new RosterRuleError("This member isn't offering this role on this date");
+    }
+  }
+
   async createRosterAssignment(assignment: InsertRosterAssignment): Promise<RosterAssignment> {
     // Format date using our helper function
     const dateStr = this.formatDateToString(assignment.serviceDate);
     
-    // Check if user is already assigned to another role for this date
+    // Check if user is already assigned to another role for this service
     const existingAssignments = await db
       .select()
       .from(rosterAssignments)
       .where(
         and(
-          eq(rosterAssignments.serviceDate, dateStr),
+          assignment.serviceId
+            ? eq(rosterAssignments.serviceId, assignment.serviceId)
+            : eq(rosterAssignments.serviceDate, dateStr),
           eq(rosterAssignments.userId, assignment.userId)
         )
       );
     
     if (existingAssignments.length > 0) {
-      throw new Error("User is already assigned to a role for this date");
+      throw new Error("User is already assigned to a role for this service");
     }
+    await this.assertNotAway(assignment.userId, dateStr);
+    await this.assertOffersRole(assignment.userId, assignment.serviceId, dateStr, assignment.roleId);
     
     // Create the assignment
     const [created] = await db
@@ -657,6 +1381,40 @@ export class DatabaseStorage implements IStorage {
       // Use helper function to format the date
       updateData.serviceDate = this.formatDateToString(updateData.serviceDate);
     }
+
+    // Moving the place to someone else, or to another date, must not double-book them
+    // at the service or land on time away
+    if (updateData.userId !== undefined || updateData.serviceDate || updateData.serviceId !== undefined || updateData.roleId !== undefined) {
+      const existing = await this.getRosterAssignment(id);
+      if (existing) {
+        const userId = updateData.userId ?? existing.userId;
+        const serviceId = updateData.serviceId !== undefined ? updateData.serviceId : existing.serviceId;
+        const serviceDate = updateData.serviceDate ?? existing.serviceDate;
+
+        const [otherAssignment] = await db
+          .select()
+          .from(rosterAssignments)
+          .where(
+            and(
+              serviceId
+                ? eq(rosterAssignments.serviceId, serviceId)
+                : eq(rosterAssignments.serviceDate, serviceDate),
+              eq(rosterAssignments.userId, userId),
+              ne(rosterAssignments.id, id)
+            )
+          );
+        if (otherAssignment) {
+          throw new Error("User is already assigned to a role for this service");
+        }
+        await this.assertNotAway(userId, serviceDate);
+        await this.assertOffersRole(
+          userId,
+          serviceId,
+          serviceDate,
+          updateData.roleId ?? existing.roleId
+        );
+      }
+    }
     
     // Add updatedAt timestamp
     const [updated] = await db
@@ -676,79 +1434,28 @@ export class DatabaseStorage implements IStorage {
     await db.delete(rosterAssignments).where(eq(rosterAssignments.id, id));
   }
   
-  async clearRosterAssignmentsForDate(date: Date): Promise<number> {
-    try {
-      if (!date || isNaN(date.getTime())) {
-        throw new Error(`Invalid date provided: ${date}`);
-      }
-      
-      const dateStr = this.formatDateToString(date);
-      console.log(`Clearing roster assignments for date string: ${dateStr}`);
-      
-      // Get assignments that will be cleared for logging
-      const existingAssignments = await db
-        .select()
-        .from(rosterAssignments)
-        .where(eq(rosterAssignments.serviceDate, dateStr));
-      
-      console.log(`Found ${existingAssignments.length} assignments to clear for ${dateStr}:`, JSON.stringify(existingAssignments));
-      
-      if (existingAssignments.length === 0) {
-        console.log(`No assignments found to delete for ${dateStr}`);
-        return 0; // Return 0 to indicate no records were deleted
-      }
-      
-      // Delete the assignments
-      // Use the node-postgres count feature
-      const result = await db
-        .delete(rosterAssignments)
-        .where(eq(rosterAssignments.serviceDate, dateStr))
-        .returning();
-      
-      console.log(`Deletion completed, affected rows:`, result.length);
-      return result.length; // Return the number of deleted records
-    } catch (error) {
-      console.error(`Error in clearRosterAssignmentsForDate:`, error);
-      throw error; // Re-throw to be handled by the caller
-    }
+  async clearRosterAssignmentsForService(serviceId: number): Promise<number> {
+    const result = await db
+      .delete(rosterAssignments)
+      .where(eq(rosterAssignments.serviceId, serviceId))
+      .returning();
+
+    console.log(`Cleared ${result.length} roster assignments for service ${serviceId}`);
+    return result.length; // Return the number of deleted records
   }
   
   // Roster Builder Helper Methods
-  async getAvailableSundaysWithPeople(year: number, month: number): Promise<any[]> {
+  async getServicesWithPeople(year: number, month: number): Promise<any[]> {
     try {
-      // Create date range for the month (adjust for JavaScript's 0-based months)
-      const startDate = new Date(year, month - 1, 1);
-      const endDate = new Date(year, month, 0); // Last day of the month
-      
-      // Generate all Sundays in the month
-      const sundays: Date[] = [];
-      const currentDate = new Date(startDate);
+      const monthServices = await this.getServicesForMonth(year, month);
       
-      // Move to the first Sunday
-      currentDate.setDate(currentDate.getDate() + (7 - currentDate.getDay()) % 7);
-      
-      // Add all Sundays in the month
-      while (currentDate <= endDate) {
-        sundays.push(new Date(currentDate));
-        currentDate.setDate(currentDate.getDate() + 7);
-      }
-      
-      // Get all availability records for the month
+      // Get all availability records
       const allAvailability = await this.getAvailability();
       
       // Get all users for lookup
       const allUsers = await this.getAllUsers();
       const userMap = new Map(allUsers.map(user => [user.id, user]));
       
-      // Convert dates to strings for easier comparison
-      const sundayStrings = sundays.map(date => this.formatDateToString(date));
-      
-      // Filter availability records for the month's Sundays where isAvailable is true
-      const sundayAvailability = allAvailability.filter(record => {
-        const recordDateStr = this.formatDateToString(record.serviceDate);
-        return sundayStrings.includes(recordDateStr) && record.isAvailable;
-      });
-      
       // Get special days for the month
       const specialDaysInMonth = await this.getSpecialDaysByMonth(year, month);
       const specialDayMap = new Map(
@@ -759,63 +1466,74 @@ export class DatabaseStorage implements IStorage {
       );
       
       // Get existing roster assignments for the month
-      const rosterAssignments = await this.getRosterAssignmentsForMonth(year, month);
-      
-      // Group assignments by date
-      const assignmentsByDate: Record<string, RosterAssignment[]> = {};
-      rosterAssignments.forEach(assignment => {
-        const dateStr = this.formatDateToString(assignment.serviceDate);
-        if (!assignmentsByDate[dateStr]) {
-          assignmentsByDate[dateStr] = [];
-        }
-        assignmentsByDate[dateStr].push(assignment);
-      });
+      const monthAssignments = await this.getRosterAssignmentsForMonth(year, month);
       
       // Get active service roles
       const roles = await this.getActiveServiceRoles();
       
-      // Organize data by Sunday
-      return sundays.map(sunday => {
-        const dateStr = this.formatDateToString(sunday);
+      // Time away overlapping the month
+      const { start, end } = monthBounds(year, month);
+      const monthTimeAway = await this.getTimeAway({ from: start, to: end });
+      
+      // Organize data by service
+      return monthServices.map(service => {
+        const date = fromDateKey(service.serviceDate);
         
-        // Find available people for this Sunday
-        const availablePeople = sundayAvailability
-          .filter(record => {
-            const recordDateStr = this.formatDateToString(record.serviceDate);
-            return recordDateStr === dateStr;
-          })
-          .map(record => {
-            const user = userMap.get(record.userId);
+        // People away on the date can't be rostered, whatever they answered
+        const away = monthTimeAway.filter(entry => entry.startDate <= service.serviceDate && service.serviceDate <= entry.endDate);
+        const awayIds = new Set(away.map(entry => entry.userId));
+        const awayPeople = away
+          .map(entry => {
+            const user = userMap.get(entry.userId);
             return user ? {
               ...user,
-              formattedName: this.formatUserName(user)
+              formattedName: this.formatUserName(user),
+              awayReason: entry.reason
             } : null;
           })
           .filter(user => user !== null);
         
-        // Get assignments for this Sunday
-        const assignments = assignmentsByDate[dateStr] || [];
+        // Find people available for this service
+        const availableRecords = allAvailability
+          .filter(record => record.serviceId === service.id && record.isAvailable && !awayIds.has(record.userId) && userMap.has(record.userId));
+        const availablePeople = availableRecords.map(record => {
+          const user = userMap.get(record.userId)!;
+          return {
+            ...user,
+            formattedName: this.formatUserName(user),
+            isMaybe: record.isMaybe,
+            availabilityNote: record.note,
+            roleIds: record.roleIds
+          };
+        });
         
-        // Get special day info if it exists
-        const specialDay = specialDayMap.get(dateStr);
+        // Who is available for each role, for members who only offered some roles
+        const availableByRole: Record<number, number[]> = {};
+        for (const role of roles) {
+          availableByRole[role.id] = availableRecords
+            .filter(record => !record.roleIds || record.roleIds.includes(role.id))
+            .map(record => record.userId);
+        }
         
         return {
-          date: sunday,
-          dateStr,
-          formattedDate: sunday.toLocaleDateString('en-US', { 
+          service,
+          dateStr: service.serviceDate,
+          formattedDate: date.toLocaleDateString('en-US', { 
             weekday: 'long', 
             year: 'numeric', 
             month: 'long', 
             day: 'numeric' 
           }),
           availablePeople,
-          assignments,
-          specialDay,
+          availableByRole,
+          awayPeople,
+          assignments: monthAssignments.filter(assignment => assignment.serviceId === service.id),
+          specialDay: specialDayMap.get(service.serviceDate),
           roles
         };
       });
     } catch (error) {
-      console.error("Error in getAvailableSundaysWithPeople:", error);
+      console.error("Error in getServicesWithPeople:", error);
       return [];
     }
   }
@@ -835,45 +1553,51 @@ export class DatabaseStorage implements IStorage {
     return finalizedRoster;
   }
   
-  async finalizeRoster(data: InsertFinalizedRoster): Promise<FinalizedRoster> {
-    try {
-      // Check if a record already exists for this year/month
-      const existing = await this.getFinalizedRoster(data.year, data.month);
-      
-      if (existing) {
-        // Update the existing record
-        const [updated] = await db
-          .update(finalizedRosters)
-          .set({
-            ...data,
-            isFinalized: true,
-            finalizedAt: new Date(),
-            finalizedBy: data.createdBy
-          })
-          .where(eq(finalizedRosters.id, existing.id))
-          .returning();
-          
-        return updated;
-      } else {
-        // Create a new record
-        const [created] = await db
-          .insert(finalizedRosters)
-          .values({
-            ...data,
-            isFinalized: true,
-            finalizedAt: new Date(),
-            finalizedBy: data.createdBy
-          })
-          .returning();
-          
-        return created;
+  // Finalizes the month and records its assignments as the next version in one
+  // transaction. Two finalizations at once may pick the same version number; the
+  // second is refused by the unique index and tried again with the next one.
+  async finalizeRoster(
+    data: InsertFinalizedRoster,
+    assignments: PublishedAssignment[]
+  ): Promise<{ finalizedRoster: FinalizedRoster; version: RosterVersion; previous: RosterVersion | null }> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await db.transaction(async (tx) => {
+          const [existing] = await tx
+            .select()
+            .from(finalizedRosters)
+            .where(and(eq(finalizedRosters.year, data.year), eq(finalizedRosters.month, data.month)));
+          const finalized = { ...data, isFinalized: true, finalizedAt: new Date(), finalizedBy: data.createdBy };
+          const [finalizedRoster] = existing
+            ? await tx.update(finalizedRosters).set(finalized).where(eq(finalizedRosters.id, existing.id)).returning()
+            : await tx.insert(finalizedRosters).values(finalized).returning();
+
+          const [previous] = await tx
+            .select()
+            .from(rosterVersions)
+            .where(and(eq(rosterVersions.year, data.year), eq(rosterVersions.month, data.month)))
+            .orderBy(desc(rosterVersions.version))
+            .limit(1);
+          const [version] = await tx
+            .insert(rosterVersions)
+            .values({
+              year: data.year,
+              month: data.month,
+              version: (previous?.version ?? 0) + 1,
+              assignments,
+              createdBy: data.createdBy
+            })
+            .returning();
+          return { finalizedRoster, version, previous: previous ?? null };
+        });
+      } catch (error) {
+        if (isUniqueViolation(error) && attempt < VERSION_ATTEMPTS) continue;
+        console.error("Error in finalizeRoster:", error);
+        throw error;
       }
-    } catch (error) {
-      console.error("Error in finalizeRoster:", error);
-      throw error;
     }
   }
-  
+
   async unfinalizeRoster(year: number, month: number): Promise<void> {
     const existing = await this.getFinalizedRoster(year, month);
     
@@ -891,6 +1615,228 @@ export class DatabaseStorage implements IStorage {
   async getAllFinalizedRosters(): Promise<FinalizedRoster[]> {
     return db.select().from(finalizedRosters);
   }
+  
+  
+  // Roster version operations
+  async getRosterVersions(year: number, month: number): Promise<RosterVersion[]> {
+    return db
+      .select()
+      .from(rosterVersions)
+      .where(and(eq(rosterVersions.year, year), eq(rosterVersions.month, month)))
+      .orderBy(rosterVersions.version);
+  }
+  
+  // Swap request operations
+  async getSwapRequest(id: number): Promise<SwapRequest | undefined> {
+    const [request] = await db.select().from(swapRequests).where(eq(swapRequests.id, id));
+    return request;
+  }
+  
+  async getSwapRequests(filter: { userId?: number; statuses?: SwapRequestStatus[] } = {}): Promise<SwapRequest[]> {
+    const conditions = [];
+    if (filter.userId !== undefined) {
+      conditions.push(or(
+        eq(swapRequests.requesterId, filter.userId),
+        eq(swapRequests.replacementId, filter.userId)
+      ));
+    }
+    if (filter.statuses && filter.statuses.length > 0) {
+      conditions.push(inArray(swapRequests.status, filter.statuses));
+    }
+    
+    return db
+      .select()
+      .from(swapRequests)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(swapRequests.createdAt), desc(swapRequests.id));
+  }
+  
+  async createSwapRequest(request: InsertSwapRequest): Promise<SwapRequest> {
+    const [created] = await db.insert(swapRequests).values(request).returning();
+    return created;
+  }
+  
+  async updateSwapRequest(id: number, fromStatuses: SwapRequestStatus[], request: Partial<InsertSwapRequest>): Promise<SwapRequest | undefined> {
+    const [updated] = await db
+      .update(swapRequests)
+      .set(request)
+      .where(and(eq(swapRequests.id, id), inArray(swapRequests.status, fromStatuses)))
+      .returning();
+    return updated;
+  }
+  
+  async applySwapRequest(id: number, decidedBy: number | null, accepting = false): Promise<{ request: SwapRequest; before: RosterAssignment[]; after: RosterAssignment[] }> {
+    return db.transaction(async (tx) => {
+      // Locked so the same request can't be settled twice at once
+      const [request] = await tx.select().from(swapRequests).where(eq(swapRequests.id, id)).for("update");
+      if (!request) throw new RosterRuleError("Swap request not found");
+      if (accepting && request.status !== "pending") {
+        throw new RosterRuleError("This request has already been answered");
+      }
+      if (!accepting && request.status !== "accepted") {
+        throw new RosterRuleError("Only requests the replacement has accepted can be decided");
+      }
+      
+      // The roster may have been revised since the request was made
+      const [assignment] = await tx.select().from(rosterAssignments).where(eq(rosterAssignments.id, request.assignmentId));
+      if (!assignment || assignment.userId !== request.requesterId) {
+        throw new RosterRuleError("The assignment has changed since this request was made");
+      }
+      
+      let partnerAssignment: RosterAssignment | undefined;
+      if (request.swapAssignmentId !== null) {
+        [partnerAssignment] = await tx.select().from(rosterAssignments).where(eq(rosterAssignments.id, request.swapAssignmentId));
+        if (!partnerAssignment || partnerAssignment.userId !== request.replacementId) {
+          throw new RosterRuleError("The assignment offered in return has changed since this request was made");
+        }
+      }
+      
+      // Nobody may end up with two roles in one service. In a swap each member gives up
+      // one assignment, which may be at the same service as the one they take.
+      const isServing = async (serviceId: number | null, userId: number, except?: number) => {
+        if (serviceId === null) return false;
+        const rows = await tx
+          .select()
+          .from(rosterAssignments)
+          .where(and(eq(rosterAssignments.serviceId, serviceId), eq(rosterAssignments.userId, userId)));
+        return rows.some(row => row.id !== except);
+      };
+      if (await isServing(assignment.serviceId, request.replacementId, partnerAssignment?.id)) {
+        throw new RosterRuleError("The replacement is already serving at this service");
+      }
+      if (partnerAssignment && await isServing(partnerAssignment.serviceId, request.requesterId, assignment.id)) {
+        throw new RosterRuleError("The requester is already serving at the service offered in return");
+      }
+
+      // Whoever takes over an assignment must not be away then, and must offer its role
+      await this.assertNotAway(request.replacementId, assignment.serviceDate, tx);
+      await this.assertOffersRole(request.replacementId, assignment.serviceId, assignment.serviceDate, assignment.roleId, tx);
+      if (partnerAssignment) {
+        await this.assertNotAway(request.requesterId, partnerAssignment.serviceDate, tx);
+        await this.assertOffersRole(request.requesterId, partnerAssignment.serviceId, partnerAssignment.serviceDate, partnerAssignment.roleId, tx);
+      }
+      
+      const now = new Date();
+      const after: RosterAssignment[] = [];
+      const [handedOver] = await tx
+        .update(rosterAssignments)
+        .set({ userId: request.replacementId, updatedAt: now })
+        .where(eq(rosterAssignments.id, assignment.id))
+        .returning();
+      after.push(handedOver);
+      
+      if (partnerAssignment) {
+        const [handedBack] = await tx
+          .update(rosterAssignments)
+          .set({ userId: request.requesterId, updatedAt: now })
+          .where(eq(rosterAssignments.id, partnerAssignment.id))
+          .returning();
+        after.push(handedBack);
+      }
+      
+      const [approved] = await tx
+        .update(swapRequests)
+        .set({ status: "approved", decidedAt: now, decidedBy, ...(accepting ? { respondedAt: now } : {}) })
+        .where(eq(swapRequests.id, id))
+        .returning();
+      
+      return {
+        request: approved,
+        before: partnerAssignment ? [assignment, partnerAssignment] : [assignment],
+        after
+      };
+    });
+  }
+
+  // An attachment sent to many recipients, like the monthly roster, is stored once
+  // and each email refers to it
+  async queueEmails(emails: QueueEmail[]): Promise<OutboxEmail[]> {
+    if (emails.length === 0) return [];
+    return db.transaction(async (tx) => {
+      const stored = new Map<string, number>();
+      const rows = [];
+      for (const { attachments = [], ...email } of emails) {
+        const references: OutboxAttachment[] = [];
+        for (const { filename, content } of attachments) {
+          const key = `${filename}\n${content}`;
+          let attachmentId = stored.get(key);
+          if (attachmentId === undefined) {
+            const [attachment] = await tx
+              .insert(emailAttachments)
+              .values({ filename, content })
+              .returning({ id: emailAttachments.id });
+            attachmentId = attachment.id;
+            stored.set(key, attachmentId);
+          }
+          references.push({ filename, attachmentId });
+        }
+        rows.push({ ...email, attachments: references });
+      }
+      return tx.insert(emailOutbox).values(rows).returning();
+    });
+  }
+
+  async getEmailAttachment(id: number): Promise<EmailAttachment | undefined> {
+    const [attachment] = await db.select().from(emailAttachments).where(eq(emailAttachments.id, id));
+    return attachment;
+  }
+  
+  async getOutboxEmail(id: number): Promise<OutboxEmail | undefined> {
+    const [email] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return email;
+  }
+  
+  async getOutboxEmails(filter: OutboxFilter): Promise<OutboxEmail[]> {
+    return db
+      .select()
+      .from(emailOutbox)
+      .where(filter.status ? eq(emailOutbox.status, filter.status) : undefined)
+      .orderBy(desc(emailOutbox.createdAt), desc(emailOutbox.id))
+      .limit(filter.limit);
+  }
+  
+  async updateOutboxEmail(id: number, data: Partial<Omit<OutboxEmail, "id">>): Promise<OutboxEmail> {
+    const [updated] = await db
+      .update(emailOutbox)
+      .set(data)
+      .where(eq(emailOutbox.id, id))
+      .returning();
+    if (!updated) throw new Error("Email not found");
+    return updated;
+  }
+  
+  async claimDueEmails(limit: number): Promise<OutboxEmail[]> {
+    const due = await db
+      .select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(and(
+        eq(emailOutbox.status, "pending"),
+        lte(emailOutbox.nextAttemptAt, new Date())
+      ))
+      .orderBy(emailOutbox.nextAttemptAt, emailOutbox.id)
+      .limit(limit);
+    if (due.length === 0) return [];
+    
+    // The status check keeps an email from being claimed twice
+    const claimed = await db
+      .update(emailOutbox)
+      .set({ status: "sending" })
+      .where(and(
+        inArray(emailOutbox.id, due.map(row => row.id)),
+        eq(emailOutbox.status, "pending")
+      ))
+      .returning();
+    return claimed.sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime() || a.id - b.id);
+  }
+  
+  async releaseSendingEmails(): Promise<number> {
+    const released = await db
+      .update(emailOutbox)
+      .set({ status: "pending" })
+      .where(eq(emailOutbox.status, "sending"))
+      .returning({ id: emailOutbox.id });
+    return released.length;
+  }
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
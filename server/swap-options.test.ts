@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { RosterAssignment, Service } from "@shared/schema";
+import type { RoleEligibility } from "@shared/qualifications";
+import { findSwapOptions } from "./swap-options";
+import type { RosterSlot } from "./roster-generator";
+
+const SOUND = 1;
+const SLIDES = 2;
+
+const assignment = (id: number, serviceId: number, roleId: number, userId: number) =>
+  ({ id, serviceId, serviceDate: `2025-06-0${serviceId}`, roleId, userId }) as RosterAssignment;
+
+const slot = (serviceId: number, assignments: RosterAssignment[], availableByRole: Record<number, number[]>): RosterSlot => ({
+  service: { id: serviceId, serviceDate: `2025-06-0${serviceId}` } as Service,
+  availablePeople: Array.from(new Set(Object.values(availableByRole).flat())).map(id => ({ id })),
+  availableByRole,
+  assignments,
+  roles: [],
+});
+
+const find = (slots: RosterSlot[], own: RosterAssignment) =>
+  findSwapOptions(slots, own, (): RoleEligibility => "qualified", () => true);
+
+describe("findSwapOptions", () => {
+  it("offers available members who aren't serving as substitutes", () => {
+    const own = assignment(1, 1, SOUND, 10);
+    const busy = assignment(2, 1, SLIDES, 11);
+    const { substituteIds } = find([slot(1, [own, busy], { [SOUND]: [10, 11, 12] })], own);
+    expect(substituteIds).toEqual([12]);
+  });
+
+  it("offers a swap with someone on another service", () => {
+    const own = assignment(1, 1, SOUND, 10);
+    const theirs = assignment(2, 2, SOUND, 11);
+    const { swapAssignments } = find([
+      slot(1, [own], { [SOUND]: [10, 11] }),
+      slot(2, [theirs], { [SOUND]: [10, 11] }),
+    ], own);
+    expect(swapAssignments.map(other => other.id)).toEqual([2]);
+  });
+
+  it("offers a swap of roles between two members at the same service", () => {
+    const own = assignment(1, 1, SOUND, 10);
+    const theirs = assignment(2, 1, SLIDES, 11);
+    const { swapAssignments } = find([slot(1, [own, theirs], { [SOUND]: [10, 11], [SLIDES]: [10, 11] })], own);
+    expect(swapAssignments.map(other => other.id)).toEqual([2]);
+  });
+
+  it("doesn't offer a swap that leaves someone with two roles at one service", () => {
+    const own = assignment(1, 1, SOUND, 10);
+    const theirs = assignment(2, 2, SOUND, 11);
+    const alsoThere = assignment(3, 1, SLIDES, 11);
+    const { swapAssignments } = find([
+      slot(1, [own, alsoThere], { [SOUND]: [10, 11], [SLIDES]: [11] }),
+      slot(2, [theirs], { [SOUND]: [10, 11] }),
+    ], own);
+    expect(swapAssignments).toEqual([]);
+  });
+});
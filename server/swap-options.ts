@@ -0,0 +1,44 @@
+import { RosterAssignment } from "@shared/schema";
+import { RoleEligibility, canAutoAssign } from "@shared/qualifications";
+import { RosterSlot } from "./roster-generator";
+
+// Finds who could take over an assignment. A substitute is available for the
+// service and offered the role, is not already serving in it and is qualified. A swap partner
+// holds an assignment of the month that the requester could take in return, with both
+// members available and qualified for each other's place. Partners may serve in another
+// role at the same service, since each gives up the assignment the other takes.
+export function findSwapOptions(
+  slots: RosterSlot[],
+  assignment: RosterAssignment,
+  eligibility: (userId: number, roleId: number) => RoleEligibility,
+  isUpcoming: (slot: RosterSlot) => boolean
+): { substituteIds: number[]; swapAssignments: RosterAssignment[] } {
+  const ownSlot = slots.find(slot => slot.service.id === assignment.serviceId);
+  if (!ownSlot) return { substituteIds: [], swapAssignments: [] };
+
+  const requesterId = assignment.userId;
+  const isAvailable = (slot: RosterSlot, userId: number, roleId: number) =>
+    (slot.availableByRole[roleId] ?? []).includes(userId);
+  // Whether the member serves at the slot other than in the assignment they give up
+  const isServing = (slot: RosterSlot, userId: number, givenUp?: RosterAssignment) =>
+    slot.assignments.some(a => a.userId === userId && a.id !== givenUp?.id);
+  const canTake = (slot: RosterSlot, userId: number, roleId: number, givenUp?: RosterAssignment) =>
+    isAvailable(slot, userId, roleId) && !isServing(slot, userId, givenUp) && canAutoAssign(eligibility(userId, roleId));
+
+  const substituteIds = ownSlot.availablePeople
+    .map(person => person.id)
+    .filter(userId => canTake(ownSlot, userId, assignment.roleId));
+
+  const swapAssignments = slots
+    .filter(slot => isUpcoming(slot))
+    .flatMap(slot => slot.assignments
+      .filter(other =>
+        other.userId !== requesterId &&
+        !(slot === ownSlot && other.roleId === assignment.roleId) &&
+        canTake(ownSlot, other.userId, assignment.roleId, other) &&
+        canTake(slot, requesterId, other.roleId, assignment)
+      )
+    );
+
+  return { substituteIds, swapAssignments };
+}
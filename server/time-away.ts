@@ -0,0 +1,48 @@
+import { Service, TimeAway, TimeAwayConflict } from "@shared/schema";
+import { parseDateKey } from "@shared/dates";
+import { formatServiceLabel } from "@shared/services";
+import { storage } from "./storage";
+import { getMonthDeadlineStatus } from "./availability-deadlines";
+
+// Marks the member unavailable for the services during new time away. Months that
+// are locked for the member or already have a finalized roster keep their answers.
+// Returns the assignments the member already has during the time away, in any month.
+export async function applyNewTimeAway(entry: TimeAway): Promise<TimeAwayConflict[]> {
+  const inRange = await storage.getServicesBetween(entry.startDate, entry.endDate);
+
+  const byMonth = new Map<string, Service[]>();
+  for (const service of inRange) {
+    const month = service.serviceDate.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), service]);
+  }
+
+  const open: Service[] = [];
+  for (const monthServices of Array.from(byMonth.values())) {
+    const { year, month } = parseDateKey(monthServices[0].serviceDate);
+    const [status, finalized] = await Promise.all([
+      getMonthDeadlineStatus(year, month, entry.userId),
+      storage.getFinalizedRoster(year, month),
+    ]);
+    if ((!status.isLocked || status.hasException) && !finalized?.isFinalized) open.push(...monthServices);
+  }
+  await storage.applyTimeAway(open, [entry.userId]);
+
+  const [assignments, roles] = await Promise.all([
+    storage.getRosterAssignmentsForUser(entry.userId),
+    storage.getAllServiceRoles(),
+  ]);
+  const servicesById = new Map(inRange.map(service => [service.id, service]));
+  const roleNames = new Map(roles.map(role => [role.id, role.name]));
+
+  return assignments
+    .filter(assignment => entry.startDate <= assignment.serviceDate && assignment.serviceDate <= entry.endDate)
+    .map(assignment => {
+      const service = assignment.serviceId !== null ? servicesById.get(assignment.serviceId) : undefined;
+      return {
+        assignmentId: assignment.id,
+        serviceDate: assignment.serviceDate,
+        service: service ? formatServiceLabel(service) : "Service",
+        roleName: roleNames.get(assignment.roleId) ?? "Unknown role",
+      };
+    });
+}
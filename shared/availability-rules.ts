@@ -0,0 +1,24 @@
+import type { AvailabilityRule } from "./schema";
+import { dayOfWeek, parseDateKey } from "./dates";
+
+type RuleFields = Pick<AvailabilityRule, "id" | "kind" | "isAvailable" | "dayOfWeek" | "weeksOfMonth" | "startDate" | "endDate">;
+
+// Whether a rule covers a "yyyy-MM-dd" date. Weeks of the month count the same
+// way as service schedules: days 1-7 are the 1st week, 8-14 the 2nd and so on.
+export function ruleCoversDate(rule: RuleFields, date: string): boolean {
+  if (rule.kind === "dates") {
+    return !!rule.startDate && !!rule.endDate && rule.startDate <= date && date <= rule.endDate;
+  }
+  if (rule.dayOfWeek !== dayOfWeek(date)) return false;
+  const week = Math.ceil(parseDateKey(date).day / 7);
+  return rule.weeksOfMonth.length === 0 || rule.weeksOfMonth.includes(week);
+}
+
+// The answer a member's rules give for a date, or null when none covers it. Date
+// ranges come first, then weekdays marked unavailable, then weekdays marked available.
+export function answerFromRules(rules: RuleFields[], date: string): { isAvailable: boolean; ruleId: number } | null {
+  const rank = (rule: RuleFields) => rule.kind === "dates" ? 0 : rule.isAvailable ? 2 : 1;
+  const [rule] = rules.filter(rule => ruleCoversDate(rule, date)).sort((a, b) => rank(a) - rank(b));
+  if (!rule) return null;
+  return { isAvailable: rule.kind === "dates" ? false : rule.isAvailable, ruleId: rule.id };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { isOwnAnswer, releaseTimeAwayAnswers, respondentIds } from "./availability";
+
+const answer = (userId: number, fields: { ruleId?: number; timeAwayId?: number } = {}) =>
+  ({ userId, ruleId: fields.ruleId ?? null, timeAwayId: fields.timeAwayId ?? null });
+
+describe("isOwnAnswer", () => {
+  it("is true only for answers the member gave", () => {
+    expect(isOwnAnswer(answer(1))).toBe(true);
+    expect(isOwnAnswer(answer(1, { ruleId: 4 }))).toBe(false);
+    expect(isOwnAnswer(answer(1, { timeAwayId: 7 }))).toBe(false);
+  });
+});
+
+describe("respondentIds", () => {
+  it("leaves out members whose answers were all filled in", () => {
+    const ids = respondentIds([
+      answer(1),
+      answer(2, { ruleId: 4 }),
+      answer(3, { timeAwayId: 7 }),
+      answer(3),
+      answer(4, { ruleId: 4 }),
+      answer(4, { timeAwayId: 7 }),
+    ]);
+    expect(Array.from(ids).sort()).toEqual([1, 3]);
+  });
+});
+
+describe("releaseTimeAwayAnswers", () => {
+  const away = (id: number, serviceDate: string) => ({ id, serviceDate });
+
+  it("clears the answers so rules can fill them in again", () => {
+    expect(releaseTimeAwayAnswers([away(1, "2025-06-01"), away(2, "2025-06-08")], []))
+      .toEqual({ clearedIds: [1, 2], moved: [] });
+  });
+
+  it("keeps dates the member's other time away covers", () => {
+    const other = { id: 9, startDate: "2025-06-05", endDate: "2025-06-10" };
+    expect(releaseTimeAwayAnswers([away(1, "2025-06-01"), away(2, "2025-06-08")], [other]))
+      .toEqual({ clearedIds: [1], moved: [{ id: 2, timeAwayId: 9 }] });
+  });
+});
@@ -0,0 +1,47 @@
+import type { Availability, AvailabilityStatus, TimeAway } from "./schema";
+
+export const AVAILABILITY_STATUS_LABELS: Record<AvailabilityStatus, string> = {
+  yes: "Available",
+  maybe: "If needed",
+  no: "Unavailable",
+};
+
+// The answer a saved availability row gives. Maybes are stored as available rows
+// with isMaybe set, so code that only asks "available?" counts them in.
+export function availabilityStatus(answer: Pick<Availability, "isAvailable" | "isMaybe">): AvailabilityStatus {
+  if (!answer.isAvailable) return "no";
+  return answer.isMaybe ? "maybe" : "yes";
+}
+
+// Whether the member gave the answer themselves rather than it being filled in from
+// one of their rules or their time away. Only these count as having responded.
+export function isOwnAnswer(answer: Pick<Availability, "ruleId" | "timeAwayId">): boolean {
+  return answer.ruleId === null && answer.timeAwayId === null;
+}
+
+// Members who answered any of the services themselves
+export function respondentIds(answers: Pick<Availability, "userId" | "ruleId" | "timeAwayId">[]): Set<number> {
+  return new Set(answers.filter(isOwnAnswer).map(answer => answer.userId));
+}
+
+// The columns to save for an answer
+export function statusColumns(status: AvailabilityStatus): Pick<Availability, "isAvailable" | "isMaybe"> {
+  return { isAvailable: status !== "no", isMaybe: status === "maybe" };
+}
+
+// What becomes of the answers filled in from time away that's removed. Dates the
+// member's other time away still covers stay unavailable and move to that entry;
+// the rest are cleared so the member's rules, or the member, can answer again.
+export function releaseTimeAwayAnswers(
+  answers: Pick<Availability, "id" | "serviceDate">[],
+  otherTimeAway: Pick<TimeAway, "id" | "startDate" | "endDate">[],
+): { clearedIds: number[]; moved: { id: number; timeAwayId: number }[] } {
+  const clearedIds: number[] = [];
+  const moved: { id: number; timeAwayId: number }[] = [];
+  for (const answer of answers) {
+    const covering = otherTimeAway.find(entry => entry.startDate <= answer.serviceDate && answer.serviceDate <= entry.endDate);
+    if (covering) moved.push({ id: answer.id, timeAwayId: covering.id });
+    else clearedIds.push(answer.id);
+  }
+  return { clearedIds, moved };
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { addDays, daysBetween, fromDateKey, toDateKey, todayIn, zonedNow, zonedTimeToUtc } from "./dates";
+
+// 2025 daylight saving changes used below:
+//   America/New_York  springs forward 9 March 02:00 -> 03:00, falls back 2 November 02:00 -> 01:00
+//   Australia/Sydney  falls back 6 April 03:00 -> 02:00, springs forward 5 October 02:00 -> 03:00
+
+describe("test environment", () => {
+  it("runs in a timezone with daylight saving", () => {
+    const winter = new Date(2025, 0, 15).getTimezoneOffset();
+    const summer = new Date(2025, 6, 15).getTimezoneOffset();
+    expect(winter).not.toBe(summer);
+  });
+});
+
+describe("toDateKey", () => {
+  it("reads a Date as its local calendar day on the days the clocks change", () => {
+    expect(toDateKey(new Date(2025, 2, 9))).toBe("2025-03-09");
+    expect(toDateKey(new Date(2025, 2, 9, 23, 59))).toBe("2025-03-09");
+    expect(toDateKey(new Date(2025, 10, 2))).toBe("2025-11-02");
+    expect(toDateKey(new Date(2025, 10, 2, 23, 59))).toBe("2025-11-02");
+  });
+
+  it("round-trips every day of the months with a change through fromDateKey", () => {
+    for (const month of ["2025-03", "2025-11"]) {
+      for (let day = 1; day <= 30; day++) {
+        const key = `${month}-${String(day).padStart(2, "0")}`;
+        expect(toDateKey(fromDateKey(key))).toBe(key);
+      }
+    }
+  });
+
+  it("keeps the date of a string whatever time follows it", () => {
+    expect(toDateKey("2025-03-09T02:30:00")).toBe("2025-03-09");
+    expect(toDateKey("2025-11-02T01:30:00.000Z")).toBe("2025-11-02");
+  });
+
+  it("does not move a day when 24 hours are added to local midnight across fall-back", () => {
+    // The naive approach lands on 23:00 the same day; keys are not built that way
+    const naive = new Date(fromDateKey("2025-11-02").getTime() + 24 * 60 * 60 * 1000);
+    expect(toDateKey(naive)).toBe("2025-11-02");
+    expect(addDays("2025-11-02", 1)).toBe("2025-11-03");
+  });
+});
+
+describe("addDays", () => {
+  it("steps over spring-forward", () => {
+    expect(addDays("2025-03-08", 1)).toBe("2025-03-09");
+    expect(addDays("2025-03-09", 1)).toBe("2025-03-10");
+    expect(addDays("2025-03-02", 7)).toBe("2025-03-09");
+    expect(addDays("2025-03-10", -1)).toBe("2025-03-09");
+  });
+
+  it("steps over fall-back", () => {
+    expect(addDays("2025-11-01", 1)).toBe("2025-11-02");
+    expect(addDays("2025-11-02", 1)).toBe("2025-11-03");
+    expect(addDays("2025-10-26", 7)).toBe("2025-11-02");
+    expect(addDays("2025-11-03", -2)).toBe("2025-11-01");
+  });
+
+  it("steps a whole week at a time through both changes", () => {
+    let key = "2025-03-02";
+    for (let week = 0; week < 40; week++) key = addDays(key, 7);
+    expect(key).toBe("2025-12-07");
+  });
+});
+
+describe("daysBetween", () => {
+  it("counts whole days across spring-forward", () => {
+    expect(daysBetween("2025-03-08", "2025-03-10")).toBe(2);
+    expect(daysBetween("2025-03-01", "2025-04-01")).toBe(31);
+    expect(daysBetween("2025-03-10", "2025-03-08")).toBe(-2);
+  });
+
+  it("counts whole days across fall-back", () => {
+    expect(daysBetween("2025-11-01", "2025-11-03")).toBe(2);
+    expect(daysBetween("2025-10-31", "2025-11-30")).toBe(30);
+    expect(daysBetween("2025-11-03", "2025-11-01")).toBe(-2);
+  });
+
+  it("agrees with addDays over the whole year", () => {
+    expect(daysBetween("2025-01-01", addDays("2025-01-01", 364))).toBe(364);
+  });
+});
+
+describe("zonedNow and todayIn", () => {
+  const at = (iso: string) => new Date(iso);
+
+  describe("America/New_York", () => {
+    const zone = "America/New_York";
+
+    it("skips the missing hour at spring-forward", () => {
+      expect(zonedNow(zone, at("2025-03-09T06:59:00Z"))).toEqual({ date: "2025-03-09", hour: 1 });
+      expect(zonedNow(zone, at("2025-03-09T07:00:00Z"))).toEqual({ date: "2025-03-09", hour: 3 });
+    });
+
+    it("repeats the hour at fall-back on the same date", () => {
+      expect(zonedNow(zone, at("2025-11-02T05:30:00Z"))).toEqual({ date: "2025-11-02", hour: 1 });
+      expect(zonedNow(zone, at("2025-11-02T06:30:00Z"))).toEqual({ date: "2025-11-02", hour: 1 });
+    });
+
+    it("changes date at local midnight either side of a change", () => {
+      expect(todayIn(zone, at("2025-03-09T04:59:00Z"))).toBe("2025-03-08");
+      expect(todayIn(zone, at("2025-03-09T05:00:00Z"))).toBe("2025-03-09");
+      expect(todayIn(zone, at("2025-03-10T03:59:00Z"))).toBe("2025-03-09");
+      expect(todayIn(zone, at("2025-03-10T04:00:00Z"))).toBe("2025-03-10");
+      expect(todayIn(zone, at("2025-11-03T04:59:00Z"))).toBe("2025-11-02");
+      expect(todayIn(zone, at("2025-11-03T05:00:00Z"))).toBe("2025-11-03");
+    });
+  });
+
+  describe("Australia/Sydney", () => {
+    const zone = "Australia/Sydney";
+
+    it("skips the missing hour at spring-forward", () => {
+      expect(zonedNow(zone, at("2025-10-04T15:59:00Z"))).toEqual({ date: "2025-10-05", hour: 1 });
+      expect(zonedNow(zone, at("2025-10-04T16:00:00Z"))).toEqual({ date: "2025-10-05", hour: 3 });
+    });
+
+    it("repeats the hour at fall-back on the same date", () => {
+      expect(zonedNow(zone, at("2025-04-05T15:30:00Z"))).toEqual({ date: "2025-04-06", hour: 2 });
+      expect(zonedNow(zone, at("2025-04-05T16:30:00Z"))).toEqual({ date: "2025-04-06", hour: 2 });
+    });
+
+    it("changes date at local midnight either side of a change", () => {
+      expect(todayIn(zone, at("2025-10-04T13:59:00Z"))).toBe("2025-10-04");
+      expect(todayIn(zone, at("2025-10-04T14:00:00Z"))).toBe("2025-10-05");
+      expect(todayIn(zone, at("2025-10-05T12:59:00Z"))).toBe("2025-10-05");
+      expect(todayIn(zone, at("2025-10-05T13:00:00Z"))).toBe("2025-10-06");
+      expect(todayIn(zone, at("2025-04-06T13:59:00Z"))).toBe("2025-04-06");
+      expect(todayIn(zone, at("2025-04-06T14:00:00Z"))).toBe("2025-04-07");
+    });
+  });
+});
+
+describe("zonedTimeToUtc", () => {
+  const utc = (date: string, time: string, zone: string) => zonedTimeToUtc(date, time, zone).toISOString();
+
+  it("uses the offset in force on the day in New York", () => {
+    expect(utc("2025-03-08", "10:00", "America/New_York")).toBe("2025-03-08T15:00:00.000Z");
+    expect(utc("2025-03-09", "10:00", "America/New_York")).toBe("2025-03-09T14:00:00.000Z");
+    expect(utc("2025-11-01", "10:00", "America/New_York")).toBe("2025-11-01T14:00:00.000Z");
+    expect(utc("2025-11-02", "10:00", "America/New_York")).toBe("2025-11-02T15:00:00.000Z");
+  });
+
+  it("uses the offset in force on the day in Sydney", () => {
+    expect(utc("2025-04-05", "09:30", "Australia/Sydney")).toBe("2025-04-04T22:30:00.000Z");
+    expect(utc("2025-04-06", "09:30", "Australia/Sydney")).toBe("2025-04-05T23:30:00.000Z");
+    expect(utc("2025-10-05", "09:30", "Australia/Sydney")).toBe("2025-10-04T22:30:00.000Z");
+  });
+
+  it("moves a skipped time past the change and takes the first of a repeated time", () => {
+    expect(utc("2025-03-09", "02:30", "America/New_York")).toBe("2025-03-09T07:30:00.000Z");
+    expect(utc("2025-11-02", "01:30", "America/New_York")).toBe("2025-11-02T05:30:00.000Z");
+  });
+
+  it("crosses midnight UTC", () => {
+    expect(utc("2025-06-01", "23:00", "America/New_York")).toBe("2025-06-02T03:00:00.000Z");
+  });
+});
@@ -0,0 +1,143 @@
+// Service dates, special days and deadlines are calendar days with no time of day,
+// kept as "yyyy-MM-dd" keys from the database to the browser. Arithmetic on keys
+// is done in UTC, where every day is 24 hours long, so neither the host's
+// timezone nor a daylight saving change can move a date to the day before or after.
+// "Today" is always the date at the church, from the timezone in settings.
+
+export type DateKey = string;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export function isDateKey(value: string): boolean {
+  const match = DATE_KEY_PATTERN.exec(value);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month);
+}
+
+export function dateKey(year: number, month: number, day: number): DateKey {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+export function parseDateKey(key: DateKey): { year: number; month: number; day: number } {
+  const match = DATE_KEY_PATTERN.exec(key);
+  if (!match) throw new Error(`Invalid date: ${key}`);
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+// The key for a date value. A Date is read as the calendar day it falls on where
+// the code is running, which is what date pickers and date-fns produce; strings
+// may be keys already or carry a time after the date, which is dropped.
+export function toDateKey(value: Date | string): DateKey {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) throw new Error("Invalid date");
+    return dateKey(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+  const key = value.slice(0, 10);
+  if (!isDateKey(key)) throw new Error(`Invalid date: ${value}`);
+  return key;
+}
+
+// Local midnight on the key's day, for display with date-fns
+export function fromDateKey(key: DateKey): Date {
+  const { year, month, day } = parseDateKey(key);
+  return new Date(year, month - 1, day);
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// First and last day of a month, for range queries
+export function monthBounds(year: number, month: number): { start: DateKey; end: DateKey } {
+  return { start: dateKey(year, month, 1), end: dateKey(year, month, daysInMonth(year, month)) };
+}
+
+// Year and month `offset` months after the given one
+export function shiftMonth(year: number, month: number, offset: number): { year: number; month: number } {
+  const index = year * 12 + (month - 1) + offset;
+  return { year: Math.floor(index / 12), month: (index % 12 + 12) % 12 + 1 };
+}
+
+// 0 for Sunday through 6 for Saturday
+export function dayOfWeek(key: DateKey): number {
+  const { year, month, day } = parseDateKey(key);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+export function addDays(key: DateKey, days: number): DateKey {
+  const { year, month, day } = parseDateKey(key);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return dateKey(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+}
+
+// Whole days from `from` to `to`; negative when `to` is earlier
+export function daysBetween(from: DateKey, to: DateKey): number {
+  const a = parseDateKey(from);
+  const b = parseDateKey(to);
+  return Math.round((Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / DAY_MS);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The calendar date and hour at `now` in an IANA timezone such as "Australia/Sydney"
+export function zonedNow(timeZone: string, now: Date = new Date()): { date: DateKey; hour: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return { date: dateKey(part("year"), part("month"), part("day")), hour: part("hour") };
+}
+
+// Today's date at the church
+export function todayIn(timeZone: string, now: Date = new Date()): DateKey {
+  return zonedNow(timeZone, now).date;
+}
+
+// Milliseconds the timezone's clocks are ahead of UTC at an instant
+function zoneOffset(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const wall = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+// The instant a "yyyy-MM-dd" date and "HH:mm" time happen in an IANA timezone. A time
+// the clocks skip is read with the offset from before the change, so 02:30 on a
+// spring-forward day at 02:00 is 03:30; a time that happens twice is the first one.
+export function zonedTimeToUtc(date: DateKey, time: string, timeZone: string): Date {
+  const { year, month, day } = parseDateKey(date);
+  const [hours, minutes] = time.split(":").map(Number);
+  const wall = Date.UTC(year, month - 1, day, hours, minutes);
+
+  const before = zoneOffset(timeZone, wall - DAY_MS);
+  const after = zoneOffset(timeZone, wall + DAY_MS);
+  for (const offset of [before, after]) {
+    if (zoneOffset(timeZone, wall - offset) === offset) return new Date(wall - offset);
+  }
+  return new Date(wall - before);
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { getDeadlineStatus } from "./deadlines";
+import { todayIn } from "./dates";
+
+describe("getDeadlineStatus", () => {
+  // March 2025 with its deadline on the day New York springs forward
+  const march = (today: string) => getDeadlineStatus({ year: 2025, month: 3, deadlineDay: 9, today });
+  // November 2025 with its deadline on the day New York falls back
+  const november = (today: string) => getDeadlineStatus({ year: 2025, month: 11, deadlineDay: 2, today });
+
+  it("counts down to a deadline on the spring-forward day", () => {
+    expect(march("2025-03-01")).toMatchObject({ deadline: "2025-03-09", daysLeft: 8, isLocked: false });
+    expect(march("2025-03-08")).toMatchObject({ daysLeft: 1, isLocked: false });
+    expect(march("2025-03-09")).toMatchObject({ daysLeft: 0, isLocked: false });
+    expect(march("2025-03-10")).toMatchObject({ daysLeft: -1, isLocked: true });
+  });
+
+  it("counts down to a deadline on the fall-back day", () => {
+    expect(november("2025-10-26")).toMatchObject({ deadline: "2025-11-02", daysLeft: 7, isLocked: false });
+    expect(november("2025-11-02")).toMatchObject({ daysLeft: 0, isLocked: false });
+    expect(november("2025-11-03")).toMatchObject({ daysLeft: -1, isLocked: true });
+  });
+
+  it("locks at midnight at the church, not midnight UTC", () => {
+    const zone = "America/New_York";
+    const status = (iso: string) => november(todayIn(zone, new Date(iso)));
+
+    // 23:59 on the deadline day in New York, already 3 November in UTC
+    expect(status("2025-11-03T04:59:00Z").isLocked).toBe(false);
+    expect(status("2025-11-03T05:00:00Z").isLocked).toBe(true);
+  });
+
+  it("locks at midnight in a southern-hemisphere zone across its own changes", () => {
+    const zone = "Australia/Sydney";
+    const october = (iso: string) =>
+      getDeadlineStatus({ year: 2025, month: 10, deadlineDay: 5, today: todayIn(zone, new Date(iso)) });
+
+    // Sydney springs forward on 5 October 2025; the day still ends at local midnight
+    expect(october("2025-10-05T12:59:00Z")).toMatchObject({ daysLeft: 0, isLocked: false });
+    expect(october("2025-10-05T13:00:00Z")).toMatchObject({ daysLeft: -1, isLocked: true });
+  });
+
+  it("uses an override deadline across a change", () => {
+    const status = getDeadlineStatus({
+      year: 2025,
+      month: 11,
+      deadlineDay: 20,
+      override: { deadline: "2025-11-03", lockState: "auto" },
+      today: "2025-10-31",
+    });
+    expect(status).toMatchObject({ deadline: "2025-11-03", defaultDeadline: "2025-11-20", daysLeft: 3, isOverridden: true });
+  });
+});
@@ -0,0 +1,44 @@
+import type { AvailabilityDeadline, DeadlineStatus } from "./schema";
+import { dateKey, daysBetween, daysInMonth } from "./dates";
+
+// The month's deadline from the global deadline day; a day past the end of a
+// short month means its last day
+export function defaultDeadline(year: number, month: number, deadlineDay: number): string {
+  return dateKey(year, month, Math.min(deadlineDay, daysInMonth(year, month)));
+}
+
+// Combines the global deadline day with any override for the month. Changes are
+// accepted up to and including the deadline; a locked month is locked straight
+// away and a reopened month stays open until its lock state is changed back.
+export function getDeadlineStatus({
+  year,
+  month,
+  deadlineDay,
+  override,
+  hasException = false,
+  today,
+}: {
+  year: number;
+  month: number;
+  deadlineDay: number;
+  override?: Pick<AvailabilityDeadline, "deadline" | "lockState"> | null;
+  hasException?: boolean;
+  today: string; // "yyyy-MM-dd" at the church
+}): DeadlineStatus {
+  const fallback = defaultDeadline(year, month, deadlineDay);
+  const deadline = override?.deadline ?? fallback;
+  const lockState = (override?.lockState ?? "auto") as DeadlineStatus["lockState"];
+  const isLocked = lockState === "locked" || (lockState === "auto" && today > deadline);
+
+  return {
+    year,
+    month,
+    deadline,
+    defaultDeadline: fallback,
+    isOverridden: !!override?.deadline,
+    lockState,
+    isLocked,
+    daysLeft: daysBetween(today, deadline),
+    hasException: isLocked && hasException,
+  };
+}
@@ -0,0 +1,109 @@
+// Capabilities checked by requirePermission on the server and used to gate the UI.
+// Admins (users.isAdmin) implicitly hold every permission.
+export const PERMISSIONS = [
+  "members.view",
+  "members.manage",
+  "roles.manage",
+  "settings.manage",
+  "special_days.manage",
+  "services.manage",
+  "verses.manage",
+  "service_roles.manage",
+  "availability.manage",
+  "roster.view",
+  "roster.edit",
+  "roster.finalize",
+  "email.send",
+  "audit.view",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Roles that can be granted to a member in addition to isAdmin
+export const MEMBER_ROLES = ["coordinator", "team_lead", "viewer"] as const;
+
+export type MemberRoleName = typeof MEMBER_ROLES[number];
+
+export const MEMBER_ROLE_LABELS: Record<MemberRoleName, string> = {
+  coordinator: "Coordinator",
+  team_lead: "Team Lead",
+  viewer: "Viewer",
+};
+
+export const ROLE_PERMISSIONS: Record<MemberRoleName, Permission[]> = {
+  // Runs the roster and special days but cannot remove members or change settings
+  coordinator: [
+    "members.view",
+    "special_days.manage",
+    "services.manage",
+    "availability.manage",
+    "roster.view",
+    "roster.edit",
+    "roster.finalize",
+    "email.send",
+  ],
+  // Builds the roster only for the service roles they lead
+  team_lead: ["roster.view", "roster.edit"],
+  // Read-only access to the roster builder
+  viewer: ["roster.view"],
+};
+
+// What the signed-in user may do; returned by GET /api/user/access
+export type AccessSummary = {
+  isAdmin: boolean;
+  roles: MemberRoleName[];
+  permissions: Permission[];
+  // Service roles the user may roster; null means every role
+  serviceRoleIds: number[] | null;
+};
+
+export function buildAccessSummary(
+  isAdmin: boolean,
+  grants: { role: string; serviceRoleId: number | null }[]
+): AccessSummary {
+  const roles = Array.from(new Set(
+    grants
+      .map(grant => grant.role)
+      .filter((role): role is MemberRoleName => (MEMBER_ROLES as readonly string[]).includes(role))
+  ));
+
+  const permissions = isAdmin
+    ? [...PERMISSIONS]
+    : Array.from(new Set(roles.flatMap(role => ROLE_PERMISSIONS[role])));
+
+  // Only a user whose sole editing role is team lead is restricted to specific service roles
+  const scoped = !isAdmin && !roles.includes("coordinator") && roles.includes("team_lead");
+  const serviceRoleIds = scoped
+    ? grants
+        .filter(grant => grant.role === "team_lead" && grant.serviceRoleId !== null)
+        .map(grant => grant.serviceRoleId as number)
+    : null;
+
+  return { isAdmin, roles, permissions, serviceRoleIds };
+}
+
+export function hasPermission(access: AccessSummary | null | undefined, permission: Permission): boolean {
+  return !!access && access.permissions.includes(permission);
+}
+
+// Whether the user may assign people to the given service role
+export function canRosterServiceRole(access: AccessSummary | null | undefined, serviceRoleId: number): boolean {
+  if (!hasPermission(access, "roster.edit")) return false;
+  return access!.serviceRoleIds === null || access!.serviceRoleIds.includes(serviceRoleId);
+}
+
+// Permissions that give access to at least one part of the admin panel
+const ADMIN_PANEL_PERMISSIONS: Permission[] = [
+  "members.view",
+  "settings.manage",
+  "special_days.manage",
+  "services.manage",
+  "service_roles.manage",
+  "roster.view",
+  "email.send",
+  "audit.view",
+];
+
+export function canOpenAdminPanel(access: AccessSummary | null | undefined): boolean {
+  return ADMIN_PANEL_PERMISSIONS.some(permission => hasPermission(access, permission));
+}
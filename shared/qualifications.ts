@@ -0,0 +1,33 @@
+import type { MemberQualification, QualificationLevel } from "./schema";
+
+export const QUALIFICATION_LEVEL_LABELS: Record<QualificationLevel, string> = {
+  qualified: "Qualified",
+  training: "In training",
+  preferred: "Preferred",
+};
+
+// How a member stands for a role: their recorded level, "open" when the role has
+// no qualifications recorded for anyone, or "unqualified"
+export type RoleEligibility = QualificationLevel | "open" | "unqualified";
+
+// Looks up eligibility for any member and role from one set of qualification rows
+export function createEligibilityLookup(
+  qualifications: Pick<MemberQualification, "userId" | "roleId" | "level">[]
+): (userId: number, roleId: number) => RoleEligibility {
+  const levels = new Map<string, QualificationLevel>();
+  const restrictedRoles = new Set<number>();
+  for (const { userId, roleId, level } of qualifications) {
+    levels.set(`${userId}:${roleId}`, level as QualificationLevel);
+    restrictedRoles.add(roleId);
+  }
+
+  return (userId, roleId) => {
+    if (!restrictedRoles.has(roleId)) return "open";
+    return levels.get(`${userId}:${roleId}`) ?? "unqualified";
+  };
+}
+
+// Whether the auto-scheduler may pick a member for a role; trainees are only rostered by hand
+export function canAutoAssign(eligibility: RoleEligibility): boolean {
+  return eligibility === "open" || eligibility === "qualified" || eligibility === "preferred";
+}
@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, date, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, date, timestamp, json, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isDateKey, isValidTimeZone } from "./dates";
 
 export const verses = pgTable("verses", {
   id: serial("id").primaryKey(),
@@ -17,20 +18,155 @@ export const users = pgTable("users", {
   pin: text("pin").notNull(),
   isAdmin: boolean("is_admin").default(false).notNull(),
   firstLogin: boolean("first_login").default(true).notNull(),
+  failedPinAttempts: integer("failed_pin_attempts").default(0).notNull(), // Consecutive failed logins, reset on success
+  lastFailedLoginAt: timestamp("last_failed_login_at"),
+  lockedUntil: timestamp("locked_until"), // Login is refused until this time
+  pinExpiresAt: timestamp("pin_expires_at"), // Set while the PIN is an admin-issued temporary PIN
+  pinResetAt: timestamp("pin_reset_at"),
+  pinResetBy: integer("pin_reset_by"), // Admin user ID who last reset the PIN
+  calendarToken: text("calendar_token").unique(), // Secret in the member's calendar feed URLs; NULL until first requested
+  email: text("email"),
+  phone: text("phone"),
+  notifyRosterEmails: boolean("notify_roster_emails").default(true).notNull(), // Email the member the roster and their assignments when a month is finalized
+  notifyAvailabilityReminders: boolean("notify_availability_reminders").default(true).notNull(), // Email the member before the availability deadline if they haven't responded
 });
 
-export const availability = pgTable("availability", {
+// Roles granted to members beyond isAdmin; see shared/permissions.ts for their capabilities
+export const memberRoles = pgTable("member_roles", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
+  role: text("role").notNull(), // 'coordinator' | 'team_lead' | 'viewer'
+  serviceRoleId: integer("service_role_id"), // For team leads: the service role they may roster
+});
+
+// Log of every login attempt, used for per-IP throttling and admin review
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id"), // NULL when the submitted id matched no user
+  ipAddress: text("ip_address").notNull(),
+  outcome: text("outcome").notNull(), // 'success' | 'invalid_pin' | 'unknown_user' | 'locked' | 'throttled' | 'expired_pin'
+  attemptedAt: timestamp("attempted_at").defaultNow().notNull(),
+});
+
+// Append-only record of administrative and roster changes
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"), // User who made the change
+  action: text("action").notNull(), // 'create' | 'update' | 'delete' | 'finalize' | 'unfinalize' | ...
+  entityType: text("entity_type").notNull(), // 'roster_assignment' | 'finalized_roster' | 'settings' | 'member' | 'verse' | 'special_day' | 'service_role' | 'service' | 'service_schedule' | 'member_qualification' | 'swap_request' | 'email' | 'availability_deadline' | 'time_away'
+  entityId: text("entity_id"), // Row id, or a natural key such as "2025-04" for a roster month
+  before: json("before"), // Entity state before the change (NULL for creates)
+  after: json("after"), // Entity state after the change (NULL for deletes)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A single service occurrence; one date can have several (e.g. 8am and 10am)
+export const services = pgTable("services", {
+  id: serial("id").primaryKey(),
   serviceDate: date("service_date").notNull(),
+  startTime: text("start_time").notNull(), // 24-hour "HH:mm"
+  name: text("name").notNull(),
+  location: text("location"),
+}, (table) => [
+  // One occurrence per date, time and name, so generating a month twice adds nothing
+  uniqueIndex("services_occurrence_idx").on(table.serviceDate, table.startTime, table.name),
+]);
+
+// Recurring pattern that a month's services are generated from, e.g. "2nd and 4th Wednesday at 19:00"
+export const serviceSchedules = pgTable("service_schedules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday ... 6 = Saturday
+  weeksOfMonth: integer("weeks_of_month").array().notNull().default([]), // 1-5 for 1st-5th; empty means every week
+  startTime: text("start_time").notNull(), // 24-hour "HH:mm"
+  location: text("location"),
+  isActive: boolean("is_active").default(true).notNull(),
+});
+
+export const availability = pgTable("availability", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  serviceId: integer("service_id"), // NULL only for rows saved before services existed
+  serviceDate: date("service_date").notNull(), // Copied from the service for month lookups
   isAvailable: boolean("is_available").default(false).notNull(),
+  isMaybe: boolean("is_maybe").default(false).notNull(), // Available only if needed; only set alongside isAvailable
+  note: text("note"), // The member's note for the date, e.g. "Can arrive late"
+  roleIds: integer("role_ids").array(), // Service roles the member offers for the date; NULL means any role
+  ruleId: integer("rule_id"), // Set when the answer was filled in from one of the member's availability rules
+  timeAwayId: integer("time_away_id"), // Set when the answer was filled in from the member's time away
   lastUpdated: timestamp("last_updated").defaultNow().notNull(),
+}, (table) => [
+  // One answer per member and service
+  uniqueIndex("availability_user_service_idx").on(table.userId, table.serviceId),
+]);
+
+// A member's standing availability, used to answer for services in newly opened
+// months. Answers the member gives themselves always take precedence.
+export const availabilityRules = pgTable("availability_rules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  kind: text("kind").notNull(), // 'weekday' (a weekday, optionally only some weeks of the month) | 'dates' (a date range)
+  isAvailable: boolean("is_available").notNull(), // 'dates' rules are always false
+  dayOfWeek: integer("day_of_week"), // 'weekday' only; 0 = Sunday ... 6 = Saturday
+  weeksOfMonth: integer("weeks_of_month").array().notNull().default([]), // 'weekday' only; 1-5 for 1st-5th, empty means every week
+  startDate: date("start_date"), // 'dates' only, inclusive
+  endDate: date("end_date"), // 'dates' only, inclusive
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Dates a member is away. Every service in the range is answered unavailable and
+// the member can't be rostered on it.
+export const timeAway = pgTable("time_away", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  startDate: date("start_date").notNull(), // Inclusive
+  endDate: date("end_date").notNull(), // Inclusive
+  reason: text("reason"),
+  createdBy: integer("created_by"), // The member, or whoever entered it on their behalf
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const settings = pgTable("settings", {
   id: serial("id").primaryKey(),
   deadlineDay: integer("deadline_day").default(20).notNull(), // Day of month (1-31) when availability updates are locked
   nameFormat: text("name_format").default("full").notNull(), // 'full' | 'first' | 'last' | 'initials'
+  tempPinExpiryHours: integer("temp_pin_expiry_hours").default(72).notNull(), // How long an admin-issued temporary PIN stays valid
+  swapApprovalRequired: boolean("swap_approval_required").default(true).notNull(), // Whether accepted swap requests wait for a coordinator before the roster changes
+  reminderDaysBefore: integer("reminder_days_before").default(7).notNull(), // First availability reminder, in days before the deadline; 0 turns it off
+  finalReminderDaysBefore: integer("final_reminder_days_before").default(1).notNull(), // Second nudge, in days before the deadline; 0 turns it off
+  timeZone: text("time_zone").default("UTC").notNull(), // IANA timezone of the church; decides what "today" is for deadlines and reminders
+});
+
+// Per-month changes to when availability locks; months without a row use settings.deadlineDay
+export const availabilityDeadlines = pgTable("availability_deadlines", {
+  id: serial("id").primaryKey(),
+  year: integer("year").notNull(),
+  month: integer("month").notNull(), // 1-12
+  deadline: date("deadline"), // Last day members can change their availability; NULL uses the default deadline day
+  lockState: text("lock_state").default("auto").notNull(), // 'auto' (locks after the deadline) | 'locked' (locked now) | 'open' (reopened, never locks)
+  updatedBy: integer("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Members who may still change their availability for a month after it locks
+export const availabilityExceptions = pgTable("availability_exceptions", {
+  id: serial("id").primaryKey(),
+  year: integer("year").notNull(),
+  month: integer("month").notNull(), // 1-12
+  userId: integer("user_id").notNull(),
+  grantedBy: integer("granted_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Availability reminders already emailed, so each member gets each one only once
+export const availabilityReminders = pgTable("availability_reminders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  year: integer("year").notNull(), // Month the reminder asked about
+  month: integer("month").notNull(), // 1-12
+  kind: text("kind").notNull(), // 'first' | 'final', or 'manual' when sent from the response dashboard
+  outboxId: integer("outbox_id"), // The queued email
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
 });
 
 export const specialDays = pgTable("special_days", {
@@ -39,6 +175,8 @@ export const specialDays = pgTable("special_days", {
   name: text("name").notNull(),
   description: text("description"),
   color: text("color").default("#FFD700").notNull(), // Default to gold color
+  serviceEffect: text("service_effect").default("none").notNull(), // 'none' | 'cancel' (no scheduled services) | 'add' (extra service)
+  serviceStartTime: text("service_start_time"), // 24-hour "HH:mm" of the added service when serviceEffect is 'add'
 });
 
 // Define service roles
@@ -51,10 +189,19 @@ export const serviceRoles = pgTable("service_roles", {
   maxLimit: integer("max_limit").default(1), // Maximum number of people allowed for this role (null means unlimited)
 });
 
+// Which service roles a member can serve in; a role nobody has an entry for is open to everyone
+export const memberQualifications = pgTable("member_qualifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  roleId: integer("role_id").notNull(),
+  level: text("level").notNull(), // 'qualified' | 'training' | 'preferred'
+});
+
 // Store roster assignments
 export const rosterAssignments = pgTable("roster_assignments", {
   id: serial("id").primaryKey(),
-  serviceDate: date("service_date").notNull(),
+  serviceId: integer("service_id"), // NULL only for rows saved before services existed
+  serviceDate: date("service_date").notNull(), // Copied from the service for month lookups
   roleId: integer("role_id").notNull(),
   userId: integer("user_id").notNull(),
   notes: text("notes"), // Optional notes for this assignment
@@ -62,6 +209,50 @@ export const rosterAssignments = pgTable("roster_assignments", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// A rostered member asking someone else to take one of their assignments in a finalized month.
+// Rows are kept after they are settled as the history of changes to the published roster.
+export const swapRequests = pgTable("swap_requests", {
+  id: serial("id").primaryKey(),
+  assignmentId: integer("assignment_id").notNull(), // The requester's assignment being handed over
+  serviceId: integer("service_id").notNull(), // Copied from the assignment when the request is made
+  roleId: integer("role_id").notNull(), // Copied from the assignment when the request is made
+  requesterId: integer("requester_id").notNull(),
+  replacementId: integer("replacement_id").notNull(), // Member asked to take the assignment
+  swapAssignmentId: integer("swap_assignment_id"), // For a swap, the replacement's assignment the requester takes in return; NULL for a substitute
+  status: text("status").default("pending").notNull(), // 'pending' | 'accepted' | 'approved' | 'declined' | 'rejected' | 'cancelled'
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  respondedAt: timestamp("responded_at"), // When the replacement accepted or declined
+  decidedAt: timestamp("decided_at"), // When the request was approved, rejected or cancelled
+  decidedBy: integer("decided_by"), // Coordinator who approved or rejected; NULL when approval was not required
+});
+
+// Outgoing email, delivered by the outbox worker in server/outbox.ts
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  category: text("category").notNull(), // What the email is for, e.g. 'roster'
+  toAddress: text("to_address").notNull(),
+  toName: text("to_name"),
+  subject: text("subject").notNull(),
+  text: text("text").notNull(),
+  attachments: json("attachments").$type<OutboxAttachment[]>().default([]).notNull(),
+  status: text("status").default("pending").notNull(), // 'pending' | 'sending' | 'sent' | 'failed'
+  attempts: integer("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(), // When a pending email is next tried
+  lastError: text("last_error"),
+  createdBy: integer("created_by"), // Admin who queued it; NULL for scheduled emails
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+});
+
+// Attachment contents, stored once however many outbox emails carry them
+export const emailAttachments = pgTable("email_attachments", {
+  id: serial("id").primaryKey(),
+  filename: text("filename").notNull(),
+  content: text("content").notNull(), // Base64
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Store information about finalized roster months
 export const finalizedRosters = pgTable("finalized_rosters", {
   id: serial("id").primaryKey(),
@@ -74,8 +265,127 @@ export const finalizedRosters = pgTable("finalized_rosters", {
   finalizedBy: integer("finalized_by"), // User ID who finalized
 });
 
+// Snapshot of a month's assignments taken each time it is finalized
+export const rosterVersions = pgTable("roster_versions", {
+  id: serial("id").primaryKey(),
+  year: integer("year").notNull(),
+  month: integer("month").notNull(), // 1-12
+  version: integer("version").notNull(), // 1 for the first finalization of the month, then counting up
+  assignments: json("assignments").$type<PublishedAssignment[]>().notNull(),
+  createdBy: integer("created_by").notNull(), // User who finalized
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("roster_versions_month_version_idx").on(table.year, table.month, table.version),
+]);
+
 export const insertUserSchema = createInsertSchema(users).omit({ 
-  id: true 
+  id: true,
+  failedPinAttempts: true,
+  lastFailedLoginAt: true,
+  lockedUntil: true,
+  pinExpiresAt: true,
+  pinResetAt: true,
+  pinResetBy: true,
+  calendarToken: true
+});
+
+export const insertMemberRoleSchema = createInsertSchema(memberRoles).omit({
+  id: true
+});
+
+export const updateMemberRolesSchema = z.object({
+  roles: z.array(z.object({
+    role: z.enum(["coordinator", "team_lead", "viewer"]),
+    serviceRoleId: z.number().int().nullable().optional(),
+  })),
+});
+
+export const qualificationLevelSchema = z.enum(["qualified", "training", "preferred"]);
+
+// A null level removes the member's qualification for the role
+export const setMemberQualificationSchema = z.object({
+  userId: z.number().int(),
+  roleId: z.number().int(),
+  level: qualificationLevelSchema.nullable(),
+});
+
+export const insertSwapRequestSchema = createInsertSchema(swapRequests).omit({
+  id: true,
+  createdAt: true
+});
+
+export const createSwapRequestSchema = z.object({
+  assignmentId: z.number().int(),
+  replacementId: z.number().int(),
+  swapAssignmentId: z.number().int().nullish(),
+  reason: z.string().trim().max(500, "Reason must be 500 characters or fewer").nullish(),
+});
+
+export const respondSwapRequestSchema = z.object({
+  accept: z.boolean(),
+});
+
+export const decideSwapRequestSchema = z.object({
+  approve: z.boolean(),
+});
+
+export const outboxFilterSchema = z.object({
+  status: z.enum(["pending", "sending", "sent", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const rosterDiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive().optional(),
+  to: z.union([z.literal("draft"), z.coerce.number().int().positive()]).optional(),
+});
+
+export const insertLoginAttemptSchema = createInsertSchema(loginAttempts).omit({
+  id: true,
+  attemptedAt: true
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
+  id: true,
+  createdAt: true
+});
+
+export const auditLogFilterSchema = z.object({
+  actorId: z.coerce.number().int().optional(),
+  entityType: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const serviceTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Start time must be HH:mm");
+// Calendar days travel as "yyyy-MM-dd" keys; see shared/dates.ts
+const dateKeySchema = z.string().refine(isDateKey, "Date must be yyyy-MM-dd");
+
+export const insertServiceSchema = createInsertSchema(services, {
+  serviceDate: dateKeySchema,
+  startTime: serviceTimeSchema,
+  name: z.string().min(1, "Name is required"),
+}).omit({
+  id: true
+});
+
+export const updateServiceSchema = insertServiceSchema.partial();
+
+export const insertServiceScheduleSchema = createInsertSchema(serviceSchedules, {
+  name: z.string().min(1, "Name is required"),
+  dayOfWeek: z.number().int().min(0).max(6),
+  weeksOfMonth: z.array(z.number().int().min(1).max(5)),
+  startTime: serviceTimeSchema,
+}).omit({
+  id: true
+});
+
+export const updateServiceScheduleSchema = insertServiceScheduleSchema.partial();
+
+// Body of POST /api/admin/services/generate
+export const generateServicesSchema = z.object({
+  year: z.number().int().min(2000),
+  month: z.number().int().min(1).max(12),
 });
 
 export const insertAvailabilitySchema = createInsertSchema(availability).omit({
@@ -83,6 +393,50 @@ export const insertAvailabilitySchema = createInsertSchema(availability).omit({
   lastUpdated: true
 });
 
+// Body of POST and PUT /api/availability-rules
+export const availabilityRuleSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("weekday"),
+    isAvailable: z.boolean(),
+    dayOfWeek: z.number().int().min(0).max(6),
+    weeksOfMonth: z.array(z.number().int().min(1).max(5)).default([]),
+  }),
+  z.object({
+    kind: z.literal("dates"),
+    startDate: dateKeySchema,
+    endDate: dateKeySchema,
+  }),
+]).refine(rule => rule.kind !== "dates" || rule.startDate <= rule.endDate, {
+  message: "The end date can't be before the start date",
+  path: ["endDate"]
+});
+
+// Body of POST /api/time-away; userId defaults to the signed-in member
+export const createTimeAwaySchema = z.object({
+  userId: z.number().int().optional(),
+  startDate: dateKeySchema,
+  endDate: dateKeySchema,
+  reason: z.string().trim().max(200).optional().transform(reason => reason || null),
+}).refine(entry => entry.startDate <= entry.endDate, {
+  message: "The end date can't be before the start date",
+  path: ["endDate"]
+});
+
+export const availabilityStatusSchema = z.enum(["yes", "maybe", "no"]);
+
+// Body of POST /api/availability; the service date is looked up from the service.
+// Leaving out the note or roles keeps the ones already saved, and an empty list of
+// roles means any role.
+export const setAvailabilitySchema = z.object({
+  userId: z.number().int(),
+  serviceId: z.number().int(),
+  status: availabilityStatusSchema,
+  note: z.string().trim().max(200).nullable().optional()
+    .transform(note => note === undefined ? undefined : note || null),
+  roleIds: z.array(z.number().int()).nullable().optional()
+    .transform(roleIds => roleIds === undefined ? undefined : roleIds?.length ? Array.from(new Set(roleIds)) : null),
+});
+
 export const insertSettingsSchema = createInsertSchema(settings).omit({
   id: true
 });
@@ -91,7 +445,11 @@ export const insertVerseSchema = createInsertSchema(verses).omit({
   id: true
 });
 
-export const insertSpecialDaySchema = createInsertSchema(specialDays).omit({
+export const insertSpecialDaySchema = createInsertSchema(specialDays, {
+  date: dateKeySchema,
+  serviceEffect: z.enum(["none", "cancel", "add"]),
+  serviceStartTime: serviceTimeSchema.nullish(),
+}).omit({
   id: true
 });
 
@@ -105,6 +463,32 @@ export const insertRosterAssignmentSchema = createInsertSchema(rosterAssignments
   updatedAt: true
 });
 
+// Body of POST /api/admin/roster-assignments; the service date is looked up from the service
+export const createRosterAssignmentSchema = insertRosterAssignmentSchema.omit({
+  serviceDate: true
+}).extend({
+  serviceId: z.number().int(),
+});
+
+// Body of PATCH /api/admin/roster-assignments/:id; the assignment stays on its service
+export const updateRosterAssignmentSchema = z.object({
+  roleId: z.number().int().optional(),
+  userId: z.number().int().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+// One assignment suggested by the roster generator
+export const proposedAssignmentSchema = z.object({
+  serviceId: z.number().int(),
+  roleId: z.number().int(),
+  userId: z.number().int(),
+});
+
+// Body of POST /api/roster-builder/proposal/:year/:month/accept
+export const acceptRosterProposalSchema = z.object({
+  assignments: z.array(proposedAssignmentSchema).min(1, "No assignments to accept"),
+});
+
 export const insertFinalizedRosterSchema = createInsertSchema(finalizedRosters).omit({
   id: true,
   createdAt: true,
@@ -125,6 +509,30 @@ export const updateMemberNameSchema = z.object({
   lastName: z.string().min(1, "Last name is required")
 });
 
+// Blank fields clear the stored value
+export const updateContactSchema = z.object({
+  email: z.union([z.literal(""), z.string().trim().email("Enter a valid email address")])
+    .nullish()
+    .transform(value => value || null),
+  phone: z.string().trim().max(30, "Phone number is too long")
+    .nullish()
+    .transform(value => value || null),
+  notifyRosterEmails: z.boolean().optional(),
+  notifyAvailabilityReminders: z.boolean().optional(),
+});
+
+export const rosterRecipientsSchema = z.enum(["address", "assigned", "everyone"]);
+
+export const sendRosterSchema = z.object({
+  recipients: rosterRecipientsSchema.default("address"),
+  email: z.string().trim().optional(),
+  month: z.string().regex(/^\d{4}-\d{2}/, "Month must be yyyy-MM").optional(), // "yyyy-MM", or any day in the month
+  viewType: z.enum(["card", "simple", "roles"]).default("card"),
+}).refine(data => data.recipients !== "address" || z.string().email().safeParse(data.email).success, {
+  message: "Email address is required",
+  path: ["email"]
+});
+
 export const updateProfileSchema = z.object({
   firstName: z.string().min(1, "First name is required"),
   lastName: z.string().min(1, "Last name is required"),
@@ -149,16 +557,90 @@ export const nameFormatSchema = z.enum(['full', 'first', 'last', 'initials']);
 // Schema for validating deadline day
 export const deadlineDaySchema = z.number().min(1).max(31);
 
+export const tempPinExpiryHoursSchema = z.number().int().min(1).max(720);
+
+export const lockStateSchema = z.enum(["auto", "locked", "open"]);
+
+export const updateMonthDeadlineSchema = z.object({
+  deadline: dateKeySchema.nullable(),
+  lockState: lockStateSchema,
+  exceptionUserIds: z.array(z.number().int()).default([]),
+});
+
+export const reminderDaysSchema = z.number().int().min(0).max(28);
+
+// Body of POST /api/admin/availability-responses/:year/:month/remind
+export const sendAvailabilityRemindersSchema = z.object({
+  userIds: z.array(z.number().int()).min(1, "Choose at least one member to remind"),
+});
+export const timeZoneSchema = z.string().refine(isValidTimeZone, "Unknown timezone");
+
+export const updateSettingsSchema = z.object({
+  deadlineDay: deadlineDaySchema.optional(),
+  tempPinExpiryHours: tempPinExpiryHoursSchema.optional(),
+  swapApprovalRequired: z.boolean().optional(),
+  reminderDaysBefore: reminderDaysSchema.optional(),
+  finalReminderDaysBefore: reminderDaysSchema.optional(),
+  timeZone: timeZoneSchema.optional(),
+});
+
 export type User = typeof users.$inferSelect;
+// Client-facing projections of a user; see server/serializers.ts
+export type SafeUser = Omit<User, "pin" | "calendarToken">;
+export type MemberSummary = Pick<User, "id" | "firstName" | "lastName" | "initials">;
+export type DirectoryEntry = { id: number; name: string };
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type MemberRole = typeof memberRoles.$inferSelect;
+export type InsertMemberRole = z.infer<typeof insertMemberRoleSchema>;
+export type UpdateMemberRoles = z.infer<typeof updateMemberRolesSchema>;
+export type MemberQualification = typeof memberQualifications.$inferSelect;
+export type QualificationLevel = z.infer<typeof qualificationLevelSchema>;
+export type SetMemberQualification = z.infer<typeof setMemberQualificationSchema>;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = z.infer<typeof insertLoginAttemptSchema>;
+export type LoginOutcome = 'success' | 'invalid_pin' | 'unknown_user' | 'locked' | 'throttled' | 'expired_pin';
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditLogFilter = z.infer<typeof auditLogFilterSchema>;
+export type AuditEntityType = 'roster_assignment' | 'finalized_roster' | 'settings' | 'member' | 'verse' | 'special_day' | 'service_role' | 'service' | 'service_schedule' | 'member_qualification' | 'swap_request' | 'email' | 'availability_deadline' | 'time_away';
+export type Service = typeof services.$inferSelect;
+export type InsertService = z.infer<typeof insertServiceSchema>;
+export type UpdateService = z.infer<typeof updateServiceSchema>;
+export type ServiceSchedule = typeof serviceSchedules.$inferSelect;
+export type InsertServiceSchedule = z.infer<typeof insertServiceScheduleSchema>;
+export type UpdateServiceSchedule = z.infer<typeof updateServiceScheduleSchema>;
+export type SpecialDayServiceEffect = 'none' | 'cancel' | 'add';
 export type Availability = typeof availability.$inferSelect;
 export type InsertAvailability = z.infer<typeof insertAvailabilitySchema>;
+export type AvailabilityRule = typeof availabilityRules.$inferSelect;
+export type AvailabilityRuleKind = 'weekday' | 'dates';
+export type SaveAvailabilityRule = z.infer<typeof availabilityRuleSchema>;
+export type TimeAway = typeof timeAway.$inferSelect;
+export type CreateTimeAway = z.input<typeof createTimeAwaySchema>;
+// Returned by GET /api/time-away and GET /api/admin/time-away
+export type TimeAwayEntry = TimeAway & { member: MemberSummary };
+// An assignment the member already has during new time away, for a coordinator to move
+export type TimeAwayConflict = { assignmentId: number; serviceDate: string; service: string; roleName: string };
+// Returned by POST /api/time-away
+export type CreatedTimeAway = TimeAwayEntry & { conflicts: TimeAwayConflict[] };
+export type AvailabilityStatus = z.infer<typeof availabilityStatusSchema>;
+export type SetAvailability = z.input<typeof setAvailabilitySchema>;
 export type UpdatePin = z.infer<typeof updatePinSchema>;
 export type UpdateProfile = z.infer<typeof updateProfileSchema>;
+export type UpdateContact = z.input<typeof updateContactSchema>;
+export type ContactDetails = z.infer<typeof updateContactSchema>;
+export type RosterRecipients = z.infer<typeof rosterRecipientsSchema>;
+export type SendRoster = z.input<typeof sendRosterSchema>;
+// Returned by POST /api/admin/send-roster; delivery itself is tracked in the outbox
+export type RosterDeliverySummary = {
+  queued: { name: string; email: string; outboxId: number }[];
+  skipped: { name: string; reason: string }[]; // Members without an email address or who opted out
+};
 export type CustomInitials = z.infer<typeof customInitialsSchema>;
 export type UpdateMemberName = z.infer<typeof updateMemberNameSchema>;
 export type NameFormat = z.infer<typeof nameFormatSchema>;
 export type Settings = typeof settings.$inferSelect;
+export type UpdateSettings = z.infer<typeof updateSettingsSchema>;
 export type InsertSettings = z.infer<typeof insertSettingsSchema>;
 export type Verse = typeof verses.$inferSelect;
 export type InsertVerse = z.infer<typeof insertVerseSchema>;
@@ -168,5 +650,149 @@ export type ServiceRole = typeof serviceRoles.$inferSelect;
 export type InsertServiceRole = z.infer<typeof insertServiceRoleSchema>;
 export type RosterAssignment = typeof rosterAssignments.$inferSelect;
 export type InsertRosterAssignment = z.infer<typeof insertRosterAssignmentSchema>;
+export type CreateRosterAssignment = z.infer<typeof createRosterAssignmentSchema>;
+export type ProposedAssignment = z.infer<typeof proposedAssignmentSchema>;
+export type AcceptRosterProposal = z.infer<typeof acceptRosterProposalSchema>;
+export type SwapRequest = typeof swapRequests.$inferSelect;
+export type InsertSwapRequest = z.infer<typeof insertSwapRequestSchema>;
+export type SwapRequestStatus = 'pending' | 'accepted' | 'approved' | 'declined' | 'rejected' | 'cancelled';
+export type CreateSwapRequest = z.infer<typeof createSwapRequestSchema>;
+export type AvailabilityDeadline = typeof availabilityDeadlines.$inferSelect;
+export type AvailabilityException = typeof availabilityExceptions.$inferSelect;
+export type LockState = z.infer<typeof lockStateSchema>;
+export type UpdateMonthDeadline = z.input<typeof updateMonthDeadlineSchema>;
+// Whether members can still change their availability for a month; see shared/deadlines.ts
+export type DeadlineStatus = {
+  year: number;
+  month: number;
+  deadline: string; // "yyyy-MM-dd"; the last day changes are accepted
+  defaultDeadline: string; // From settings.deadlineDay, for comparison with an override
+  isOverridden: boolean;
+  lockState: LockState;
+  isLocked: boolean; // For members without an exception
+  daysLeft: number; // From today at the church to the deadline; negative once it has passed
+  hasException: boolean; // The signed-in member may still make changes
+};
+// Returned by GET /api/admin/availability-deadlines/:year/:month
+export type MonthDeadlineSettings = {
+  status: DeadlineStatus;
+  exceptionUserIds: number[];
+};
+export type AvailabilityReminder = typeof availabilityReminders.$inferSelect;
+export type AvailabilityReminderKind = 'first' | 'final' | 'manual';
+export type SendAvailabilityReminders = z.infer<typeof sendAvailabilityRemindersSchema>;
+// How far a member has answered for a month's services
+export type ResponseState = 'none' | 'partial' | 'complete';
+// Returned by GET /api/admin/availability-responses/:year/:month
+export type AvailabilityResponses = {
+  deadline: DeadlineStatus;
+  serviceCount: number;
+  members: {
+    member: MemberSummary;
+    state: ResponseState;
+    answered: number; // Services the member answered themselves, out of serviceCount
+    filled: number; // Further services answered for them from rules or time away
+    lastUpdated: Date | null; // Latest change to an answer the member gave for the month
+    lastReminder: Date | null;
+    canEmail: boolean; // Has an email address and hasn't opted out of reminders
+  }[];
+  services: {
+    service: Service;
+    yes: number;
+    maybe: number;
+    no: number;
+    noResponse: number;
+  }[];
+};
+// Returned by POST /api/admin/availability-responses/:year/:month/remind
+export type ReminderDeliverySummary = {
+  queued: number;
+  skipped: { name: string; reason: string }[];
+};
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'failed';
+export type OutboxFilter = z.infer<typeof outboxFilterSchema>;
+// Outbox entries as listed by GET /api/admin/outbox, without attachment contents
+export type OutboxEntry = Omit<OutboxEmail, "attachments"> & { attachmentNames: string[] };
+export type EmailAttachment = typeof emailAttachments.$inferSelect;
+export type OutboxAttachment = {
+  filename: string;
+  attachmentId?: number; // Row in email_attachments holding the contents
+  content?: string; // Base64; only on emails queued before contents were stored separately
+};
+// An attachment to send with a queued email
+export type QueueAttachment = {
+  filename: string;
+  content: string; // Base64
+};
+// An email to add to the outbox
+export type QueueEmail = {
+  category: string;
+  toAddress: string;
+  toName?: string | null;
+  subject: string;
+  text: string;
+  attachments?: QueueAttachment[];
+  createdBy?: number | null;
+};
+// A swap request with the people, service and role it refers to, as returned by the API
+export type SwapRequestDetails = SwapRequest & {
+  requester: MemberSummary | null;
+  replacement: MemberSummary | null;
+  service: Service | null;
+  role: ServiceRole | null;
+  swapService: Service | null; // Service of swapAssignmentId, for swaps
+};
+// Who could take an assignment: substitutes simply take it, swap partners hand one of theirs back
+export type SwapOptions = {
+  substitutes: MemberSummary[];
+  swaps: { assignmentId: number; user: MemberSummary; service: Service; role: ServiceRole }[];
+};
+// One of a member's assignments on a finalized roster, as listed on their schedule
+export type ScheduleEntry = {
+  assignment: RosterAssignment;
+  service: Service;
+  role: ServiceRole | null;
+  specialDay: SpecialDay | null;
+};
+// Returned by GET /api/my-schedule
+export type MySchedule = {
+  upcoming: ScheduleEntry[];
+  past: ScheduleEntry[]; // Earlier this year, most recent first
+  availability: { service: Service; status: AvailabilityStatus; note: string | null }[]; // Responses for upcoming services
+  servedThisYear: number;
+};
+// Subscription URLs shown on the account page; see GET /api/calendar/links
+export type CalendarLinks = {
+  memberFeedUrl: string; // The member's own finalized assignments
+  churchFeedUrl: string; // Every service and special day
+};
+export type RosterProposal = {
+  assignments: ProposedAssignment[];
+  unfilled: { serviceId: number; roleId: number; missing: number }[]; // Places nobody available could fill
+  load: { userId: number; previous: number; current: number; proposed: number }[]; // Assignments per member
+};
 export type FinalizedRoster = typeof finalizedRosters.$inferSelect;
+// One place on a published roster, as kept in roster versions
+export type PublishedAssignment = {
+  userId: number;
+  serviceId: number;
+  roleId: number;
+};
+export type RosterVersion = typeof rosterVersions.$inferSelect;
+// Listed by GET /api/roster-versions/:year/:month, without the snapshot itself
+export type RosterVersionSummary = Omit<RosterVersion, "assignments"> & { assignmentCount: number };
+// Returned by GET /api/roster-versions/:year/:month/diff; one entry per service and role that changed
+export type RosterDiff = {
+  from: number | null; // Version number; null when comparing against an empty roster
+  to: number | "draft"; // Version number, or the assignments as they are now
+  changes: {
+    serviceId: number;
+    roleId: number;
+    service: Service | null;
+    role: ServiceRole | null;
+    added: MemberSummary[];
+    removed: MemberSummary[];
+  }[];
+};
 export type InsertFinalizedRoster = z.infer<typeof insertFinalizedRosterSchema>;
\ No newline at end of file
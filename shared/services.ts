@@ -0,0 +1,70 @@
+import type { Service, ServiceSchedule } from "./schema";
+import { dateKey, dayOfWeek, daysInMonth } from "./dates";
+
+// Used when no service schedules have been set up yet
+export const DEFAULT_SERVICE_SCHEDULE = {
+  name: "Sunday Service",
+  startTime: "10:00",
+  dayOfWeek: 0,
+  weeksOfMonth: [] as number[],
+  location: null,
+  isActive: true,
+};
+
+// Orders services by date, then start time
+export function compareServices(
+  a: Pick<Service, "serviceDate" | "startTime">,
+  b: Pick<Service, "serviceDate" | "startTime">
+): number {
+  return a.serviceDate.localeCompare(b.serviceDate) || a.startTime.localeCompare(b.startTime);
+}
+
+// "08:00" -> "8:00am", "19:30" -> "7:30pm"
+export function formatServiceTime(startTime: string): string {
+  const [hours, minutes] = startTime.split(":").map(Number);
+  const suffix = hours < 12 ? "am" : "pm";
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(minutes).padStart(2, "0")}${suffix}`;
+}
+
+// e.g. "8:00am Morning Service (Main Hall)"
+export function formatServiceLabel(service: Pick<Service, "startTime" | "name" | "location">): string {
+  const label = `${formatServiceTime(service.startTime)} ${service.name}`;
+  return service.location ? `${label} (${service.location})` : label;
+}
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const ORDINALS = ["1st", "2nd", "3rd", "4th", "5th"];
+
+// e.g. "Every Sunday", "1st Friday", "2nd and 4th Wednesday"
+export function describeSchedule(schedule: Pick<ServiceSchedule, "dayOfWeek" | "weeksOfMonth">): string {
+  const weekday = WEEKDAY_NAMES[schedule.dayOfWeek];
+  if (schedule.weeksOfMonth.length === 0) return `Every ${weekday}`;
+
+  const ordinals = [...schedule.weeksOfMonth].sort((a, b) => a - b).map(week => ORDINALS[week - 1]);
+  const list = ordinals.length > 1
+    ? `${ordinals.slice(0, -1).join(", ")} and ${ordinals[ordinals.length - 1]}`
+    : ordinals[0];
+  return `${list} ${weekday}`;
+}
+
+// "yyyy-MM-dd" dates in the month that the schedule falls on
+export function getScheduleDates(
+  schedule: Pick<ServiceSchedule, "dayOfWeek" | "weeksOfMonth">,
+  year: number,
+  month: number
+): string[] {
+  const lastDay = daysInMonth(year, month);
+  const firstWeekday = dayOfWeek(dateKey(year, month, 1));
+  const dates: string[] = [];
+
+  // Day of the month of the first matching weekday, then every 7 days
+  for (let day = 1 + (schedule.dayOfWeek - firstWeekday + 7) % 7, week = 1; day <= lastDay; day += 7, week++) {
+    if (schedule.weeksOfMonth.length === 0 || schedule.weeksOfMonth.includes(week)) {
+      dates.push(dateKey(year, month, day));
+    }
+  }
+
+  return dates;
+}